@@ -3,7 +3,7 @@
 'use server';
 
 /**
- * @fileOverview Provides AI-powered recommendation on which tax system ('Régime Réel' or 'Régime Micro') is more beneficial, considering activity type.
+ * @fileOverview Provides AI-powered recommendation on which tax system ('Régime Réel', 'Régime Micro' or a SASU) is more beneficial, considering activity type.
  *
  * - taxSystemRecommendation - A function that provides a recommendation on the tax system.
  * - TaxRecommendationInput - The input type for the taxSystemRecommendation function.
@@ -14,7 +14,23 @@ import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
 import type { ActivityType } from '@/lib/tax-calculator'; // Import ActivityType
 
-const ActivityTypeEnumSchema = z.enum(["VENTE_BIC", "SERVICE_BIC", "LIBERAL_BNC_AUTRE", "LIBERAL_BNC_CIPAV"]);
+const ActivityTypeEnumSchema = z.enum(["VENTE_BIC", "SERVICE_BIC", "LIBERAL_BNC_AUTRE", "LIBERAL_BNC_CIPAV", "LIBERAL_BNC_REGLEMENTEE", "LOCATION_MEUBLEE", "MEUBLE_TOURISME_CLASSE", "MEUBLE_TOURISME_NON_CLASSE", "CHAMBRES_HOTES"]);
+
+const HouseholdSchema = z.object({
+  familySituation: z.enum(["CELIBATAIRE", "MARIE_PACSE", "DIVORCE_SEPARE", "VEUF"]).describe('La situation familiale du foyer fiscal.'),
+  dependentChildren: z.number().describe('Le nombre d\'enfants à charge exclusive ou principale.'),
+  sharedCustodyChildren: z.number().describe('Le nombre d\'enfants en résidence alternée.'),
+  singleParent: z.boolean().describe('Vrai si le contribuable vit seul avec ses enfants (case T, parent isolé).'),
+  taxpayerDisabled: z.boolean().describe('Vrai si le déclarant est titulaire d\'une carte d\'invalidité.'),
+  spouseDisabled: z.boolean().describe('Vrai si le conjoint est titulaire d\'une carte d\'invalidité.'),
+});
+
+const OptimalRemunerationSchema = z.object({
+  remuneration: z.number().describe('La rémunération optimale du dirigeant (salaire brut en SASU, rémunération du gérant en EURL).'),
+  dividendTaxationLabel: z.string().describe('L\'imposition des dividendes la plus avantageuse en ce point.'),
+  netIncome: z.number().describe('Le revenu net du foyer en ce point, le reste du bénéfice étant distribué.'),
+  retirementQuartersValidated: z.number().describe('Le nombre de trimestres de retraite validés en ce point.'),
+});
 
 const TaxRecommendationInputSchema = z.object({
   annualRevenue: z
@@ -24,8 +40,159 @@ const TaxRecommendationInputSchema = z.object({
     .number()
     .describe('Les charges annuelles réelles de l\'entreprise (pour le Régime Réel et pour la comparaison du net perçu en Micro).'),
   activityType: ActivityTypeEnumSchema.describe(
-    "Le type d\'activité : 'VENTE_BIC' (Ventes de marchandises), 'SERVICE_BIC' (Prestations de services BIC), 'LIBERAL_BNC_AUTRE' (Autres prestations de services BNC), ou 'LIBERAL_BNC_CIPAV' (Professions libérales réglementées CIPAV)."
+    "Le type d\'activité : 'VENTE_BIC' (Ventes de marchandises), 'SERVICE_BIC' (Prestations de services BIC), 'LIBERAL_BNC_AUTRE' (Autres prestations de services BNC), 'LIBERAL_BNC_CIPAV' (Professions libérales réglementées CIPAV), 'LIBERAL_BNC_REGLEMENTEE' (Professions libérales réglementées relevant d\'une autre caisse : CARMF, CARPIMKO, CAVEC), 'LOCATION_MEUBLEE' (Location meublée de longue durée, LMNP), 'MEUBLE_TOURISME_CLASSE' (Meublé de tourisme classé), 'MEUBLE_TOURISME_NON_CLASSE' (Meublé de tourisme non classé) ou 'CHAMBRES_HOTES' (Chambres d\'hôtes)."
   ),
+  revenueLines: z.array(z.object({
+    activityType: ActivityTypeEnumSchema.describe('Le type d\'activité de la ligne.'),
+    annualRevenue: z.number().describe('Le chiffre d\'affaires annuel de la ligne.'),
+    allowanceRatePercent: z.number().describe('Le taux d\'abattement micro de la ligne, en pourcentage.'),
+    socialRatePercent: z.number().describe('Le taux de cotisations sociales micro de la ligne, en pourcentage.'),
+  })).describe('Le chiffre d\'affaires par type d\'activité ; plusieurs lignes pour une activité mixte (ventes et services).'),
+  household: HouseholdSchema.describe('La composition du foyer fiscal.'),
+  fiscalParts: z.number().describe('Le nombre de parts fiscales du foyer (quotient familial), calculé par le simulateur.'),
+  fiscalYear: z.number().describe('L\'année des revenus simulés, qui détermine le barème et les taux appliqués.'),
+  microAllowanceRatePercent: z.number().describe('Le taux d\'abattement forfaitaire du régime micro pour l\'activité, en pourcentage.'),
+  microSocialRatePercent: z.number().describe('Le taux de cotisations sociales URSSAF du régime micro pour l\'activité et l\'année, en pourcentage.'),
+  microCfpRatePercent: z.number().describe('Le taux de contribution à la formation professionnelle du régime micro, en pourcentage.'),
+  taxReductions: z.number().describe('Le montant des réductions d\'impôt dont bénéficie le foyer.'),
+  otherIncome: z.object({
+    taxpayerSalaries: z.number().describe('Les salaires du déclarant, avant déduction forfaitaire de 10%.'),
+    spouseSalaries: z.number().describe('Les salaires du conjoint, avant déduction forfaitaire de 10%.'),
+    pensions: z.number().describe('Les pensions et retraites du foyer, avant abattement de 10%.'),
+    rentalIncome: z.number().describe('Les revenus fonciers nets du foyer.'),
+    otherBusinessIncome: z.number().describe('Le bénéfice imposable d\'une autre activité indépendante du foyer.'),
+  }).describe('Les revenus du foyer hors activité simulée.'),
+  otherTaxableIncome: z.number().describe('Les autres revenus nets imposables du foyer (après abattements), hors activité simulée.'),
+  marginalTaxRatePercent: z.number().describe('Le taux marginal d\'imposition du foyer en micro classique, en pourcentage.'),
+  microIncomeTax: z.number().describe('L\'impôt sur le revenu imputable à l\'activité en micro classique, calculé par le simulateur.'),
+  reelIncomeTax: z.number().describe('L\'impôt sur le revenu imputable à l\'activité au réel, calculé par le simulateur.'),
+  creationDate: z.string().nullable().describe('La date de création de l\'entreprise (AAAA-MM-JJ), ou null pour une entreprise existante.'),
+  acre: z.boolean().describe('Vrai si l\'entrepreneur bénéficie de l\'ACRE.'),
+  microAcreReduction: z.number().describe('La réduction de cotisations due à l\'ACRE en micro sur l\'année simulée.'),
+  reelAcreExemption: z.number().describe('L\'exonération de cotisations due à l\'ACRE au réel sur l\'année simulée.'),
+  cfe: z.object({
+    communeLabel: z.string().describe('La commune retenue pour le taux de CFE, ou "Taux saisi".'),
+    ratePercent: z.number().describe('Le taux de CFE de la commune, en %.'),
+    exemptionLabel: z.string().nullable().describe('Le motif d\'exonération de CFE de l\'année, ou null.'),
+    secondYearReduction: z.boolean().describe('Vrai si la base de CFE est réduite de moitié l\'année suivant la création.'),
+    microAmount: z.number().describe('La CFE estimée en micro, non déductible.'),
+    reelAmount: z.number().describe('La CFE estimée au réel, déduite du bénéfice.'),
+  }).describe('La cotisation foncière des entreprises, incluse dans le revenu net du micro et du réel.'),
+  microEligible: z.boolean().describe('Faux si le chiffre d\'affaires exclut le régime micro (plafond dépassé deux années consécutives).'),
+  microWarnings: z.array(z.string()).describe('Les alertes du simulateur sur les seuils du régime micro et de la franchise en base de TVA.'),
+  vat: z.object({
+    statusLabel: z.string().describe('Le régime de TVA de l\'année (franchise en base, assujettissement, exonération).'),
+    clientele: z.enum(["B2B", "B2C"]).describe('B2B : clients professionnels qui récupèrent la TVA ; B2C : particuliers.'),
+    vatCollected: z.number().describe('La TVA collectée sur l\'année.'),
+    vatDeductible: z.number().describe('La TVA déductible sur les charges.'),
+    vatPayable: z.number().describe('La TVA à reverser (négative en cas de crédit de TVA).'),
+    revenueHt: z.number().describe('Le chiffre d\'affaires HT retenu pour les impôts et cotisations de tous les régimes.'),
+    clientPrice: z.number().describe('Le total payé par les clients, TVA comprise.'),
+    alternativeClientPrice: z.number().describe('Le total que paieraient les clients avec l\'autre traitement de TVA (franchise toute l\'année si la TVA est due, TVA toute l\'année sinon).'),
+    netIncomeEffect: z.number().describe('Le revenu net micro du traitement de TVA de l\'année moins celui de l\'autre traitement.'),
+    warnings: z.array(z.string()).describe('Les alertes du simulateur sur la TVA (franchissement de seuil en cours d\'année, crédit de TVA).'),
+  }).nullable().describe('La TVA, lorsque l\'utilisateur a précisé ses montants HT ou TTC et sa clientèle.'),
+  reelContributions: z.object({
+    pensionFund: z.string().nullable().describe('La caisse de retraite de la profession libérale réglementée (CIPAV, CARMF, CARPIMKO, CAVEC), ou null si la retraite relève de la SSI.'),
+    professionalIncome: z.number().describe('Le revenu professionnel au réel (bénéfice après cotisations sociales déductibles).'),
+    lines: z.array(z.object({
+      label: z.string().describe('Le libellé de la cotisation.'),
+      amount: z.number().describe('Le montant de la cotisation, après exonération ACRE.'),
+    })).describe('Le détail des cotisations sociales SSI au réel.'),
+    total: z.number().describe('Le total des cotisations sociales au réel.'),
+    minimumContributionsApplied: z.boolean().describe('Vrai si des cotisations minimales sont dues car le revenu est inférieur aux assiettes minimales.'),
+    retirementQuartersValidated: z.number().describe('Le nombre de trimestres de retraite de base validés au réel (0 à 4).'),
+    deficitOfYear: z.number().describe('Le déficit professionnel de l\'année au réel (0 en cas de bénéfice).'),
+    deficitImputedOnGlobalIncome: z.number().describe('La part de ce déficit imputée sur les autres revenus du foyer.'),
+    priorDeficitsImputed: z.number().describe('Les déficits des années antérieures imputés sur le revenu global de l\'année.'),
+    deficitsCarriedForward: z.number().describe('Les déficits restant reportables sur les six années suivantes.'),
+    deficitTaxSaving: z.number().describe('L\'économie d\'impôt sur le revenu due à l\'imputation des déficits.'),
+    netIncomeAfterAll: z.number().describe('Le revenu net final au réel, calculé par le simulateur.'),
+  }).nullable().describe('Les cotisations sociales du travailleur indépendant au réel, calculées ligne par ligne, ou null pour une location meublée, dont le réel est décrit à part.'),
+  furnishedRental: z.object({
+    nonProfessionalRental: z.boolean().describe('Vrai pour une location meublée non professionnelle (prélèvements sociaux), faux pour des chambres d\'hôtes (cotisations SSI).'),
+    resultBeforeAmortization: z.number().describe('Les loyers moins les charges et les intérêts d\'emprunt.'),
+    amortizationDeducted: z.number().describe('Les amortissements du bien (hors terrain) et du mobilier déduits sur l\'année.'),
+    amortizationCarriedForward: z.number().describe('Les amortissements non déduits, reportables sans limite de durée.'),
+    rentalResult: z.number().describe('Le résultat imposable au réel après amortissements, négatif en cas de déficit.'),
+    totalSocialContributions: z.number().describe('Les prélèvements sociaux ou cotisations SSI au réel.'),
+    taxAmount: z.number().describe('L\'impôt sur le revenu imputable à la location au réel.'),
+    netIncomeAfterAll: z.number().describe('Le revenu net final de la location au réel, calculé par le simulateur.'),
+  }).nullable().describe('Le régime réel de la location meublée avec amortissements, ou null si l\'activité principale n\'est pas une location meublée.'),
+  sasu: z.object({
+    grossSalary: z.number().describe('La rémunération brute annuelle du président de SASU.'),
+    netSalary: z.number().describe('Le salaire net du président après cotisations salariales.'),
+    payrollContributions: z.number().describe('Les cotisations salariales et patronales sur la rémunération du président (assimilé salarié).'),
+    corporateTax: z.number().describe('L\'impôt sur les sociétés (15% puis 25%).'),
+    dividends: z.number().describe('Les dividendes distribués au président.'),
+    dividendTaxationLabel: z.string().describe('L\'imposition des dividendes : prélèvement forfaitaire unique ou option pour le barème progressif.'),
+    dividendFlatTax: z.number().describe('L\'impôt et les prélèvements sociaux sur les dividendes.'),
+    retainedEarnings: z.number().describe('Le bénéfice après IS conservé dans la société.'),
+    incomeTax: z.number().describe('L\'impôt sur le revenu imputable au salaire du président.'),
+    retirementQuartersValidated: z.number().describe('Le nombre de trimestres de retraite de base validés par le salaire (0 à 4).'),
+    netIncomeAfterAll: z.number().describe('Le revenu net final du président (salaire net et dividendes, après impôts), calculé par le simulateur.'),
+  }).describe('Les résultats d\'une SASU à l\'impôt sur les sociétés.'),
+  eurl: z.object({
+    legalFormLabel: z.string().describe('La forme juridique : EURL à l\'IS, ou entreprise individuelle ayant opté pour l\'IS (assimilation EURL).'),
+    managerRemuneration: z.number().describe('La rémunération annuelle du gérant majoritaire (travailleur non salarié).'),
+    remunerationContributions: z.number().describe('Les cotisations SSI sur la rémunération, payées par la société.'),
+    corporateTax: z.number().describe('L\'impôt sur les sociétés (15% puis 25%).'),
+    dividends: z.number().describe('Les dividendes distribués au gérant.'),
+    dividendSocialThreshold: z.number().describe('Le seuil de 10% du capital et des comptes courants au-delà duquel les dividendes supportent des cotisations sociales.'),
+    dividendsSubjectToContributions: z.number().describe('La part des dividendes au-delà de ce seuil.'),
+    dividendContributions: z.number().describe('Les cotisations SSI supplémentaires dues sur cette part.'),
+    retainedEarnings: z.number().describe('Le bénéfice après IS conservé dans la société.'),
+    dividendTaxationLabel: z.string().describe('L\'imposition des dividendes : prélèvement forfaitaire unique ou option pour le barème progressif.'),
+    incomeTax: z.number().describe('L\'impôt sur le revenu sur la rémunération et les dividendes.'),
+    retirementQuartersValidated: z.number().describe('Le nombre de trimestres de retraite de base validés (0 à 4).'),
+    netIncomeAfterAll: z.number().describe('Le revenu net final du gérant, calculé par le simulateur.'),
+  }).describe('Les résultats d\'une EURL ou d\'une EI à l\'impôt sur les sociétés.'),
+  remunerationOptimization: z.object({
+    minRetirementQuarters: z.number().describe('Le nombre minimum de trimestres de retraite imposé à l\'optimisation (0 si aucune contrainte).'),
+    sasu: OptimalRemunerationSchema.nullable().describe('La répartition optimale en SASU, ou null si aucune ne respecte la contrainte.'),
+    eurl: OptimalRemunerationSchema.nullable().describe('La répartition optimale en EURL / EI à l\'IS, ou null si aucune ne respecte la contrainte.'),
+  }).describe('La répartition entre rémunération et dividendes qui maximise le revenu net du foyer, le reste du bénéfice étant distribué.'),
+  breakEven: z.object({
+    summary: z.string().describe('La phrase décrivant le point mort entre le micro et le réel, calculée par le simulateur.'),
+    currentDifference: z.number().describe('Le revenu net au réel moins le revenu net au micro avec les charges saisies.'),
+    breakEvenExpensesPercent: z.number().nullable().describe('Le taux de charges (en % du chiffre d\'affaires) au-delà duquel le réel devient plus avantageux, ou null si les courbes ne se croisent pas.'),
+    breakEvenExpenses: z.number().nullable().describe('Le montant de charges correspondant.'),
+    revenueBreakEven: z.number().nullable().describe('Le chiffre d\'affaires où les deux régimes se valent à taux de charges constant, ou null s\'il n\'y en a pas avant le plafond du micro.'),
+  }).nullable().describe('Le point mort entre le micro et le réel, ou null pour une location meublée.'),
+  projection: z.object({
+    years: z.number().describe('Le nombre d\'années projetées.'),
+    startYear: z.number().describe('La première année projetée.'),
+    revenueGrowthPercent: z.number().describe('La croissance annuelle du chiffre d\'affaires, en pourcentage.'),
+    expenseGrowthPercent: z.number().describe('La croissance annuelle des charges, en pourcentage.'),
+    cumulativeNetIncome: z.object({
+      MICRO: z.number().nullable(),
+      MICRO_LIBERATOIRE: z.number().nullable(),
+      REEL: z.number().nullable(),
+      SASU: z.number().nullable(),
+      EURL: z.number().nullable(),
+    }).describe('Le revenu net cumulé sur la période pour chaque régime, null si le régime n\'est pas ouvert toute la période.'),
+    bestRegimeLabel: z.string().describe('Le régime au revenu net cumulé le plus élevé.'),
+    microExitYear: z.number().nullable().describe('L\'année à partir de laquelle les plafonds du micro sont dépassés et l\'activité passe au réel, ou null.'),
+    pendingRegularization: z.number().describe('La régularisation des cotisations du réel de la dernière année, due après la période.'),
+  }).nullable().describe('La projection pluriannuelle, ou null si elle n\'a pas été demandée.'),
+  retirement: z.array(z.object({
+    regimeLabel: z.string().describe('Le régime.'),
+    netIncome: z.number().describe('Le revenu net final du régime, calculé par le simulateur.'),
+    quartersValidated: z.number().describe('Le nombre de trimestres de retraite de base validés (0 à 4).'),
+    baseIncomeCredited: z.number().describe('Le revenu porté au compte de la retraite de base, plafonné au PASS.'),
+    complementaryLabel: z.string().nullable().describe('Le régime de retraite complémentaire (RCI, Agirc-Arrco ou la caisse de la profession libérale), ou null sans droits.'),
+    complementaryPoints: z.number().nullable().describe('Les points de retraite complémentaire acquis, ou null s\'ils dépendent du barème de la caisse.'),
+    pensionAcquired: z.number().describe('La pension annuelle (base et complémentaire) acquise par l\'année, aux valeurs de l\'année.'),
+  })).describe('Les droits à la retraite acquis dans chaque régime, à mettre en regard du revenu net.'),
+  versementLiberatoire: z.object({
+    eligible: z.boolean().describe('Vrai si le revenu fiscal de référence N-2 permet d\'opter pour le versement libératoire.'),
+    referenceIncomeN2: z.number().describe('Le revenu fiscal de référence N-2 du foyer.'),
+    referenceIncomeLimit: z.number().describe('Le plafond de revenu fiscal de référence N-2 pour le foyer.'),
+    ratePercent: z.number().describe('Le taux du versement libératoire applicable au chiffre d\'affaires, en pourcentage.'),
+    amount: z.number().describe('Le montant du versement libératoire calculé par le simulateur.'),
+    effectiveRateTaxIncrease: z.number().describe('L\'impôt supplémentaire sur les autres revenus du foyer dû au taux effectif.'),
+    netIncomeAfterAll: z.number().describe('Le revenu net final en micro avec versement libératoire, calculé par le simulateur.'),
+  }).describe('Les résultats du régime micro avec option pour le versement libératoire.'),
 });
 export type TaxRecommendationInput = z.infer<typeof TaxRecommendationInputSchema>;
 
@@ -46,35 +213,153 @@ const prompt = ai.definePrompt({
   name: 'taxSystemRecommendationPrompt',
   input: {schema: TaxRecommendationInputSchema},
   output: {schema: TaxRecommendationOutputSchema},
-  prompt: `Compte tenu des informations financières suivantes et du type d\'activité, fournissez une brève recommandation EN FRANÇAIS pour déterminer si le 'Régime Réel' ou le 'Régime Micro' est probablement plus avantageux. Expliquez votre raisonnement en comparant les résultats finaux (revenu net après impôts et toutes cotisations sociales).
+  prompt: `Compte tenu des informations financières suivantes et du type d\'activité, fournissez une brève recommandation EN FRANÇAIS pour déterminer si le 'Régime Réel', le 'Régime Micro', une SASU ou une EURL à l\'IS est probablement plus avantageux. Expliquez votre raisonnement en comparant les résultats finaux (revenu net après impôts et toutes cotisations sociales).
 
 Chiffre d\'affaires annuel : {{{annualRevenue}}}
 Charges annuelles réelles : {{{annualExpenses}}}
-Type d\'activité : {{{activityType}}}
+Type d\'activité principale : {{{activityType}}}
+Chiffre d\'affaires par activité :
+{{#each revenueLines}}- {{{this.activityType}}} : {{{this.annualRevenue}}} (abattement {{{this.allowanceRatePercent}}}%, cotisations sociales {{{this.socialRatePercent}}}%)
+{{/each}}
+Année des revenus simulés : {{{fiscalYear}}}
+
+Composition du foyer fiscal :
+- Situation familiale : {{{household.familySituation}}}
+- Enfants à charge (exclusive ou principale) : {{{household.dependentChildren}}}
+- Enfants en résidence alternée : {{{household.sharedCustodyChildren}}}
+- Parent isolé (case T) : {{#if household.singleParent}}oui{{else}}non{{/if}}
+- Invalidité du déclarant : {{#if household.taxpayerDisabled}}oui{{else}}non{{/if}} ; du conjoint : {{#if household.spouseDisabled}}oui{{else}}non{{/if}}
+- Nombre de parts fiscales : {{{fiscalParts}}}
+- Réductions d\'impôt : {{{taxReductions}}}
+- Salaires du déclarant : {{{otherIncome.taxpayerSalaries}}} ; salaires du conjoint : {{{otherIncome.spouseSalaries}}}
+- Pensions et retraites : {{{otherIncome.pensions}}}
+- Revenus fonciers nets : {{{otherIncome.rentalIncome}}}
+- Bénéfice d\'une autre activité indépendante du foyer : {{{otherIncome.otherBusinessIncome}}}
+- Autres revenus nets imposables du foyer, après abattements : {{{otherTaxableIncome}}}
+- Taux marginal d\'imposition du foyer : {{{marginalTaxRatePercent}}}%
 
 Informations clés pour votre analyse :
 
-Régime Micro-Entreprise :
+Impôt sur le revenu (commun aux deux régimes) :
+- L\'impôt est calculé au barème progressif applicable aux revenus {{{fiscalYear}}} sur le revenu imposable divisé par le nombre de parts fiscales ({{{fiscalParts}}}), puis multiplié par ce même nombre de parts (quotient familial).
+- L\'avantage procuré par les demi-parts au-delà du quotient conjugal (1 part pour une personne seule, 2 parts pour un couple marié ou pacsé) est plafonné (plafonnement des effets du quotient familial).
+- L\'impôt est ensuite diminué de la décote (pour les impôts modestes) puis des réductions d\'impôt. Un impôt net inférieur à 61 € n\'est pas mis en recouvrement. La contribution exceptionnelle sur les hauts revenus (3% puis 4% au-delà de 250 000 € pour une personne seule, 500 000 € pour un couple) s\'ajoute à l\'impôt.
+- La décote rend le taux d\'imposition effectif des premiers euros imposables supérieur au taux du barème : une baisse du revenu imposable peut donc faire baisser l\'impôt plus que proportionnellement.
+- L\'impôt est calculé sur l\'ensemble des revenus du foyer (salaires après déduction de 10%, pensions après abattement de 10%, revenus fonciers, autres bénéfices et revenu de l\'activité). Seule la hausse d\'impôt due à l\'activité lui est imputée : {{{microIncomeTax}}} en micro classique et {{{reelIncomeTax}}} au réel, selon le calcul du simulateur.
+- Les autres revenus du foyer augmentent le taux marginal appliqué à l\'activité : plus ce taux est élevé, plus l\'écart entre le revenu imposable micro (après abattement) et le bénéfice réel pèse sur la décision.
+- Plus le nombre de parts est élevé, plus le taux marginal d\'imposition est faible, ce qui réduit l\'écart d\'impôt entre les deux régimes : l\'arbitrage se joue alors davantage sur les cotisations sociales.
+
+Création d\'entreprise et ACRE :
+- Date de création : {{#if creationDate}}{{{creationDate}}}{{else}}entreprise existante (année complète){{/if}}
+{{#if acre}}- L\'entrepreneur bénéficie de l\'ACRE. En micro, le taux de cotisations sociales est réduit de 50% jusqu\'à la fin du troisième trimestre civil suivant celui de la création (réduction calculée : {{{microAcreReduction}}}). Au réel, une partie des cotisations est exonérée pendant douze mois, totalement sous 75% du PASS puis dégressivement jusqu\'à 100% du PASS (exonération calculée : {{{reelAcreExemption}}}). Précisez que cet avantage est temporaire et que la comparaison s\'inversera peut-être les années suivantes.{{else}}- Pas d\'ACRE.{{/if}}
+
+Cotisation foncière des entreprises (CFE) :
+- Commune : {{{cfe.communeLabel}}}, taux {{{cfe.ratePercent}}}%. La base est la valeur locative des locaux, au minimum la base minimum votée par la commune selon le chiffre d\'affaires.
+- {{#if cfe.exemptionLabel}}Exonération de l\'année : {{{cfe.exemptionLabel}}}.{{else}}{{#if cfe.secondYearReduction}}Base réduite de moitié l\'année suivant la création.{{else}}CFE due en totalité.{{/if}}{{/if}}
+- CFE estimée : {{{cfe.microAmount}}} en micro (non déductible), {{{cfe.reelAmount}}} au réel (déduite du bénéfice). Elle est déjà incluse dans le revenu net des deux régimes ; rappelez qu\'elle est due chaque année à partir de la deuxième année d\'activité.
+
+Seuils du régime micro et de la franchise en base de TVA :
+{{#if microEligible}}- Le régime micro est accessible pour ce chiffre d\'affaires.{{else}}- Le régime micro N\'EST PAS accessible : le plafond de chiffre d\'affaires est dépassé deux années consécutives. Ne recommandez pas le Micro (classique ou avec versement libératoire) ; présentez le Réel comme le régime applicable.{{/if}}
+{{#each microWarnings}}
+- {{{this}}}
+{{/each}}
+
+{{#if vat}}TVA (calculée par le simulateur) :
+- Régime de TVA : {{{vat.statusLabel}}} ; clientèle {{{vat.clientele}}}.
+- Chiffre d\'affaires HT retenu pour tous les régimes : {{{vat.revenueHt}}} ; payé par les clients : {{{vat.clientPrice}}} (avec l\'autre traitement de TVA : {{{vat.alternativeClientPrice}}}).
+- TVA collectée {{{vat.vatCollected}}}, déductible {{{vat.vatDeductible}}}, à reverser {{{vat.vatPayable}}}. La TVA n\'est ni un revenu ni une charge, mais la franchise en base rend la TVA sur les charges non récupérable et, en B2C, l\'assujettissement réduit la marge à prix TTC inchangés.
+- Effet sur le revenu net micro par rapport à l\'autre traitement : {{{vat.netIncomeEffect}}}.
+{{#each vat.warnings}}- {{{this}}}
+{{/each}}
+{{/if}}Régime Micro-Entreprise :
 - L\'impôt sur le revenu est calculé sur le chiffre d\'affaires après un abattement forfaitaire pour frais professionnels. Cet abattement est de :
     - Ventes de marchandises (VENTE_BIC) : 71%
     - Prestations de services commerciales et artisanales (SERVICE_BIC) : 50%
-    - Autres prestations de services (LIBERAL_BNC_AUTRE) et Professions libérales réglementées CIPAV (LIBERAL_BNC_CIPAV) : 34% (minimum 305€)
-- Les cotisations sociales et la CFP sont calculées sur le chiffre d\'affaires brut (avant abattement) aux taux suivants :
-    - VENTES_BIC : Cotisations sociales 12,3% + CFP 0,1% = 12,4%
-    - SERVICE_BIC : Cotisations sociales 21,2% + CFP 0,1% = 21,3%
-    - LIBERAL_BNC_AUTRE : Cotisations sociales 23,1% (évoluera à 24,6% en 2025, 26,1% en 2026) + CFP 0,2% = 23,3%
-    - LIBERAL_BNC_CIPAV : Cotisations sociales 23,2% + CFP 0,2% = 23,4%
+    - Autres prestations de services (LIBERAL_BNC_AUTRE) et Professions libérales réglementées (LIBERAL_BNC_CIPAV, LIBERAL_BNC_REGLEMENTEE) : 34% (minimum 305€)
+    - Locations meublées (LOCATION_MEUBLEE, MEUBLE_TOURISME_CLASSE, MEUBLE_TOURISME_NON_CLASSE) et chambres d\'hôtes (CHAMBRES_HOTES) : abattement et plafond propres à chaque activité et à l\'année (voir les taux par ligne ci-dessus). Depuis les revenus 2025, les meublés de tourisme classés sont limités à 50% et 77 700 €, les non classés à 30% et 15 000 €.
+- Les cotisations sociales et la CFP sont calculées sur le chiffre d\'affaires brut (avant abattement). Pour les revenus {{{fiscalYear}}}, les taux globaux appliqués par le simulateur sont : abattement {{{microAllowanceRatePercent}}}%, cotisations sociales {{{microSocialRatePercent}}}% et CFP {{{microCfpRatePercent}}}%.
+- En cas d\'activité mixte, chaque ligne de chiffre d\'affaires reçoit l\'abattement et le taux de cotisations de son activité (taux globaux ci-dessus pondérés par le chiffre d\'affaires). Le chiffre d\'affaires total doit rester sous le plafond des ventes et la part services sous le plafond des prestations de services. Au réel, l\'activité principale (le chiffre d\'affaires le plus élevé) détermine le régime social.
+- Pour mémoire, le taux de cotisations sociales des autres prestations de services BNC (LIBERAL_BNC_AUTRE) augmente chaque année : 21,1% en 2023, 23,1% en 2024, 24,6% en 2025 et 26,1% en 2026.
 - L\'avantage du Micro est sa simplicité.
 - Important pour la comparaison du revenu net final : Bien que l'abattement forfaitaire couvre les frais professionnels pour le calcul de l'impôt, pour estimer le revenu net réellement perçu et le comparer au Régime Réel, il faut soustraire les charges annuelles réelles ({{{annualExpenses}}}) du chiffre d'affaires, en plus des impôts et cotisations.
 
-Régime Réel Simplifié :
-- Le bénéfice avant cotisations sociales est calculé comme (Chiffre d\'affaires - Charges annuelles réelles). Les charges annuelles réelles ({{{annualExpenses}}}) sont donc déductibles.
-- Les cotisations sociales sont estimées de la manière suivante : elles représentent 45% du bénéfice *après* déduction de ces mêmes cotisations. Le calcul précis est : (Bénéfice avant cotisations sociales / 1.45) * 0.45.
-- Ces cotisations sociales estimées sont ensuite déduites du bénéfice avant cotisations sociales pour obtenir le bénéfice imposable à l\'impôt sur le revenu.
-- L\'impôt sur le revenu est calculé sur ce bénéfice imposable final (Bénéfice avant cotisations sociales - Cotisations sociales estimées).
-- Le Régime Réel est souvent plus intéressant si vos charges réelles (y compris les cotisations sociales calculées comme ci-dessus) sont significativement plus élevées que l\'abattement forfaitaire du régime Micro.
+{{#if furnishedRental}}Location meublée au régime réel (remplace le Régime Réel Simplifié pour cette activité) :
+{{#if furnishedRental.nonProfessionalRental}}- Loueur en meublé non professionnel (LMNP) : pas de cotisations URSSAF ni de versement libératoire, mais des prélèvements sociaux sur le revenu imposable, en micro-BIC comme au réel ; les recettes sont exonérées de TVA.
+{{else}}- Chambres d\'hôtes : activité commerciale soumise aux cotisations SSI du travailleur indépendant au réel.
+{{/if}}- Résultat avant amortissements (loyers - charges - intérêts d\'emprunt) : {{{furnishedRental.resultBeforeAmortization}}}.
+- Amortissements déduits (bien hors terrain et mobilier) : {{{furnishedRental.amortizationDeducted}}}. Ils ne peuvent pas créer de déficit ; les amortissements non déduits ({{{furnishedRental.amortizationCarriedForward}}}) sont reportés sans limite de durée.
+- Résultat imposable : {{{furnishedRental.rentalResult}}} ; prélèvements sociaux ou cotisations : {{{furnishedRental.totalSocialContributions}}} ; impôt sur le revenu : {{{furnishedRental.taxAmount}}}.
+- Revenu net final calculé par le simulateur (trésorerie, hors amortissements) : {{{furnishedRental.netIncomeAfterAll}}}. Comparez-le au micro-BIC et rappelez que les amortissements déduits sont réintégrés dans la plus-value en cas de revente.
+
+{{/if}}Régime Micro-Entreprise avec versement libératoire de l\'impôt sur le revenu :
+- L\'impôt sur le revenu de l\'activité est remplacé par un versement de {{{versementLiberatoire.ratePercent}}}% du chiffre d\'affaires, payé avec les cotisations URSSAF (mêmes taux de cotisations que le Micro classique). Montant calculé : {{{versementLiberatoire.amount}}}.
+- L\'option n\'est possible que si le revenu fiscal de référence N-2 du foyer ({{{versementLiberatoire.referenceIncomeN2}}}) ne dépasse pas {{{versementLiberatoire.referenceIncomeLimit}}}. Éligibilité : {{#if versementLiberatoire.eligible}}oui{{else}}non, l\'option ne peut pas être recommandée{{/if}}.
+- Le chiffre d\'affaires après abattement reste pris en compte pour déterminer le taux d\'imposition des autres revenus du foyer (taux effectif), ce qui augmente l\'impôt sur ces autres revenus de {{{versementLiberatoire.effectiveRateTaxIncrease}}}.
+- Revenu net final calculé par le simulateur (après versement libératoire, effet du taux effectif, cotisations et charges réelles) : {{{versementLiberatoire.netIncomeAfterAll}}}.
+- Le versement libératoire est en général intéressant lorsque le taux marginal d\'imposition du foyer est de 11% ou plus ; il est défavorable pour les foyers non imposables puisqu\'il est dû dès le premier euro de chiffre d\'affaires.
+
+{{#if reelContributions}}Régime Réel Simplifié :
+- Le bénéfice avant cotisations sociales est calculé comme (Chiffre d\'affaires - Charges annuelles réelles - CFE). Les charges annuelles réelles ({{{annualExpenses}}}) sont donc déductibles.
+- Les cotisations sociales du travailleur indépendant (SSI) sont calculées ligne par ligne par le simulateur sur le revenu professionnel, c\'est-à-dire le bénéfice après déduction de ces mêmes cotisations ({{{reelContributions.professionalIncome}}}). Les taux et plafonds dépendent du PASS de l\'année :
+{{#each reelContributions.lines}}  - {{{this.label}}} : {{{this.amount}}}
+{{/each}}{{#if reelContributions.pensionFund}}- La retraite de base (CNAVPL), la retraite complémentaire et l\'invalidité-décès sont versées à la caisse {{{reelContributions.pensionFund}}}, selon ses propres barèmes ou classes de cotisation : ces lignes pèsent souvent le plus dans le total au réel, alors qu\'en micro elles sont comprises dans le taux global.
+{{/if}}- Total des cotisations sociales au réel : {{{reelContributions.total}}}. La CSG/CRDS est calculée sur le revenu professionnel augmenté des cotisations obligatoires ; la CSG non déductible et la CRDS sont réintégrées au revenu imposable.
+{{#if reelContributions.minimumContributionsApplied}}- Le bénéfice est faible ou négatif : des cotisations minimales (retraite de base, invalidité-décès, indemnités journalières) sont dues sur des assiettes minimales, même sans revenu. Elles sont incluses dans le total ci-dessus et alourdissent le coût du réel précisément dans la situation où le passage au réel semble tentant ; en contrepartie, elles valident {{{reelContributions.retirementQuartersValidated}}} trimestre(s) de retraite. Mentionnez-le explicitement.
+{{else}}- Trimestres de retraite de base validés au réel : {{{reelContributions.retirementQuartersValidated}}} sur 4.
+{{/if}}- L\'impôt sur le revenu est calculé sur le revenu professionnel augmenté de la CSG non déductible et de la CRDS.
+{{#if reelContributions.deficitTaxSaving}}- Déficits : déficit de l\'année {{{reelContributions.deficitOfYear}}}, dont {{{reelContributions.deficitImputedOnGlobalIncome}}} imputé sur les autres revenus du foyer ; déficits antérieurs imputés {{{reelContributions.priorDeficitsImputed}}} ; reste reportable sur six ans {{{reelContributions.deficitsCarriedForward}}}. L\'économie d\'impôt correspondante ({{{reelContributions.deficitTaxSaving}}}) est incluse dans le revenu net : c\'est un argument important pour le réel les années de lancement, inexistant en micro.
+{{else}}{{#if reelContributions.deficitsCarriedForward}}- Le déficit non imputé ({{{reelContributions.deficitsCarriedForward}}}) reste reportable sur le revenu global des six années suivantes, ce que le micro ne permet pas.
+{{/if}}{{/if}}- Revenu net final calculé par le simulateur (bénéfice - cotisations sociales - impôt) : {{{reelContributions.netIncomeAfterAll}}}.
+- Le Régime Réel est souvent plus intéressant si vos charges réelles (y compris les cotisations sociales détaillées ci-dessus) sont significativement plus élevées que l\'abattement forfaitaire du régime Micro.
+
+{{/if}}{{#if breakEven}}
+Point mort entre le micro et le réel (calculé par le simulateur, ne le recalculez pas) : {{{breakEven.summary}}} Avec les charges saisies, le réel rapporte {{{breakEven.currentDifference}}} de plus (négatif : de moins) que le micro.
+
+{{/if}}
+SASU à l\'impôt sur les sociétés (président assimilé salarié) :
+- Rémunération brute du président : {{{sasu.grossSalary}}}, soit un salaire net de {{{sasu.netSalary}}} après cotisations. Les cotisations salariales et patronales ({{{sasu.payrollContributions}}}) sont plus lourdes que celles d\'un indépendant mais ouvrent une protection sociale de salarié (hors assurance chômage) et valident {{{sasu.retirementQuartersValidated}}} trimestre(s) de retraite.
+- La société paie l\'impôt sur les sociétés sur le bénéfice après rémunération : {{{sasu.corporateTax}}} (15% jusqu\'à 42 500 €, 25% au-delà).
+- Dividendes distribués : {{{sasu.dividends}}}, imposés selon : {{{sasu.dividendTaxationLabel}}} ({{{sasu.dividendFlatTax}}} d\'impôt et de prélèvements sociaux) mais soumis à aucune cotisation sociale ; ils ne valident aucun trimestre. Bénéfice conservé dans la société : {{{sasu.retainedEarnings}}}.
+- Impôt sur le revenu imputable au salaire : {{{sasu.incomeTax}}}.
+- Revenu net final du président calculé par le simulateur : {{{sasu.netIncomeAfterAll}}}. La SASU entraîne aussi des frais de constitution et de tenue comptable non compris dans ce calcul.
+
+{{{eurl.legalFormLabel}}} (gérant majoritaire travailleur non salarié) :
+- Rémunération du gérant : {{{eurl.managerRemuneration}}}, soumise aux cotisations SSI ({{{eurl.remunerationContributions}}}) payées par la société. Trimestres de retraite validés : {{{eurl.retirementQuartersValidated}}}.
+- Impôt sur les sociétés sur le bénéfice restant : {{{eurl.corporateTax}}}.
+- Dividendes distribués : {{{eurl.dividends}}}. La part au-delà de 10% du capital et des comptes courants ({{{eurl.dividendSocialThreshold}}}), soit {{{eurl.dividendsSubjectToContributions}}}, supporte des cotisations SSI ({{{eurl.dividendContributions}}}) au lieu des prélèvements sociaux : distribuer beaucoup de dividendes est donc moins intéressant qu\'en SASU, sauf à augmenter le capital ou les comptes courants.
+- Bénéfice conservé dans la société : {{{eurl.retainedEarnings}}}. Imposition des dividendes : {{{eurl.dividendTaxationLabel}}}. Impôt sur le revenu (rémunération et dividendes) : {{{eurl.incomeTax}}}.
+- Revenu net final du gérant calculé par le simulateur : {{{eurl.netIncomeAfterAll}}}.
+
+Répartition optimale entre rémunération et dividendes (tout le bénéfice restant distribué{{#if remunerationOptimization.minRetirementQuarters}}, en validant au moins {{{remunerationOptimization.minRetirementQuarters}}} trimestre(s) de retraite{{/if}}) :
+{{#if remunerationOptimization.sasu}}
+- SASU : salaire brut de {{{remunerationOptimization.sasu.remuneration}}}, dividendes imposés selon : {{{remunerationOptimization.sasu.dividendTaxationLabel}}}, revenu net de {{{remunerationOptimization.sasu.netIncome}}} et {{{remunerationOptimization.sasu.retirementQuartersValidated}}} trimestre(s) validé(s).
+{{else}}
+- SASU : aucune répartition ne respecte la contrainte de trimestres.
+{{/if}}
+{{#if remunerationOptimization.eurl}}
+- EURL / EI à l\'IS : rémunération du gérant de {{{remunerationOptimization.eurl.remuneration}}}, dividendes imposés selon : {{{remunerationOptimization.eurl.dividendTaxationLabel}}}, revenu net de {{{remunerationOptimization.eurl.netIncome}}} et {{{remunerationOptimization.eurl.retirementQuartersValidated}}} trimestre(s) validé(s).
+{{else}}
+- EURL / EI à l\'IS : aucune répartition ne respecte la contrainte de trimestres.
+{{/if}}
+Si la répartition optimale diffère sensiblement de celle saisie, indiquez le gain possible en revenu net.
+
+{{#if projection}}
+Projection sur {{{projection.years}}} ans à partir de {{{projection.startYear}}} (chiffre d\'affaires {{{projection.revenueGrowthPercent}}}% par an, charges {{{projection.expenseGrowthPercent}}}% par an, en tenant compte de la fin de l\'ACRE, de l\'évolution des taux et de la régularisation des cotisations du réel) :
+- Revenu net cumulé : Micro {{{projection.cumulativeNetIncome.MICRO}}}, Micro avec versement libératoire {{{projection.cumulativeNetIncome.MICRO_LIBERATOIRE}}}, Réel {{{projection.cumulativeNetIncome.REEL}}}, SASU {{{projection.cumulativeNetIncome.SASU}}}, EURL / EI à l\'IS {{{projection.cumulativeNetIncome.EURL}}} (une valeur vide signifie que le régime n\'est pas ouvert toute la période).
+- Régime le plus avantageux sur la période : {{{projection.bestRegimeLabel}}}.
+{{#if projection.microExitYear}}
+- Les plafonds du micro sont dépassés : l\'activité passe au réel en {{{projection.microExitYear}}}.
+{{/if}}
+- Régularisation des cotisations du réel restant due après la période : {{{projection.pendingRegularization}}}.
+Si le régime le plus avantageux sur la période diffère de celui de la première année, mentionnez-le.
+
+{{/if}}
+Droits à la retraite acquis cette année (calculés par le simulateur) :
+{{#each retirement}}- {{{this.regimeLabel}}} : revenu net {{{this.netIncome}}}, {{{this.quartersValidated}}} trimestre(s) validé(s) sur 4, revenu porté au compte de la retraite de base {{{this.baseIncomeCredited}}}{{#if this.complementaryPoints}}, {{{this.complementaryPoints}}} points de retraite complémentaire {{{this.complementaryLabel}}}{{/if}}, pension annuelle acquise d\'environ {{{this.pensionAcquired}}}.
+{{/each}}
+Mettez en balance le revenu net immédiat et les droits à la retraite : lorsque le régime au revenu net le plus élevé valide moins de 4 trimestres ou acquiert nettement moins de pension, chiffrez ce que l\'entrepreneur gagne aujourd\'hui et ce qu\'il perd en trimestres et en pension, et signalez qu\'un trimestre manquant retarde le taux plein. Les dividendes ne valident aucun droit.
 
-Votre recommandation doit clairement indiquer quel régime semble le plus avantageux globalement (en termes de revenu net final après impôt sur le revenu ET toutes cotisations sociales, en tenant compte des charges réelles pour le Micro également pour une comparaison réaliste du revenu effectivement perçu) et pourquoi. Basez-vous sur une comparaison chiffrée du revenu net final pour chaque régime. La réponse doit être uniquement en français.
+Votre recommandation doit clairement indiquer quel régime (Micro classique, Micro avec versement libératoire si le foyer y est éligible, Réel, SASU, ou EURL / EI à l\'IS) semble le plus avantageux globalement (en termes de revenu net final après impôt sur le revenu ET toutes cotisations sociales, en tenant compte des charges réelles pour le Micro également pour une comparaison réaliste du revenu effectivement perçu) et pourquoi. Basez-vous sur une comparaison chiffrée du revenu net final pour chaque régime. La réponse doit être uniquement en français.
 `,
 });
 
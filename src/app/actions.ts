@@ -6,47 +6,319 @@ import { z } from 'zod';
 import { taxSystemRecommendation, type TaxRecommendationInput } from '@/ai/flows/tax-system-recommendation';
 import { 
   calculateMicroRegimeTax, 
+  calculateMicroLiberatoireRegimeTax,
   calculateReelRegimeTax,
+  calculateFiscalParts,
+  calculateIncomeTaxDetails,
+  calculateOtherTaxableIncome,
+  getMainActivityType,
+  getMarginalTaxRate,
+  getTotalRevenue,
   type MicroRegimeResult,
+  type MicroLiberatoireRegimeResult,
   type ReelRegimeResult,
   type ActivityType
 } from '@/lib/tax-calculator';
+import { DEFAULT_FISCAL_YEAR, isFiscalYear } from '@/lib/fiscal-parameters';
+import { calculateCfe, DEFAULT_CFE_SETTINGS, type CfeExemption } from '@/lib/cfe';
+import { calculateVat, type VatResult, type VatStatus } from '@/lib/vat';
+import { applyMonthlyAmounts, MONTHS_IN_YEAR } from '@/lib/monthly-amounts';
+import { checkMicroEligibility, type MicroEligibilityResult } from '@/lib/micro-eligibility';
+import type { DividendTaxOption } from '@/lib/company-tax';
+import { calculateEurlRegimeTax, DEFAULT_EURL_REMUNERATION, type EurlRegimeResult } from '@/lib/eurl';
+import {
+  NO_REMUNERATION_CONSTRAINT,
+  optimizeEurlRemuneration,
+  optimizeSasuRemuneration,
+  type RemunerationOptimizationResult,
+} from '@/lib/remuneration-optimizer';
+import { calculateSasuRegimeTax, DEFAULT_SASU_REMUNERATION, type SasuRegimeResult } from '@/lib/sasu';
+import {
+  calculateProjection,
+  MAX_PROJECTION_YEARS,
+  MIN_PROJECTION_YEARS,
+  type ProjectionRegime,
+  type ProjectionResult,
+} from '@/lib/projection';
+import { imputeProfessionalDeficits } from '@/lib/deficits';
+import { calculateMicroReelBreakEven, type BreakEvenResult } from '@/lib/break-even';
+import {
+  calculateMicroRetirementRights,
+  calculateSalariedRetirementRights,
+  calculateTnsRetirementRights,
+  type RetirementComparison,
+  type RetirementRights,
+} from '@/lib/retirement';
+import {
+  calculateMicroSocialProtection,
+  calculateSalariedSocialProtection,
+  calculateTnsSocialProtection,
+  type SocialProtectionComparison,
+} from '@/lib/social-protection';
+import {
+  calculateWithholdingSchedule,
+  DEFAULT_WITHHOLDING_SETTINGS,
+  type WithholdingIncome,
+  type WithholdingResult,
+} from '@/lib/withholding';
+import {
+  calculateUrssafCashFlow,
+  DEFAULT_URSSAF_SCHEDULE_SETTINGS,
+  type UrssafCashFlowResult,
+  type UrssafReelIncome,
+} from '@/lib/urssaf-schedule';
+import { calculateFurnishedRentalReelTax, isFurnishedRental, NO_FURNISHED_RENTAL_ASSETS, type FurnishedRentalReelResult } from '@/lib/furnished-rental';
+import { getPensionFund } from '@/lib/liberal-pension-funds';
 import { submitFeedback as submitFeedbackFlow, type FeedbackInput, type FeedbackOutput } from '@/ai/flows/submit-feedback-flow';
 
 
-const ActivityTypeEnum = z.enum(["VENTE_BIC", "SERVICE_BIC", "LIBERAL_BNC_AUTRE", "LIBERAL_BNC_CIPAV"], {
+const ActivityTypeEnum = z.enum(["VENTE_BIC", "SERVICE_BIC", "LIBERAL_BNC_AUTRE", "LIBERAL_BNC_CIPAV", "LIBERAL_BNC_REGLEMENTEE", "LOCATION_MEUBLEE", "MEUBLE_TOURISME_CLASSE", "MEUBLE_TOURISME_NON_CLASSE", "CHAMBRES_HOTES"], {
   errorMap: () => ({ message: "Veuillez sélectionner un type d'activité valide." })
 });
 
-const SimulationInputSchema = z.object({
-  annualRevenue: z.number().min(0, "Le chiffre d'affaires annuel doit être positif ou nul."),
-  annualExpenses: z.number().min(0, "Les charges annuelles doivent être positives ou nulles."),
+const PensionFundEnum = z.enum(["CIPAV", "CARMF", "CARPIMKO", "CAVEC"], {
+  errorMap: () => ({ message: "Veuillez sélectionner une caisse de retraite valide." })
+});
+
+const PensionClassesSchema = z.object({
+  retraiteComplementaire: z.string().optional(),
+  invaliditeDeces: z.string().optional(),
+});
+
+const RevenueLineSchema = z.object({
   activityType: ActivityTypeEnum,
+  annualRevenue: z.number().min(0, "Le chiffre d'affaires annuel doit être positif ou nul."),
+});
+
+const FurnishedRentalSchema = z.object({
+  propertyValue: z.number().min(0, "La valeur du bien doit être positive ou nulle."),
+  landShare: z.number().min(0, "La part du terrain doit être comprise entre 0 et 100%.").max(1, "La part du terrain doit être comprise entre 0 et 100%."),
+  furnitureValue: z.number().min(0, "La valeur du mobilier doit être positive ou nulle."),
+  loanInterest: z.number().min(0, "Les intérêts d'emprunt doivent être positifs ou nuls."),
+  amortizationCarriedForward: z.number().min(0, "Les amortissements reportés doivent être positifs ou nuls."),
+});
+
+const DividendTaxOptionEnum = z.enum(["PFU", "BAREME"], {
+  errorMap: () => ({ message: "Veuillez sélectionner une imposition des dividendes valide." })
+});
+
+const SasuSchema = z.object({
+  grossSalary: z.number().min(0, "La rémunération du président doit être positive ou nulle."),
+  dividendShare: z.number().min(0, "La part distribuée doit être comprise entre 0 et 100%.").max(1, "La part distribuée doit être comprise entre 0 et 100%."),
+  dividendTaxation: DividendTaxOptionEnum.optional(),
+});
+
+const EurlSchema = z.object({
+  legalForm: z.enum(["EURL", "EI_IS"], {
+    errorMap: () => ({ message: "Veuillez sélectionner une forme juridique valide." })
+  }),
+  managerRemuneration: z.number().min(0, "La rémunération du gérant doit être positive ou nulle."),
+  dividendShare: z.number().min(0, "La part distribuée doit être comprise entre 0 et 100%.").max(1, "La part distribuée doit être comprise entre 0 et 100%."),
+  shareCapital: z.number().min(0, "Le capital social doit être positif ou nul."),
+  currentAccounts: z.number().min(0, "Les comptes courants d'associé doivent être positifs ou nuls."),
+  dividendTaxation: DividendTaxOptionEnum.optional(),
 });
 
+const CarriedForwardDeficitSchema = z.object({
+  year: z.number().int("L'année d'origine du déficit doit être une année."),
+  amount: z.number().min(0, "Le déficit reporté doit être positif ou nul."),
+});
+
+const ProjectionSchema = z.object({
+  years: z.number().int().min(MIN_PROJECTION_YEARS, `La projection doit couvrir de ${MIN_PROJECTION_YEARS} à ${MAX_PROJECTION_YEARS} ans.`).max(MAX_PROJECTION_YEARS, `La projection doit couvrir de ${MIN_PROJECTION_YEARS} à ${MAX_PROJECTION_YEARS} ans.`),
+  revenueGrowth: z.number().min(-0.5, "La croissance du chiffre d'affaires doit être comprise entre -50% et 100% par an.").max(1, "La croissance du chiffre d'affaires doit être comprise entre -50% et 100% par an."),
+  expenseGrowth: z.number().min(-0.5, "La croissance des charges doit être comprise entre -50% et 100% par an.").max(1, "La croissance des charges doit être comprise entre -50% et 100% par an."),
+});
+
+const CfeSchema = z.object({
+  communeId: z.string().min(1, "Veuillez sélectionner une commune pour la CFE."),
+  manualRate: z.number().min(0, "Le taux de CFE doit être compris entre 0% et 100%.").max(1, "Le taux de CFE doit être compris entre 0% et 100%.").optional(),
+  minimumBase: z.number().min(0, "La base minimum de CFE doit être positive ou nulle.").optional(),
+  rentalValue: z.number().min(0, "La valeur locative doit être positive ou nulle.").optional(),
+});
+
+const VatAmountBasisEnum = z.enum(["HT", "TTC"]);
+
+const VatSchema = z.object({
+  revenueBasis: VatAmountBasisEnum,
+  expenseBasis: VatAmountBasisEnum,
+  expensesSubjectToVatShare: z.number().min(0, "La part des charges soumises à la TVA doit être comprise entre 0 et 100%.").max(1, "La part des charges soumises à la TVA doit être comprise entre 0 et 100%."),
+  clientele: z.enum(["B2B", "B2C"]),
+  optionForVat: z.boolean(),
+  exemptActivity: z.boolean(),
+});
+
+const WithholdingSchema = z.object({
+  rateOption: z.enum(["PERSONNALISE", "INDIVIDUALISE", "NEUTRE"]),
+  frequency: z.enum(["MONTHLY", "QUARTERLY"]),
+});
+
+const UrssafScheduleSchema = z.object({
+  frequency: z.enum(["MONTHLY", "QUARTERLY"]),
+});
+
+const MonthlyAmountsSchema = z.object({
+  revenue: z.array(z.number().min(0, "Le chiffre d'affaires mensuel doit être positif ou nul.")).length(MONTHS_IN_YEAR, "Veuillez saisir le chiffre d'affaires des douze mois."),
+  expenses: z.array(z.number().min(0, "Les charges mensuelles doivent être positives ou nulles.")).length(MONTHS_IN_YEAR, "Veuillez saisir les charges des douze mois."),
+});
+
+const RemunerationConstraintSchema = z.object({
+  minRetirementQuarters: z.number().int().min(0, "Le nombre de trimestres doit être compris entre 0 et 4.").max(4, "Le nombre de trimestres doit être compris entre 0 et 4."),
+});
+
+const HouseholdSchema = z.object({
+  familySituation: z.enum(["CELIBATAIRE", "MARIE_PACSE", "DIVORCE_SEPARE", "VEUF"], {
+    errorMap: () => ({ message: "Veuillez sélectionner une situation familiale valide." })
+  }),
+  dependentChildren: z.number().int().min(0, "Le nombre d'enfants à charge doit être positif ou nul."),
+  sharedCustodyChildren: z.number().int().min(0, "Le nombre d'enfants en résidence alternée doit être positif ou nul."),
+  singleParent: z.boolean(),
+  taxpayerDisabled: z.boolean(),
+  spouseDisabled: z.boolean(),
+});
+
+const OtherIncomeSchema = z.object({
+  taxpayerSalaries: z.number().min(0, "Les salaires doivent être positifs ou nuls."),
+  spouseSalaries: z.number().min(0, "Les salaires du conjoint doivent être positifs ou nuls."),
+  pensions: z.number().min(0, "Les pensions doivent être positives ou nulles."),
+  rentalIncome: z.number().min(0, "Les revenus fonciers doivent être positifs ou nuls."),
+  otherBusinessIncome: z.number().min(0, "Le bénéfice d'une autre activité doit être positif ou nul."),
+});
+
+const SimulationInputSchema = z.object({
+  revenueLines: z.array(RevenueLineSchema).min(1, "Veuillez saisir au moins une ligne de chiffre d'affaires."),
+  annualExpenses: z.number().min(0, "Les charges annuelles doivent être positives ou nulles."),
+  household: HouseholdSchema,
+  fiscalYear: z.number().refine(isFiscalYear, "Veuillez sélectionner une année fiscale disponible."),
+  taxReductions: z.number().min(0, "Les réductions d'impôt doivent être positives ou nulles."),
+  otherIncome: OtherIncomeSchema,
+  referenceIncomeN2: z.number().min(0, "Le revenu fiscal de référence doit être positif ou nul."),
+  previousYearRevenue: z.number().min(0, "Le chiffre d'affaires de l'année précédente doit être positif ou nul.").optional(),
+  creationDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "La date de création doit être au format AAAA-MM-JJ.").optional(),
+  acre: z.boolean(),
+  pensionFund: PensionFundEnum.optional(),
+  pensionClasses: PensionClassesSchema.optional(),
+  furnishedRental: FurnishedRentalSchema.optional(),
+  sasu: SasuSchema.optional(),
+  eurl: EurlSchema.optional(),
+  remunerationConstraint: RemunerationConstraintSchema.optional(),
+  projection: ProjectionSchema.optional(),
+  deficitsCarriedForward: z.array(CarriedForwardDeficitSchema).optional(),
+  cfe: CfeSchema.optional(),
+  vat: VatSchema.optional(),
+  withholding: WithholdingSchema.optional(),
+  urssafSchedule: UrssafScheduleSchema.optional(),
+  monthlyAmounts: MonthlyAmountsSchema.optional(),
+}).refine(
+  (data) => !data.creationDate || Number(data.creationDate.slice(0, 4)) <= data.fiscalYear,
+  { message: "La date de création doit être antérieure ou comprise dans l'année simulée.", path: ["creationDate"] }
+);
+
+const DIVIDEND_TAXATION_LABELS: Record<DividendTaxOption, string> = {
+  PFU: "prélèvement forfaitaire unique (30%)",
+  BAREME: "option pour le barème progressif (abattement de 40%)",
+};
+
+const CFE_EXEMPTION_LABELS: Record<CfeExemption, string> = {
+  CREATION_YEAR: "année de création, pas de CFE",
+  LOW_REVENUE: "chiffre d'affaires inférieur au seuil, pas de cotisation minimum",
+};
+
+const VAT_STATUS_LABELS: Record<VatStatus, string> = {
+  FRANCHISE: "franchise en base de TVA toute l'année",
+  LOST_DURING_YEAR: "franchise en base perdue en cours d'année (seuil majoré franchi)",
+  LIABLE: "assujetti à la TVA toute l'année (seuil dépassé deux années consécutives)",
+  OPTION: "assujetti à la TVA sur option",
+  EXEMPT: "activité exonérée de TVA",
+};
+
+const PROJECTION_REGIME_LABELS: Record<ProjectionRegime, string> = {
+  MICRO: "Micro",
+  MICRO_LIBERATOIRE: "Micro avec versement libératoire",
+  REEL: "Réel",
+  SASU: "SASU",
+  EURL: "EURL / EI à l'IS",
+};
+
+function toOptimalRemuneration(optimization: RemunerationOptimizationResult): TaxRecommendationInput["remunerationOptimization"]["sasu"] {
+  const { optimum } = optimization;
+  return optimum && {
+    remuneration: optimum.remuneration,
+    dividendTaxationLabel: DIVIDEND_TAXATION_LABELS[optimum.dividendTaxation],
+    netIncome: optimum.netIncome,
+    retirementQuartersValidated: optimum.retirementQuartersValidated,
+  };
+}
+
+function toRetirementSummary(regime: ProjectionRegime, netIncome: number, rights: RetirementRights): TaxRecommendationInput["retirement"][number] {
+  return {
+    regimeLabel: PROJECTION_REGIME_LABELS[regime],
+    netIncome,
+    quartersValidated: rights.quartersValidated,
+    baseIncomeCredited: rights.baseIncomeCredited,
+    complementaryLabel: rights.complementaryLabel,
+    complementaryPoints: rights.complementaryPoints,
+    pensionAcquired: parseFloat((rights.basePensionAcquired + (rights.complementaryPensionAcquired ?? 0)).toFixed(2)),
+  };
+}
+
 export interface SimulationResult {
   micro: MicroRegimeResult | null; 
+  microLiberatoire: MicroLiberatoireRegimeResult | null;
   reel: ReelRegimeResult | null;   
+  furnishedRental: FurnishedRentalReelResult | null; // Régime réel with amortizations, when the main activity is a location meublée
+  sasu: SasuRegimeResult | null;
+  eurl: EurlRegimeResult | null;   // EURL or EI à l'IS with a gérant TNS
+  sasuOptimization: RemunerationOptimizationResult | null;
+  eurlOptimization: RemunerationOptimizationResult | null;
+  breakEven: BreakEvenResult | null; // Micro vs réel, null when the main activity is a location meublée
+  projection: ProjectionResult | null; // Multi-year projection, when requested
+  vat: VatResult | null;               // TVA treatment, when the amounts are entered with their TVA settings
+  retirement: RetirementComparison | null; // Retirement rights acquired in each regime
+  socialProtection: SocialProtectionComparison | null; // Indemnités journalières and maternity benefits of each regime
+  withholding: WithholdingResult | null; // Prélèvement à la source of the regimes taxed at the barème
+  urssafCashFlow: UrssafCashFlowResult | null; // Calendar of the payments to the URSSAF of the micro and of the réel
+  microEligibility: MicroEligibilityResult | null;
   aiRecommendation: string | null;
   error?: string;
   activityType?: ActivityType;
 }
 
+const defaultIncomeTaxDetails = calculateIncomeTaxDetails(0);
+
 const defaultReelResult: ReelRegimeResult = { 
+  fiscalYear: DEFAULT_FISCAL_YEAR,
+  fiscalParts: 1,
+  profitBeforeContributions: 0,
+  professionalIncome: 0,
   taxableIncome: 0, 
   taxAmount: 0, 
-  estimatedSocialContributionsRate: 0.45, // Default rate factor
-  estimatedSocialContributions: 0,
+  incomeTaxDetails: defaultIncomeTaxDetails,
+  otherTaxableIncome: 0,
+  householdTaxWithoutActivity: 0,
+  socialContributions: [],
+  pensionClasses: {},
+  minimumContributionsApplied: false,
+  retirementQuartersValidated: 0,
+  totalSocialContributions: 0,
+  acreExemption: 0,
+  deficits: imputeProfessionalDeficits(0, 0),
+  deficitTaxSaving: 0,
+  cfe: calculateCfe(0, DEFAULT_CFE_SETTINGS),
   netIncomeAfterAllContributions: 0
 };
 
 const defaultMicroResult: MicroRegimeResult = {
-    taxableIncome: 0, taxAmount: 0, allowanceApplied: 0, 
+    fiscalYear: DEFAULT_FISCAL_YEAR, fiscalParts: 1, revenue: 0, lines: [], taxableIncome: 0, taxAmount: 0, allowanceApplied: 0, 
+    incomeTaxDetails: defaultIncomeTaxDetails, otherTaxableIncome: 0, householdTaxWithoutActivity: 0,
     allowanceRate: 0.34, urssafSocialContributionsRate: 0.231, cfpRate: 0.002,
-    urssafSocialContributions: 0, cfpContribution: 0, totalUrssafContributions: 0,
+    urssafSocialContributions: 0, cfpContribution: 0, totalUrssafContributions: 0, rentalSocialLevies: 0,
+    acreShareOfRevenue: 0, acreReduction: 0, cfe: calculateCfe(0, DEFAULT_CFE_SETTINGS),
     netIncomeAfterAll: 0
 };
 
+const defaultMicroLiberatoireResult: MicroLiberatoireRegimeResult = calculateMicroLiberatoireRegimeTax([], 0);
+
 
 export async function getTaxSimulation(
   data: z.infer<typeof SimulationInputSchema>
@@ -55,22 +327,309 @@ export async function getTaxSimulation(
   if (!validation.success) {
     return {
       micro: defaultMicroResult, 
+      microLiberatoire: defaultMicroLiberatoireResult,
       reel: defaultReelResult, 
+      furnishedRental: null,
+      sasu: null,
+      eurl: null,
+      sasuOptimization: null,
+      eurlOptimization: null,
+      breakEven: null,
+      projection: null,
+      vat: null,
+      retirement: null,
+      socialProtection: null,
+      withholding: null,
+      urssafCashFlow: null,
+      microEligibility: null,
       aiRecommendation: null,
       error: validation.error.errors.map(e => e.message).join(', '),
-      activityType: data.activityType || "LIBERAL_BNC_AUTRE", 
+      activityType: data.revenueLines?.length ? getMainActivityType(data.revenueLines) : "LIBERAL_BNC_AUTRE",
     };
   }
 
-  const { annualRevenue, annualExpenses, activityType } = validation.data;
+  const {
+    household, fiscalYear, taxReductions, otherIncome, referenceIncomeN2, previousYearRevenue, creationDate, acre, pensionFund, pensionClasses, furnishedRental, sasu, eurl, remunerationConstraint, projection, deficitsCarriedForward, cfe, vat, withholding, urssafSchedule, monthlyAmounts,
+  } = validation.data;
+
+  const monthlyRevenue = monthlyAmounts?.revenue;
 
   try {
-    const microResult = calculateMicroRegimeTax(annualRevenue, annualExpenses, activityType);
-    const reelResult = calculateReelRegimeTax(annualRevenue, annualExpenses);
+    // The months entered replace the annual amounts
+    const entered = monthlyAmounts
+      ? applyMonthlyAmounts(validation.data.revenueLines, monthlyAmounts)
+      : { revenueLines: validation.data.revenueLines, annualExpenses: validation.data.annualExpenses };
+
+    // The regimes are computed on the chiffre d'affaires HT and on the expenses net of the TVA deducted
+    const vatResult = vat
+      ? calculateVat(entered.revenueLines, entered.annualExpenses, vat, { household, fiscalYear, taxReductions, otherIncome, creationDate, acre, cfe, previousYearRevenue, monthlyRevenue })
+      : null;
+    const revenueLines = vatResult?.revenueLines ?? entered.revenueLines;
+    const annualExpenses = vatResult?.expenses ?? entered.annualExpenses;
+
+    // A mixed activity is affiliated according to its activité principale
+    const annualRevenue = getTotalRevenue(revenueLines);
+    const activityType = getMainActivityType(revenueLines);
+
+    const microResult = calculateMicroRegimeTax(revenueLines, annualExpenses, { household, fiscalYear, taxReductions, otherIncome, creationDate, acre, cfe });
+    const microLiberatoireResult = calculateMicroLiberatoireRegimeTax(
+      revenueLines, annualExpenses, { household, fiscalYear, taxReductions, otherIncome, referenceIncomeN2, creationDate, acre, cfe }
+    );
+    // The réel of a location meublée has its own calculator, with amortizations, instead of the generic one
+    let reelResult: ReelRegimeResult | null = null;
+    let furnishedRentalResult: FurnishedRentalReelResult | null = null;
+    let reelRegimeResult: ReelRegimeResult | FurnishedRentalReelResult;
+    let reelNetIncomeAfterAll: number;
+    let reelWithholdingIncome: WithholdingIncome;
+    let reelUrssafIncome: UrssafReelIncome | null;
+    if (isFurnishedRental(activityType)) {
+      furnishedRentalResult = calculateFurnishedRentalReelTax(
+        annualRevenue, annualExpenses, activityType, furnishedRental ?? NO_FURNISHED_RENTAL_ASSETS, { household, fiscalYear, taxReductions, otherIncome, creationDate, acre, cfe }
+      );
+      reelRegimeResult = furnishedRentalResult;
+      reelNetIncomeAfterAll = furnishedRentalResult.netIncomeAfterAll;
+      reelWithholdingIncome = {
+        revenue: furnishedRentalResult.revenue,
+        activityTaxableIncome: furnishedRentalResult.taxableIncome,
+        otherTaxableIncome: furnishedRentalResult.otherTaxableIncome,
+        globalIncome: furnishedRentalResult.otherTaxableIncome + furnishedRentalResult.taxableIncome,
+        totalTax: furnishedRentalResult.incomeTaxDetails.totalTax,
+      };
+      // A location meublée non professionnelle pays its prélèvements sociaux with the IR, not to the URSSAF
+      reelUrssafIncome = furnishedRentalResult.nonProfessionalRental
+        ? null
+        : {
+          revenue: furnishedRentalResult.revenue,
+          profitBeforeContributions: furnishedRentalResult.rentalResult,
+          totalContributions: furnishedRentalResult.totalSocialContributions,
+          activityType,
+        };
+    } else {
+      reelResult = calculateReelRegimeTax(
+        annualRevenue, annualExpenses, activityType,
+        { household, fiscalYear, taxReductions, otherIncome, creationDate, acre, pensionFund, pensionClasses, deficitsCarriedForward, cfe }
+      );
+      reelRegimeResult = reelResult;
+      reelNetIncomeAfterAll = reelResult.netIncomeAfterAllContributions;
+      reelWithholdingIncome = {
+        revenue: annualRevenue,
+        activityTaxableIncome: reelResult.taxableIncome,
+        otherTaxableIncome: reelResult.otherTaxableIncome,
+        globalIncome: reelResult.deficits.globalIncome,
+        totalTax: reelResult.incomeTaxDetails.totalTax,
+      };
+      reelUrssafIncome = {
+        revenue: annualRevenue,
+        profitBeforeContributions: reelResult.profitBeforeContributions,
+        totalContributions: reelResult.totalSocialContributions,
+        activityType,
+      };
+    }
+    const tnsPensionFund = getPensionFund(activityType, pensionFund);
+    const sasuResult = calculateSasuRegimeTax(
+      annualRevenue, annualExpenses, sasu ?? DEFAULT_SASU_REMUNERATION, { household, fiscalYear, taxReductions, otherIncome, creationDate, acre }
+    );
+    const eurlResult = calculateEurlRegimeTax(
+      annualRevenue, annualExpenses, activityType, eurl ?? DEFAULT_EURL_REMUNERATION,
+      { household, fiscalYear, taxReductions, otherIncome, creationDate, acre, pensionFund, pensionClasses }
+    );
+    const constraint = remunerationConstraint ?? NO_REMUNERATION_CONSTRAINT;
+    const sasuOptimization = optimizeSasuRemuneration(
+      annualRevenue, annualExpenses, { household, fiscalYear, taxReductions, otherIncome, creationDate, acre }, constraint
+    );
+    const eurlOptimization = optimizeEurlRemuneration(
+      annualRevenue, annualExpenses, activityType, eurl ?? DEFAULT_EURL_REMUNERATION,
+      { household, fiscalYear, taxReductions, otherIncome, creationDate, acre, pensionFund, pensionClasses }, constraint
+    );
+    const breakEven = isFurnishedRental(activityType)
+      ? null
+      : calculateMicroReelBreakEven(
+        revenueLines, annualExpenses, { household, fiscalYear, taxReductions, otherIncome, creationDate, acre, pensionFund, pensionClasses, deficitsCarriedForward, cfe }
+      );
+    const projectionResult = projection
+      ? calculateProjection(
+        revenueLines, annualExpenses, projection,
+        { household, fiscalYear, taxReductions, otherIncome, referenceIncomeN2, creationDate, acre, pensionFund, pensionClasses, deficitsCarriedForward, cfe },
+        { furnishedRental, sasu, eurl, previousYearRevenue }
+      )
+      : null;
+    const microEligibility = checkMicroEligibility(revenueLines, { fiscalYear, previousYearRevenue, creationDate, monthlyRevenue });
+    const otherTaxableIncome = calculateOtherTaxableIncome(otherIncome, fiscalYear);
+    // The chambres d'hôtes at the réel pay SSI contributions, a location meublée non professionnelle none
+    const retirement: RetirementComparison = {
+      micro: calculateMicroRetirementRights(microResult.lines, fiscalYear, pensionFund),
+      reel: calculateTnsRetirementRights(reelRegimeResult.socialContributions, tnsPensionFund, fiscalYear),
+      sasu: calculateSalariedRetirementRights(sasuResult.grossSalary, fiscalYear),
+      eurl: calculateTnsRetirementRights(eurlResult.socialContributions, tnsPensionFund, fiscalYear),
+    };
+    const socialProtection: SocialProtectionComparison = {
+      micro: calculateMicroSocialProtection(microResult.lines, fiscalYear, pensionFund, creationDate),
+      reel: calculateTnsSocialProtection(reelRegimeResult.socialContributions, tnsPensionFund, fiscalYear, creationDate),
+      sasu: calculateSalariedSocialProtection(sasuResult.grossSalary, fiscalYear),
+      eurl: calculateTnsSocialProtection(eurlResult.socialContributions, tnsPensionFund, fiscalYear, creationDate),
+    };
+    const withholdingSettings = withholding ?? DEFAULT_WITHHOLDING_SETTINGS;
+    const withholdingOptions = { household, fiscalYear, otherIncome, creationDate, previousYearRevenue };
+    const withholdingResult: WithholdingResult = {
+      settings: withholdingSettings,
+      micro: calculateWithholdingSchedule(
+        {
+          revenue: microResult.revenue,
+          activityTaxableIncome: microResult.taxableIncome,
+          otherTaxableIncome: microResult.otherTaxableIncome,
+          globalIncome: microResult.otherTaxableIncome + microResult.taxableIncome,
+          totalTax: microResult.incomeTaxDetails.totalTax,
+        },
+        withholdingSettings, withholdingOptions
+      ),
+      reel: calculateWithholdingSchedule(reelWithholdingIncome, withholdingSettings, withholdingOptions),
+    };
+    const urssafCashFlow = calculateUrssafCashFlow(
+      microResult, reelUrssafIncome, urssafSchedule ?? DEFAULT_URSSAF_SCHEDULE_SETTINGS,
+      { fiscalYear, creationDate, acre, pensionFund, pensionClasses, previousYearRevenue, monthlyRevenue }
+    );
 
     let aiRecommendationText: string | null = null;
     try {
-      const aiInput: TaxRecommendationInput = { annualRevenue, annualExpenses, activityType };
+      const aiInput: TaxRecommendationInput = {
+        annualRevenue,
+        annualExpenses,
+        activityType,
+        revenueLines: microResult.lines.map((line) => ({
+          activityType: line.activityType,
+          annualRevenue: line.revenue,
+          allowanceRatePercent: parseFloat((line.allowanceRate * 100).toFixed(2)),
+          socialRatePercent: parseFloat((line.urssafSocialContributionsRate * 100).toFixed(2)),
+        })),
+        household,
+        fiscalParts: calculateFiscalParts(household),
+        fiscalYear,
+        microAllowanceRatePercent: parseFloat((microResult.allowanceRate * 100).toFixed(2)),
+        microSocialRatePercent: parseFloat((microResult.urssafSocialContributionsRate * 100).toFixed(2)),
+        microCfpRatePercent: parseFloat((microResult.cfpRate * 100).toFixed(2)),
+        taxReductions,
+        otherIncome,
+        otherTaxableIncome,
+        marginalTaxRatePercent: Math.round(getMarginalTaxRate(otherTaxableIncome + microResult.taxableIncome, household, fiscalYear) * 100),
+        microIncomeTax: microResult.taxAmount,
+        reelIncomeTax: reelRegimeResult.taxAmount,
+        creationDate: creationDate ?? null,
+        acre,
+        microAcreReduction: microResult.acreReduction,
+        reelAcreExemption: parseFloat(reelRegimeResult.socialContributions.reduce((sum, line) => sum + line.acreExemption, 0).toFixed(2)),
+        cfe: {
+          communeLabel: microResult.cfe.communeLabel,
+          ratePercent: parseFloat((microResult.cfe.rate * 100).toFixed(2)),
+          exemptionLabel: microResult.cfe.exemption && CFE_EXEMPTION_LABELS[microResult.cfe.exemption],
+          secondYearReduction: microResult.cfe.secondYearReduction > 0,
+          microAmount: microResult.cfe.amount,
+          reelAmount: reelRegimeResult.cfe.amount,
+        },
+        microEligible: microEligibility.eligible,
+        microWarnings: microEligibility.warnings.map((warning) => warning.message),
+        reelContributions: reelResult && {
+          pensionFund: reelResult.pensionFund ?? null,
+          professionalIncome: reelResult.professionalIncome,
+          lines: reelResult.socialContributions.map(({ label, amount }) => ({ label, amount })),
+          total: reelResult.totalSocialContributions,
+          minimumContributionsApplied: reelResult.minimumContributionsApplied,
+          retirementQuartersValidated: reelResult.retirementQuartersValidated,
+          deficitOfYear: reelResult.deficits.deficitOfYear,
+          deficitImputedOnGlobalIncome: reelResult.deficits.deficitImputedOnGlobalIncome,
+          priorDeficitsImputed: reelResult.deficits.priorDeficitsImputed,
+          deficitsCarriedForward: reelResult.deficits.deficitsCarriedForward.reduce((sum, deficit) => sum + deficit.amount, 0),
+          deficitTaxSaving: reelResult.deficitTaxSaving,
+          netIncomeAfterAll: reelResult.netIncomeAfterAllContributions,
+        },
+        furnishedRental: furnishedRentalResult && {
+          nonProfessionalRental: furnishedRentalResult.nonProfessionalRental,
+          resultBeforeAmortization: furnishedRentalResult.resultBeforeAmortization,
+          amortizationDeducted: furnishedRentalResult.amortizationDeducted,
+          amortizationCarriedForward: furnishedRentalResult.amortizationCarriedForward,
+          rentalResult: furnishedRentalResult.rentalResult,
+          totalSocialContributions: furnishedRentalResult.totalSocialContributions,
+          taxAmount: furnishedRentalResult.taxAmount,
+          netIncomeAfterAll: furnishedRentalResult.netIncomeAfterAll,
+        },
+        sasu: {
+          grossSalary: sasuResult.grossSalary,
+          netSalary: sasuResult.netSalary,
+          payrollContributions: sasuResult.employeeContributions + sasuResult.employerContributions,
+          corporateTax: sasuResult.corporateTax.amount,
+          dividends: sasuResult.dividends,
+          dividendTaxationLabel: DIVIDEND_TAXATION_LABELS[sasuResult.dividendTaxation],
+          dividendFlatTax: sasuResult.dividendIncomeTax + sasuResult.dividendSocialLevies,
+          retainedEarnings: sasuResult.retainedEarnings,
+          incomeTax: sasuResult.taxAmount,
+          retirementQuartersValidated: sasuResult.retirementQuartersValidated,
+          netIncomeAfterAll: sasuResult.netIncomeAfterAll,
+        },
+        eurl: {
+          legalFormLabel: eurlResult.legalForm === "EI_IS" ? "EI ayant opté pour l'impôt sur les sociétés (assimilation EURL)" : "EURL à l'impôt sur les sociétés",
+          managerRemuneration: eurlResult.managerRemuneration,
+          remunerationContributions: eurlResult.remunerationContributions,
+          corporateTax: eurlResult.corporateTax.amount,
+          dividends: eurlResult.dividends,
+          dividendSocialThreshold: eurlResult.dividendSocialThreshold,
+          dividendsSubjectToContributions: eurlResult.dividendsSubjectToContributions,
+          dividendContributions: eurlResult.dividendContributions,
+          retainedEarnings: eurlResult.retainedEarnings,
+          dividendTaxationLabel: DIVIDEND_TAXATION_LABELS[eurlResult.dividendTaxation],
+          incomeTax: eurlResult.taxAmount + eurlResult.dividendIncomeTax,
+          retirementQuartersValidated: eurlResult.retirementQuartersValidated,
+          netIncomeAfterAll: eurlResult.netIncomeAfterAll,
+        },
+        remunerationOptimization: {
+          minRetirementQuarters: constraint.minRetirementQuarters,
+          sasu: toOptimalRemuneration(sasuOptimization),
+          eurl: toOptimalRemuneration(eurlOptimization),
+        },
+        breakEven: breakEven && {
+          summary: breakEven.summary,
+          currentDifference: breakEven.currentDifference,
+          breakEvenExpensesPercent: breakEven.breakEvenExpenseRatio === null ? null : parseFloat((breakEven.breakEvenExpenseRatio * 100).toFixed(1)),
+          breakEvenExpenses: breakEven.breakEvenExpenses,
+          revenueBreakEven: breakEven.revenueBreakEven,
+        },
+        projection: projectionResult && {
+          years: projectionResult.assumptions.years,
+          startYear: projectionResult.startYear,
+          revenueGrowthPercent: parseFloat((projectionResult.assumptions.revenueGrowth * 100).toFixed(1)),
+          expenseGrowthPercent: parseFloat((projectionResult.assumptions.expenseGrowth * 100).toFixed(1)),
+          cumulativeNetIncome: projectionResult.cumulativeNetIncome,
+          bestRegimeLabel: PROJECTION_REGIME_LABELS[projectionResult.bestRegime],
+          microExitYear: projectionResult.years.find((year) => year.regimes.MICRO?.forcedReel)?.year ?? null,
+          pendingRegularization: projectionResult.pendingRegularization,
+        },
+        vat: vatResult && {
+          statusLabel: VAT_STATUS_LABELS[vatResult.status],
+          clientele: vatResult.settings.clientele,
+          vatCollected: vatResult.actual.vatCollected,
+          vatDeductible: vatResult.actual.vatDeductible,
+          vatPayable: vatResult.actual.vatPayable,
+          revenueHt: vatResult.revenue,
+          clientPrice: vatResult.actual.clientPrice,
+          alternativeClientPrice: vatResult.alternative.clientPrice,
+          netIncomeEffect: vatResult.netIncomeEffect,
+          warnings: vatResult.warnings.map((warning) => warning.message),
+        },
+        retirement: [
+          toRetirementSummary("MICRO", microResult.netIncomeAfterAll, retirement.micro),
+          ...(microLiberatoireResult.eligible ? [toRetirementSummary("MICRO_LIBERATOIRE", microLiberatoireResult.netIncomeAfterAll, retirement.micro)] : []),
+          toRetirementSummary("REEL", reelNetIncomeAfterAll, retirement.reel),
+          toRetirementSummary("SASU", sasuResult.netIncomeAfterAll, retirement.sasu),
+          toRetirementSummary("EURL", eurlResult.netIncomeAfterAll, retirement.eurl),
+        ],
+        versementLiberatoire: {
+          eligible: microLiberatoireResult.eligible,
+          referenceIncomeN2,
+          referenceIncomeLimit: microLiberatoireResult.referenceIncomeLimit,
+          ratePercent: parseFloat((microLiberatoireResult.versementLiberatoireRate * 100).toFixed(2)),
+          amount: microLiberatoireResult.versementLiberatoire,
+          effectiveRateTaxIncrease: microLiberatoireResult.effectiveRateTaxIncrease,
+          netIncomeAfterAll: microLiberatoireResult.netIncomeAfterAll,
+        },
+      };
       const recommendationOutput = await taxSystemRecommendation(aiInput);
       aiRecommendationText = recommendationOutput.recommendation;
     } catch (aiError) {
@@ -80,7 +639,21 @@ export async function getTaxSimulation(
     
     return {
       micro: microResult,
+      microLiberatoire: microLiberatoireResult,
       reel: reelResult,
+      furnishedRental: furnishedRentalResult,
+      sasu: sasuResult,
+      eurl: eurlResult,
+      sasuOptimization,
+      eurlOptimization,
+      breakEven,
+      projection: projectionResult,
+      vat: vatResult,
+      retirement,
+      socialProtection,
+      withholding: withholdingResult,
+      urssafCashFlow,
+      microEligibility,
       aiRecommendation: aiRecommendationText,
       activityType,
     };
@@ -88,10 +661,24 @@ export async function getTaxSimulation(
     console.error("Tax calculation error:", e);
     return {
       micro: defaultMicroResult,
+      microLiberatoire: defaultMicroLiberatoireResult,
       reel: defaultReelResult,
+      furnishedRental: null,
+      sasu: null,
+      eurl: null,
+      sasuOptimization: null,
+      eurlOptimization: null,
+      breakEven: null,
+      projection: null,
+      vat: null,
+      retirement: null,
+      socialProtection: null,
+      withholding: null,
+      urssafCashFlow: null,
+      microEligibility: null,
       aiRecommendation: null,
       error: "Une erreur est survenue lors du calcul des impôts.",
-      activityType,
+      activityType: getMainActivityType(validation.data.revenueLines),
     };
   }
 }
@@ -0,0 +1,65 @@
+// src/components/break-even-chart.tsx
+'use client';
+
+import React from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import type { BreakEvenResult } from '@/lib/break-even';
+
+interface BreakEvenChartProps {
+  breakEven: BreakEvenResult;
+  formatCurrency: (value: number | undefined) => string;
+}
+
+const chartConfig = {
+  microNetIncome: { label: "Micro", color: "hsl(var(--chart-1))" },
+  reelNetIncome: { label: "Réel", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+/**
+ * Plots the net income of the micro and of the réel against the expense ratio, at the revenue entered,
+ * with a marker where they cross and another at the expenses entered.
+ */
+export default function BreakEvenChart({ breakEven, formatCurrency }: BreakEvenChartProps) {
+  const data = breakEven.curve.map((point) => ({ ...point, expensePercent: point.expenseRatio * 100 }));
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm">{breakEven.summary}</p>
+      <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+        <LineChart data={data} margin={{ left: 8, right: 8, top: 16 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="expensePercent" type="number" domain={[0, "dataMax"]} tickFormatter={(value: number) => `${Math.round(value)} %`} />
+          <YAxis width={56} domain={["auto", "auto"]} tickFormatter={(value: number) => `${Math.round(value / 1000)} k€`} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => `Charges: ${formatCurrency(payload?.[0]?.payload?.expenses)}`}
+                formatter={(value, name) => `${chartConfig[name as keyof typeof chartConfig]?.label ?? name}: ${formatCurrency(Number(value))}`}
+              />
+            }
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Line dataKey="microNetIncome" type="monotone" stroke="var(--color-microNetIncome)" strokeWidth={2} dot={false} />
+          <Line dataKey="reelNetIncome" type="monotone" stroke="var(--color-reelNetIncome)" strokeWidth={2} dot={false} />
+          {breakEven.breakEvenExpenseRatio !== null && (
+            <ReferenceLine
+              x={breakEven.breakEvenExpenseRatio * 100}
+              stroke="hsl(var(--primary))"
+              strokeDasharray="4 4"
+              label={{ value: "Point mort", position: "top", fontSize: 11 }}
+            />
+          )}
+          <ReferenceLine
+            x={breakEven.currentExpenseRatio * 100}
+            stroke="hsl(var(--muted-foreground))"
+            label={{ value: "Vos charges", position: "insideBottomRight", fontSize: 11 }}
+          />
+        </LineChart>
+      </ChartContainer>
+      <p className="text-xs text-muted-foreground">
+        Avec vos charges, le réel rapporte {formatCurrency(Math.abs(breakEven.currentDifference))} de {breakEven.currentDifference >= 0 ? "plus" : "moins"} que le micro par an.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+// src/components/cfe-breakdown.tsx
+'use client';
+
+import React from 'react';
+import type { CfeExemption, CfeResult } from '@/lib/cfe';
+
+interface CfeBreakdownProps {
+  cfe: CfeResult;
+  label: string; // Line label, e.g. "CFE (non déductible)"
+  formatCurrency: (value: number | undefined) => string;
+  formatPercentage: (value: number | undefined) => string;
+}
+
+const exemptionLabels: Record<CfeExemption, string> = {
+  CREATION_YEAR: "Exonération l'année de création",
+  LOW_REVENUE: "Pas de cotisation minimum sous 5 000 € de chiffre d'affaires",
+};
+
+/**
+ * Shows the CFE of the year with its base: the base minimum of the commune or the valeur locative,
+ * the exemption or the reduction applied after the creation.
+ */
+export default function CfeBreakdown({ cfe, label, formatCurrency, formatPercentage }: CfeBreakdownProps) {
+  return (
+    <>
+      <p>{label}: <strong className="text-accent-foreground">{formatCurrency(cfe.amount)}</strong></p>
+      <div className="space-y-1 border-l-2 border-muted pl-3 text-xs text-muted-foreground">
+        <p>{cfe.communeLabel}, taux {formatPercentage(cfe.rate)}</p>
+        {cfe.exemption && <p>{exemptionLabels[cfe.exemption]}</p>}
+        {cfe.exemption !== "CREATION_YEAR" && (
+          <p>
+            Base: <span className="font-semibold">{formatCurrency(cfe.base)}</span>
+            {cfe.base === cfe.minimumBase && cfe.minimumBase > 0
+              ? <> (base minimum, tranche {formatCurrency(cfe.minimumBaseBracket.min)} – {formatCurrency(cfe.minimumBaseBracket.max)})</>
+              : <> (valeur locative)</>}
+          </p>
+        )}
+        {cfe.secondYearReduction > 0 && (
+          <p>Réduction de moitié l'année suivant la création: <span className="font-semibold">-{formatCurrency(cfe.secondYearReduction)}</span> de base</p>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,37 @@
+// src/components/deficits-breakdown.tsx
+'use client';
+
+import React from 'react';
+import type { DeficitImputationResult } from '@/lib/deficits';
+
+interface DeficitsBreakdownProps {
+  deficits: DeficitImputationResult;
+  formatCurrency: (value: number | undefined) => string;
+}
+
+/**
+ * Details the deficit of the year, its imputation on the other income of the foyer and the deficits carried forward.
+ * Renders nothing when there is no deficit to report.
+ */
+export default function DeficitsBreakdown({ deficits, formatCurrency }: DeficitsBreakdownProps) {
+  if (deficits.deficitOfYear === 0 && deficits.priorDeficitsImputed === 0 && deficits.deficitsCarriedForward.length === 0 && deficits.expiredDeficits === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-1 border-l-2 border-muted pl-3 text-xs text-muted-foreground">
+      {deficits.deficitOfYear > 0 && (
+        <p>Déficit de l'année: <span className="font-semibold">{formatCurrency(deficits.deficitOfYear)}</span>, dont <span className="font-semibold">{formatCurrency(deficits.deficitImputedOnGlobalIncome)}</span> imputé sur les autres revenus du foyer</p>
+      )}
+      {deficits.priorDeficitsImputed > 0 && (
+        <p>Déficits antérieurs imputés: <span className="font-semibold">{formatCurrency(deficits.priorDeficitsImputed)}</span></p>
+      )}
+      {deficits.deficitsCarriedForward.map((deficit) => (
+        <p key={deficit.year}>Reste reportable (déficit {deficit.year}, jusqu'en {deficit.year + deficits.carryForwardYears}): <span className="font-semibold">{formatCurrency(deficit.amount)}</span></p>
+      ))}
+      {deficits.expiredDeficits > 0 && (
+        <p>Déficits perdus (reportés depuis plus de {deficits.carryForwardYears} ans): <span className="font-semibold">{formatCurrency(deficits.expiredDeficits)}</span></p>
+      )}
+    </div>
+  );
+}
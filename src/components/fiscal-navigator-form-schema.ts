@@ -0,0 +1,120 @@
+// src/components/fiscal-navigator-form-schema.ts
+
+import * as z from 'zod';
+import { isFiscalYear } from '@/lib/fiscal-parameters';
+import { MONTHS_IN_YEAR } from '@/lib/monthly-amounts';
+import { MAX_PROJECTION_YEARS, MIN_PROJECTION_YEARS } from '@/lib/projection';
+
+const ActivityTypeEnum = z.enum(["VENTE_BIC", "SERVICE_BIC", "LIBERAL_BNC_AUTRE", "LIBERAL_BNC_CIPAV", "LIBERAL_BNC_REGLEMENTEE", "LOCATION_MEUBLEE", "MEUBLE_TOURISME_CLASSE", "MEUBLE_TOURISME_NON_CLASSE", "CHAMBRES_HOTES"], {
+  errorMap: () => ({ message: "Veuillez sélectionner un type d'activité." })
+});
+
+const PensionFundEnum = z.enum(["CIPAV", "CARMF", "CARPIMKO", "CAVEC"], {
+  errorMap: () => ({ message: "Veuillez sélectionner une caisse de retraite." })
+});
+
+const FamilySituationEnum = z.enum(["CELIBATAIRE", "MARIE_PACSE", "DIVORCE_SEPARE", "VEUF"], {
+  errorMap: () => ({ message: "Veuillez sélectionner une situation familiale." })
+});
+
+export const formSchema = z.object({
+  annualExpenses: z.coerce.number().min(0, "Les charges annuelles doivent être positives ou nulles.").default('' as unknown as number),
+  previousYearRevenue: z.preprocess(
+    (value) => (value === '' || value === null ? undefined : value),
+    z.coerce.number().min(0, "Le chiffre d'affaires de l'année précédente doit être positif ou nul.").optional()
+  ),
+  revenueLines: z.array(z.object({
+    activityType: ActivityTypeEnum,
+    annualRevenue: z.coerce.number().min(0, "Le chiffre d'affaires annuel doit être positif ou nul.").default('' as unknown as number),
+  })).min(1, "Veuillez saisir au moins une ligne de chiffre d'affaires."),
+  monthly: z.object({
+    enabled: z.boolean(),
+    revenue: z.array(z.coerce.number().min(0, "Le chiffre d'affaires mensuel doit être positif ou nul.")).length(MONTHS_IN_YEAR),
+    expenses: z.array(z.coerce.number().min(0, "Les charges mensuelles doivent être positives ou nulles.")).length(MONTHS_IN_YEAR),
+  }),
+  pensionFund: PensionFundEnum,
+  pensionClasses: z.object({
+    retraiteComplementaire: z.string().optional(),
+    invaliditeDeces: z.string().optional(),
+  }),
+  furnishedRental: z.object({
+    propertyValue: z.coerce.number().min(0, "La valeur du bien doit être positive ou nulle."),
+    landSharePercent: z.coerce.number().min(0, "La part du terrain doit être comprise entre 0 et 100%.").max(100, "La part du terrain doit être comprise entre 0 et 100%."),
+    furnitureValue: z.coerce.number().min(0, "La valeur du mobilier doit être positive ou nulle."),
+    loanInterest: z.coerce.number().min(0, "Les intérêts d'emprunt doivent être positifs ou nuls."),
+    amortizationCarriedForward: z.coerce.number().min(0, "Les amortissements reportés doivent être positifs ou nuls."),
+  }),
+  sasu: z.object({
+    grossSalary: z.coerce.number().min(0, "La rémunération du président doit être positive ou nulle."),
+    dividendSharePercent: z.coerce.number().min(0, "La part distribuée doit être comprise entre 0 et 100%.").max(100, "La part distribuée doit être comprise entre 0 et 100%."),
+    dividendTaxation: z.enum(["PFU", "BAREME"]),
+  }),
+  eurl: z.object({
+    legalForm: z.enum(["EURL", "EI_IS"]),
+    managerRemuneration: z.coerce.number().min(0, "La rémunération du gérant doit être positive ou nulle."),
+    dividendSharePercent: z.coerce.number().min(0, "La part distribuée doit être comprise entre 0 et 100%.").max(100, "La part distribuée doit être comprise entre 0 et 100%."),
+    shareCapital: z.coerce.number().min(0, "Le capital social doit être positif ou nul."),
+    currentAccounts: z.coerce.number().min(0, "Les comptes courants d'associé doivent être positifs ou nuls."),
+    dividendTaxation: z.enum(["PFU", "BAREME"]),
+  }),
+  requireFullRetirementQuarters: z.boolean(),
+  projection: z.object({
+    enabled: z.boolean(),
+    years: z.coerce.number().int().min(MIN_PROJECTION_YEARS).max(MAX_PROJECTION_YEARS),
+    revenueGrowthPercent: z.coerce.number().min(-50, "La croissance doit être comprise entre -50% et 100% par an.").max(100, "La croissance doit être comprise entre -50% et 100% par an."),
+    expenseGrowthPercent: z.coerce.number().min(-50, "La croissance doit être comprise entre -50% et 100% par an.").max(100, "La croissance doit être comprise entre -50% et 100% par an."),
+  }),
+  creationDate: z.string().optional(),
+  acre: z.boolean(),
+  cfe: z.object({
+    communeId: z.string(),
+    manualRatePercent: z.coerce.number().min(0, "Le taux de CFE doit être compris entre 0 et 100%.").max(100, "Le taux de CFE doit être compris entre 0 et 100%."),
+    minimumBase: z.preprocess(
+      (value) => (value === '' || value === null ? undefined : value),
+      z.coerce.number().min(0, "La base minimum doit être positive ou nulle.").optional()
+    ),
+    rentalValue: z.coerce.number().min(0, "La valeur locative doit être positive ou nulle."),
+  }),
+  vat: z.object({
+    revenueBasis: z.enum(["HT", "TTC"]),
+    expenseBasis: z.enum(["HT", "TTC"]),
+    expensesSubjectToVatSharePercent: z.coerce.number().min(0, "La part des charges soumises à la TVA doit être comprise entre 0 et 100%.").max(100, "La part des charges soumises à la TVA doit être comprise entre 0 et 100%."),
+    clientele: z.enum(["B2B", "B2C"]),
+    optionForVat: z.boolean(),
+    exemptActivity: z.boolean(),
+  }),
+  urssafSchedule: z.object({
+    frequency: z.enum(["MONTHLY", "QUARTERLY"]),
+  }),
+  withholding: z.object({
+    rateOption: z.enum(["PERSONNALISE", "INDIVIDUALISE", "NEUTRE"]),
+    frequency: z.enum(["MONTHLY", "QUARTERLY"]),
+  }),
+  fiscalYear: z.coerce.number().refine(isFiscalYear, "Veuillez sélectionner une année fiscale disponible."),
+  taxReductions: z.coerce.number().min(0, "Les réductions d'impôt doivent être positives ou nulles."),
+  otherIncome: z.object({
+    taxpayerSalaries: z.coerce.number().min(0, "Les salaires doivent être positifs ou nuls."),
+    spouseSalaries: z.coerce.number().min(0, "Les salaires du conjoint doivent être positifs ou nuls."),
+    pensions: z.coerce.number().min(0, "Les pensions doivent être positives ou nulles."),
+    rentalIncome: z.coerce.number().min(0, "Les revenus fonciers doivent être positifs ou nuls."),
+    otherBusinessIncome: z.coerce.number().min(0, "Le bénéfice d'une autre activité doit être positif ou nul."),
+  }),
+  referenceIncomeN2: z.coerce.number().min(0, "Le revenu fiscal de référence doit être positif ou nul."),
+  priorDeficit: z.object({
+    amount: z.coerce.number().min(0, "Le déficit reporté doit être positif ou nul."),
+    year: z.coerce.number().int("L'année d'origine du déficit doit être une année."),
+  }),
+  household: z.object({
+    familySituation: FamilySituationEnum,
+    dependentChildren: z.coerce.number().int("Le nombre d'enfants doit être un entier.").min(0, "Le nombre d'enfants doit être positif ou nul."),
+    sharedCustodyChildren: z.coerce.number().int("Le nombre d'enfants doit être un entier.").min(0, "Le nombre d'enfants doit être positif ou nul."),
+    singleParent: z.boolean(),
+    taxpayerDisabled: z.boolean(),
+    spouseDisabled: z.boolean(),
+  }),
+});
+
+/**
+ * Values of the simulation form, shared with the sections rendered in their own components.
+ */
+export type FiscalNavigatorFormValues = z.infer<typeof formSchema>;
@@ -3,10 +3,11 @@
 'use client';
 
 import React, { useState, useTransition } from 'react';
-import { useForm } from 'react-hook-form';
+import { useFieldArray, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import * as z from 'zod';
-import { Euro, Receipt, Sparkles, TrendingUp, TrendingDown, FileText, Info, AlertTriangle, Briefcase, Activity, Percent, CalendarDays } from 'lucide-react';
+import { Euro, Receipt, Sparkles, TrendingUp, TrendingDown, FileText, Info, AlertTriangle, Briefcase, Activity, Percent, CalendarDays, Users, Wallet, Rocket, Landmark, Plus, Trash2, Home, Building, Building2, Scale, MapPin, BadgePercent, CalendarClock, CalendarRange } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { fr } from 'date-fns/locale';
 
 import { Button } from '@/components/ui/button';
 import {
@@ -18,6 +19,9 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import {
   Select,
   SelectContent,
@@ -28,6 +32,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -36,27 +41,77 @@ import {
 import { Skeleton } from '@/components/ui/skeleton';
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { cn } from '@/lib/utils';
+import IncomeTaxBreakdown from '@/components/income-tax-breakdown';
+import MicroThresholdGauges from '@/components/micro-threshold-gauges';
+import MicroRevenueLinesBreakdown from '@/components/micro-revenue-lines-breakdown';
+import SocialContributionsBreakdown from '@/components/social-contributions-breakdown';
+import PayrollContributionsBreakdown from '@/components/payroll-contributions-breakdown';
 import { getTaxSimulation, type SimulationResult } from '@/app/actions';
 import { useToast } from '@/hooks/use-toast';
-import type { ActivityType } from '@/lib/tax-calculator';
-
-const ActivityTypeEnum = z.enum(["VENTE_BIC", "SERVICE_BIC", "LIBERAL_BNC_AUTRE", "LIBERAL_BNC_CIPAV"], {
-  errorMap: () => ({ message: "Veuillez sélectionner un type d'activité." })
-});
-
-const formSchema = z.object({
-  annualRevenue: z.coerce.number().min(0, "Le chiffre d'affaires annuel doit être positif ou nul.").default('' as unknown as number),
-  annualExpenses: z.coerce.number().min(0, "Les charges annuelles doivent être positives ou nulles.").default('' as unknown as number),
-  activityType: ActivityTypeEnum,
-});
-
-type FormData = z.infer<typeof formSchema>;
+import { getMainActivityType, type ActivityType, type FamilySituation } from '@/lib/tax-calculator';
+import { DEFAULT_FISCAL_YEAR, FISCAL_YEARS, getFiscalParameters } from '@/lib/fiscal-parameters';
+import { PENSION_FUNDS, REGULATED_PENSION_FUNDS, type LiberalPensionFund, type PensionFundClassChoices } from '@/lib/liberal-pension-funds';
+import type { DividendTaxOption } from '@/lib/company-tax';
+import type { CompanyLegalForm } from '@/lib/eurl';
+import RemunerationSplitChart from '@/components/remuneration-split-chart';
+import BreakEvenChart from '@/components/break-even-chart';
+import ProjectionTable from '@/components/projection-table';
+import DeficitsBreakdown from '@/components/deficits-breakdown';
+import CfeBreakdown from '@/components/cfe-breakdown';
+import VatSummary from '@/components/vat-summary';
+import RegimeSocialRights from '@/components/regime-social-rights';
+import WithholdingScheduleTable from '@/components/withholding-schedule';
+import UrssafCashFlow from '@/components/urssaf-cash-flow';
+import MonthlyAmountsGrid from '@/components/monthly-amounts-grid';
+import VatSettingsFields from '@/components/vat-settings-fields';
+import UrssafScheduleFields from '@/components/urssaf-schedule-fields';
+import WithholdingSettingsFields from '@/components/withholding-settings-fields';
+import ProjectionSettingsFields from '@/components/projection-settings-fields';
+import { formSchema, type FiscalNavigatorFormValues } from '@/components/fiscal-navigator-form-schema';
+import { DEFAULT_URSSAF_SCHEDULE_SETTINGS } from '@/lib/urssaf-schedule';
+import { MONTHS_IN_YEAR } from '@/lib/monthly-amounts';
+import { DEFAULT_WITHHOLDING_SETTINGS } from '@/lib/withholding';
+import { DEFAULT_VAT_SETTINGS } from '@/lib/vat';
+import { CFE_COMMUNES, DEFAULT_CFE_SETTINGS, MANUAL_CFE_COMMUNE } from '@/lib/cfe';
+import { MIN_PROJECTION_YEARS } from '@/lib/projection';
+import { BUILDING_AMORTIZATION_YEARS, DEFAULT_LAND_SHARE, FURNITURE_AMORTIZATION_YEARS, isFurnishedRental } from '@/lib/furnished-rental';
 
 const activityTypeLabels: Record<ActivityType, string> = {
   VENTE_BIC: "Ventes de marchandises (BIC)",
   SERVICE_BIC: "Prestations de services commerciales/artisanales (BIC)",
   LIBERAL_BNC_AUTRE: "Autres prestations de services (BNC, non-CIPAV)",
   LIBERAL_BNC_CIPAV: "Professions libérales réglementées (BNC, CIPAV)",
+  LIBERAL_BNC_REGLEMENTEE: "Professions libérales réglementées (BNC, autres caisses : CARMF, CARPIMKO, CAVEC)",
+  LOCATION_MEUBLEE: "Location meublée de longue durée (LMNP)",
+  MEUBLE_TOURISME_CLASSE: "Meublé de tourisme classé (LMNP)",
+  MEUBLE_TOURISME_NON_CLASSE: "Meublé de tourisme non classé (LMNP)",
+  CHAMBRES_HOTES: "Chambres d'hôtes (BIC)",
+};
+
+const legalFormLabels: Record<CompanyLegalForm, string> = {
+  EURL: "EURL à l'IS",
+  EI_IS: "EI à l'IS (assimilation EURL)",
+};
+
+const dividendTaxationLabels: Record<DividendTaxOption, string> = {
+  PFU: "Prélèvement forfaitaire unique (30%)",
+  BAREME: "Barème progressif (abattement de 40%)",
+};
+
+const pensionClassLabels: Record<keyof PensionFundClassChoices, string> = {
+  retraiteComplementaire: "Classe de retraite complémentaire",
+  invaliditeDeces: "Classe d'invalidité-décès",
+};
+
+// Select value standing for the class matching the income
+const INCOME_BASED_CLASS = "AUTO";
+
+const familySituationLabels: Record<FamilySituation, string> = {
+  CELIBATAIRE: "Célibataire",
+  MARIE_PACSE: "Marié(e) ou pacsé(e)",
+  DIVORCE_SEPARE: "Divorcé(e) ou séparé(e)",
+  VEUF: "Veuf / veuve",
 };
 
 export default function FiscalNavigatorForm() {
@@ -64,20 +119,127 @@ export default function FiscalNavigatorForm() {
   const [simulationResult, setSimulationResult] = useState<SimulationResult | null>(null);
   const { toast } = useToast();
 
-  const form = useForm<FormData>({
+  const form = useForm<FiscalNavigatorFormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
-      annualRevenue: '' as unknown as number,
       annualExpenses: '' as unknown as number,
-      activityType: "LIBERAL_BNC_AUTRE" as ActivityType,
+      previousYearRevenue: undefined,
+      revenueLines: [{ activityType: "LIBERAL_BNC_AUTRE" as ActivityType, annualRevenue: '' as unknown as number }],
+      monthly: {
+        enabled: false,
+        revenue: Array(MONTHS_IN_YEAR).fill(0),
+        expenses: Array(MONTHS_IN_YEAR).fill(0),
+      },
+      pensionFund: REGULATED_PENSION_FUNDS[0],
+      pensionClasses: {},
+      furnishedRental: {
+        propertyValue: 0,
+        landSharePercent: DEFAULT_LAND_SHARE * 100,
+        furnitureValue: 0,
+        loanInterest: 0,
+        amortizationCarriedForward: 0,
+      },
+      sasu: {
+        grossSalary: 0,
+        dividendSharePercent: 100,
+        dividendTaxation: "PFU" as DividendTaxOption,
+      },
+      eurl: {
+        legalForm: "EURL" as CompanyLegalForm,
+        managerRemuneration: 0,
+        dividendSharePercent: 100,
+        shareCapital: 1000,
+        currentAccounts: 0,
+        dividendTaxation: "PFU" as DividendTaxOption,
+      },
+      requireFullRetirementQuarters: false,
+      projection: {
+        enabled: false,
+        years: MIN_PROJECTION_YEARS,
+        revenueGrowthPercent: 0,
+        expenseGrowthPercent: 0,
+      },
+      creationDate: undefined,
+      acre: false,
+      cfe: {
+        communeId: DEFAULT_CFE_SETTINGS.communeId,
+        manualRatePercent: 0,
+        minimumBase: undefined,
+        rentalValue: 0,
+      },
+      vat: {
+        revenueBasis: DEFAULT_VAT_SETTINGS.revenueBasis,
+        expenseBasis: DEFAULT_VAT_SETTINGS.expenseBasis,
+        expensesSubjectToVatSharePercent: DEFAULT_VAT_SETTINGS.expensesSubjectToVatShare * 100,
+        clientele: DEFAULT_VAT_SETTINGS.clientele,
+        optionForVat: DEFAULT_VAT_SETTINGS.optionForVat,
+        exemptActivity: DEFAULT_VAT_SETTINGS.exemptActivity,
+      },
+      urssafSchedule: DEFAULT_URSSAF_SCHEDULE_SETTINGS,
+      withholding: DEFAULT_WITHHOLDING_SETTINGS,
+      fiscalYear: DEFAULT_FISCAL_YEAR,
+      taxReductions: 0,
+      otherIncome: {
+        taxpayerSalaries: 0,
+        spouseSalaries: 0,
+        pensions: 0,
+        rentalIncome: 0,
+        otherBusinessIncome: 0,
+      },
+      referenceIncomeN2: 0,
+      priorDeficit: {
+        amount: 0,
+        year: DEFAULT_FISCAL_YEAR - 1,
+      },
+      household: {
+        familySituation: "CELIBATAIRE" as FamilySituation,
+        dependentChildren: 0,
+        sharedCustodyChildren: 0,
+        singleParent: false,
+        taxpayerDisabled: false,
+        spouseDisabled: false,
+      },
     },
   });
 
-  const onSubmit = (values: FormData) => {
+  const { fields: revenueLineFields, append: appendRevenueLine, remove: removeRevenueLine } = useFieldArray({
+    control: form.control,
+    name: "revenueLines",
+  });
+
+  const onSubmit = (values: FiscalNavigatorFormValues) => {
     setSimulationResult(null);
     startTransition(async () => {
-      const result = await getTaxSimulation(values);
-       if (result.error && (!result.micro || !result.reel || !result.micro.taxableIncome || !result.reel.taxableIncome )) {
+      const { landSharePercent, ...furnishedRental } = values.furnishedRental;
+      const { dividendSharePercent, ...eurl } = values.eurl;
+      const { manualRatePercent, ...cfe } = values.cfe;
+      const { expensesSubjectToVatSharePercent, ...vat } = values.vat;
+      const result = await getTaxSimulation({
+        ...values,
+        acre: values.acre && !!values.creationDate,
+        furnishedRental: { ...furnishedRental, landShare: landSharePercent / 100 },
+        sasu: {
+          grossSalary: values.sasu.grossSalary,
+          dividendShare: values.sasu.dividendSharePercent / 100,
+          dividendTaxation: values.sasu.dividendTaxation,
+        },
+        eurl: { ...eurl, dividendShare: dividendSharePercent / 100 },
+        remunerationConstraint: { minRetirementQuarters: values.requireFullRetirementQuarters ? 4 : 0 },
+        deficitsCarriedForward: values.priorDeficit.amount > 0 ? [values.priorDeficit] : [],
+        cfe: { ...cfe, manualRate: cfe.communeId === MANUAL_CFE_COMMUNE ? manualRatePercent / 100 : undefined },
+        vat: { ...vat, expensesSubjectToVatShare: expensesSubjectToVatSharePercent / 100 },
+        monthlyAmounts: values.monthly.enabled
+          ? { revenue: values.monthly.revenue, expenses: values.monthly.expenses }
+          : undefined,
+        projection: values.projection.enabled
+          ? {
+            years: values.projection.years,
+            revenueGrowth: values.projection.revenueGrowthPercent / 100,
+            expenseGrowth: values.projection.expenseGrowthPercent / 100,
+          }
+          : undefined,
+      });
+       if (result.error && (!result.micro || !result.micro.taxableIncome || !(result.reel ?? result.furnishedRental)?.taxableIncome)) {
         toast({
           variant: "destructive",
           title: "Erreur de simulation",
@@ -98,10 +260,18 @@ export default function FiscalNavigatorForm() {
     return (value * 100).toFixed(1) + '%';
   }
 
-  const currentActivityType = form.watch("activityType");
+  const currentRevenueLines = form.watch("revenueLines");
+  const hasRegulatedProfession = currentRevenueLines.some((line) => line.activityType === "LIBERAL_BNC_REGLEMENTEE");
+  const hasFurnishedRental = currentRevenueLines.some((line) => isFurnishedRental(line.activityType));
+  const currentFamilySituation = form.watch("household.familySituation");
+  const currentCreationDate = form.watch("creationDate");
+  const currentPensionFund = form.watch("pensionFund");
+  const currentCfeCommune = form.watch("cfe.communeId");
+  const isCouple = currentFamilySituation === "MARIE_PACSE";
+  const canBeSingleParent = currentFamilySituation === "CELIBATAIRE" || currentFamilySituation === "DIVORCE_SEPARE";
 
   return (
-    <Card className="w-full max-w-3xl shadow-2xl">
+    <Card className="w-full max-w-5xl shadow-2xl">
       <CardHeader className="text-center">
         <div className="mx-auto bg-primary text-primary-foreground rounded-full p-3 w-fit mb-4">
           <FileText size={32} />
@@ -114,22 +284,425 @@ export default function FiscalNavigatorForm() {
       <CardContent>
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="space-y-4 rounded-md border p-4">
+              <p className="text-base font-medium flex items-center gap-2"><Activity size={18}/>Chiffre d'affaires par activité</p>
+              {revenueLineFields.map((revenueLine, index) => (
+                <div key={revenueLine.id} className="grid grid-cols-1 md:grid-cols-[1fr_14rem_auto] gap-2 items-start">
+                  <FormField
+                    control={form.control}
+                    name={`revenueLines.${index}.activityType`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className={cn(index > 0 && "sr-only")}>Type d'activité</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="text-base">
+                              <SelectValue placeholder="Sélectionnez un type d'activité" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {(Object.keys(activityTypeLabels) as ActivityType[]).map((value) => (
+                              <SelectItem key={value} value={value} className="text-base">
+                                {activityTypeLabels[value]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`revenueLines.${index}.annualRevenue`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className={cn(index > 0 && "sr-only")}>Chiffre d'affaires annuel (€)</FormLabel>
+                        <FormControl>
+                          <div className="relative">
+                            <Euro className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                            <Input
+                              type="number"
+                              placeholder="Ex: 50000"
+                              {...field}
+                              className="pl-10 text-base"
+                              step="any"
+                            />
+                          </div>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className={cn(index === 0 && "md:mt-8")}
+                    onClick={() => removeRevenueLine(index)}
+                    disabled={revenueLineFields.length === 1}
+                    aria-label="Supprimer la ligne"
+                  >
+                    <Trash2 size={16} />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => appendRevenueLine({ activityType: "VENTE_BIC", annualRevenue: '' as unknown as number })}
+              >
+                <Plus size={16} className="mr-2" /> Ajouter une activité
+              </Button>
+              <FormDescription>
+                Activité mixte (ventes et services sous le même SIRET) : une ligne par type d'activité. Chaque ligne reçoit son propre abattement et son taux de cotisations ; l'activité au chiffre d'affaires le plus élevé détermine le régime social au réel.
+              </FormDescription>
+            </div>
+            {hasRegulatedProfession && (
+              <div className="space-y-4 rounded-md border p-4">
+                <p className="text-base font-medium flex items-center gap-2"><Landmark size={18}/>Caisse de retraite</p>
+                <FormField
+                  control={form.control}
+                  name="pensionFund"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Caisse de la profession</FormLabel>
+                      <Select
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          form.setValue("pensionClasses", {});
+                        }}
+                        defaultValue={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Sélectionnez une caisse" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {REGULATED_PENSION_FUNDS.map((fund) => (
+                            <SelectItem key={fund} value={fund}>
+                              {PENSION_FUNDS[fund].label} ({PENSION_FUNDS[fund].professions})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>Utilisée au régime réel pour la retraite de base, la retraite complémentaire et l'invalidité-décès.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {(Object.keys(pensionClassLabels) as (keyof PensionFundClassChoices)[]).map((scheduleKey) => {
+                  const schedule = PENSION_FUNDS[currentPensionFund as LiberalPensionFund][scheduleKey];
+                  if (schedule.kind !== "classes" || !schedule.selectable) return null;
+                  return (
+                    <FormField
+                      key={`${currentPensionFund}-${scheduleKey}`}
+                      control={form.control}
+                      name={`pensionClasses.${scheduleKey}`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{pensionClassLabels[scheduleKey]}</FormLabel>
+                          <Select
+                            onValueChange={(value) => field.onChange(value === INCOME_BASED_CLASS ? undefined : value)}
+                            value={field.value ?? INCOME_BASED_CLASS}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value={INCOME_BASED_CLASS}>Classe selon le revenu</SelectItem>
+                              {schedule.classes.map((contributionClass) => (
+                                <SelectItem key={contributionClass.id} value={contributionClass.id}>
+                                  {contributionClass.label} ({formatCurrency(contributionClass.amount)} / an)
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormDescription>Une classe inférieure à celle correspondant au revenu n'est pas retenue.</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  );
+                })}
+              </div>
+            )}
+            {hasFurnishedRental && (
+              <div className="space-y-4 rounded-md border p-4">
+                <p className="text-base font-medium flex items-center gap-2"><Home size={18}/>Location meublée au régime réel</p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="furnishedRental.propertyValue"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Prix d'acquisition du bien, frais inclus (€)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step="any" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="furnishedRental.landSharePercent"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Part du terrain (%)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step="any" {...field} />
+                        </FormControl>
+                        <FormDescription>Non amortissable, 15% en général.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="furnishedRental.furnitureValue"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Valeur du mobilier et des équipements (€)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step="any" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="furnishedRental.loanInterest"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Intérêts d'emprunt de l'année (€)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step="any" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="furnishedRental.amortizationCarriedForward"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Amortissements non déduits des années précédentes (€)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step="any" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormDescription>
+                  Le bien (hors terrain) est amorti sur {BUILDING_AMORTIZATION_YEARS} ans et le mobilier sur {FURNITURE_AMORTIZATION_YEARS} ans. Les charges annuelles réelles saisies ci-dessous (taxe foncière, assurance, copropriété, gestion…) sont déduites en plus des intérêts d'emprunt.
+                </FormDescription>
+              </div>
+            )}
+            <div className="space-y-4 rounded-md border p-4">
+              <p className="text-base font-medium flex items-center gap-2"><Building2 size={18}/>Société à l'impôt sur les sociétés (SASU)</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="sasu.grossSalary"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Rémunération brute annuelle du président (€)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="any" {...field} />
+                      </FormControl>
+                      <FormDescription>0 pour une rémunération uniquement en dividendes.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="sasu.dividendSharePercent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Part du bénéfice après IS distribuée (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} max={100} step="any" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="sasu.dividendTaxation"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Imposition des dividendes</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {(Object.keys(dividendTaxationLabels) as DividendTaxOption[]).map((value) => (
+                            <SelectItem key={value} value={value}>
+                              {dividendTaxationLabels[value]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+            <div className="space-y-4 rounded-md border p-4">
+              <p className="text-base font-medium flex items-center gap-2"><Building size={18}/>EURL ou EI à l'impôt sur les sociétés (gérant non salarié)</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="eurl.legalForm"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Forme juridique</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {(Object.keys(legalFormLabels) as CompanyLegalForm[]).map((value) => (
+                            <SelectItem key={value} value={value}>
+                              {legalFormLabels[value]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="eurl.managerRemuneration"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Rémunération annuelle du gérant (€)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="any" {...field} />
+                      </FormControl>
+                      <FormDescription>Hors cotisations sociales, prises en charge par la société.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="eurl.dividendSharePercent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Part du bénéfice après IS distribuée (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} max={100} step="any" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="eurl.shareCapital"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Capital social et primes d'émission (€)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="any" {...field} />
+                      </FormControl>
+                      <FormDescription>Pour une EI, valeur des biens du patrimoine affecté.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="eurl.currentAccounts"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Comptes courants d'associé (€)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="any" {...field} />
+                      </FormControl>
+                      <FormDescription>Solde moyen de l'exercice.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="eurl.dividendTaxation"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Imposition des dividendes</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {(Object.keys(dividendTaxationLabels) as DividendTaxOption[]).map((value) => (
+                            <SelectItem key={value} value={value}>
+                              {dividendTaxationLabels[value]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormDescription>Les dividendes au-delà de 10% du capital et des comptes courants supportent des cotisations sociales.</FormDescription>
+            </div>
             <FormField
               control={form.control}
-              name="activityType"
+              name="requireFullRetirementQuarters"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                  </FormControl>
+                  <div className="space-y-1 leading-none">
+                    <FormLabel>Valider 4 trimestres de retraite</FormLabel>
+                    <FormDescription>Contrainte appliquée à la recherche de la répartition optimale entre rémunération et dividendes en société.</FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+            <ProjectionSettingsFields />
+            <FormField
+              control={form.control}
+              name="fiscalYear"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel className="text-base flex items-center gap-2"><Activity size={18}/>Type d'activité</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormLabel className="text-base flex items-center gap-2"><CalendarDays size={18}/>Année des revenus</FormLabel>
+                  <Select onValueChange={(value) => field.onChange(Number(value))} defaultValue={String(field.value)}>
                     <FormControl>
                       <SelectTrigger className="text-base">
-                        <SelectValue placeholder="Sélectionnez un type d'activité" />
+                        <SelectValue placeholder="Sélectionnez une année" />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      {(Object.keys(activityTypeLabels) as ActivityType[]).map((value) => (
-                        <SelectItem key={value} value={value} className="text-base">
-                          {activityTypeLabels[value]}
+                      {FISCAL_YEARS.map((year) => (
+                        <SelectItem key={year} value={String(year)} className="text-base">
+                          Revenus {year}{getFiscalParameters(year).provisional ? ' (paramètres provisoires)' : ''}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -140,22 +713,24 @@ export default function FiscalNavigatorForm() {
             />
             <FormField
               control={form.control}
-              name="annualRevenue"
+              name="previousYearRevenue"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel className="text-base">Chiffre d'affaires annuel (€)</FormLabel>
+                  <FormLabel className="text-base">Chiffre d'affaires de l'année précédente (€, facultatif)</FormLabel>
                   <FormControl>
                     <div className="relative">
                       <Euro className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-muted-foreground" />
                       <Input
                         type="number"
-                        placeholder="Ex: 50000"
+                        placeholder="Supposé sous les seuils si non renseigné"
                         {...field}
+                        value={field.value ?? ''}
                         className="pl-10 text-base"
                         step="any"
                       />
                     </div>
                   </FormControl>
+                  <FormDescription>Sert à appliquer la règle de sortie du régime micro et de la franchise de TVA après deux années de dépassement.</FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
@@ -182,6 +757,365 @@ export default function FiscalNavigatorForm() {
                 </FormItem>
               )}
             />
+            <MonthlyAmountsGrid formatCurrency={formatCurrency} />
+            <div className="space-y-4 rounded-md border p-4">
+              <p className="text-base font-medium flex items-center gap-2"><Rocket size={18}/>Création d'entreprise</p>
+              <FormField
+                control={form.control}
+                name="creationDate"
+                render={({ field }) => (
+                  <FormItem className="flex flex-col">
+                    <FormLabel>Date de création (si l'entreprise a moins de deux ans)</FormLabel>
+                    <div className="flex gap-2">
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <FormControl>
+                            <Button type="button" variant="outline" className="justify-start font-normal">
+                              <CalendarDays className="mr-2 h-4 w-4" />
+                              {field.value ? format(parseISO(field.value), 'd MMMM yyyy', { locale: fr }) : "Sélectionnez une date"}
+                            </Button>
+                          </FormControl>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-auto p-0" align="start">
+                          <Calendar
+                            mode="single"
+                            locale={fr}
+                            selected={field.value ? parseISO(field.value) : undefined}
+                            onSelect={(date) => field.onChange(date ? format(date, 'yyyy-MM-dd') : undefined)}
+                            initialFocus
+                          />
+                        </PopoverContent>
+                      </Popover>
+                      {field.value && (
+                        <Button type="button" variant="ghost" onClick={() => field.onChange(undefined)}>Effacer</Button>
+                      )}
+                    </div>
+                    <FormDescription>Le plafond du régime micro de la première année est ajusté au prorata de la durée d'activité.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {currentCreationDate && (
+                <FormField
+                  control={form.control}
+                  name="acre"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                      <FormControl>
+                        <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                      </FormControl>
+                      <div className="space-y-1 leading-none">
+                        <FormLabel>Bénéficiaire de l'ACRE</FormLabel>
+                        <FormDescription>Aide à la création ou à la reprise d'entreprise.</FormDescription>
+                      </div>
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+            <VatSettingsFields />
+            <div className="space-y-4 rounded-md border p-4">
+              <p className="text-base font-medium flex items-center gap-2"><MapPin size={18}/>Cotisation foncière des entreprises (CFE)</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="cfe.communeId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Commune</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {CFE_COMMUNES.map((commune) => (
+                            <SelectItem key={commune.id} value={commune.id}>
+                              {commune.label} ({formatPercentage(commune.rate)})
+                            </SelectItem>
+                          ))}
+                          <SelectItem value={MANUAL_CFE_COMMUNE}>Autre commune (taux saisi)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>Taux indicatifs : le taux figurant sur l'avis de CFE de votre commune prévaut.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {currentCfeCommune === MANUAL_CFE_COMMUNE && (
+                  <FormField
+                    control={form.control}
+                    name="cfe.manualRatePercent"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Taux de CFE de la commune (%)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} max={100} step="any" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                <FormField
+                  control={form.control}
+                  name="cfe.minimumBase"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Base minimum votée par la commune (€, facultatif)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="any" placeholder="Haut de la tranche si non renseignée" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormDescription>Fixée dans une fourchette qui dépend du chiffre d'affaires.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="cfe.rentalValue"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Valeur locative des locaux professionnels (€)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="any" {...field} />
+                      </FormControl>
+                      <FormDescription>0 si vous travaillez à domicile ou sans local.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+            <UrssafScheduleFields />
+            <div className="space-y-4 rounded-md border p-4">
+              <p className="text-base font-medium flex items-center gap-2"><Users size={18}/>Foyer fiscal</p>
+              <FormField
+                control={form.control}
+                name="household.familySituation"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Situation familiale</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Sélectionnez une situation familiale" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(familySituationLabels) as FamilySituation[]).map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {familySituationLabels[value]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="household.dependentChildren"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Enfants à charge</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step={1} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="household.sharedCustodyChildren"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Enfants en résidence alternée</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step={1} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              {canBeSingleParent && (
+                <FormField
+                  control={form.control}
+                  name="household.singleParent"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                      <FormControl>
+                        <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                      </FormControl>
+                      <div className="space-y-1 leading-none">
+                        <FormLabel>Parent isolé (case T)</FormLabel>
+                        <FormDescription>Vous vivez seul(e) et assumez la charge de vos enfants.</FormDescription>
+                      </div>
+                    </FormItem>
+                  )}
+                />
+              )}
+              <FormField
+                control={form.control}
+                name="household.taxpayerDisabled"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <FormLabel>Vous êtes titulaire d'une carte d'invalidité</FormLabel>
+                  </FormItem>
+                )}
+              />
+              {isCouple && (
+                <FormField
+                  control={form.control}
+                  name="household.spouseDisabled"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                      <FormControl>
+                        <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                      </FormControl>
+                      <FormLabel>Votre conjoint est titulaire d'une carte d'invalidité</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              )}
+              <FormField
+                control={form.control}
+                name="taxReductions"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Réductions d'impôt (€)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} step="any" {...field} />
+                    </FormControl>
+                    <FormDescription>Dons, frais de scolarité, investissements... (hors crédits d'impôt).</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="space-y-4 rounded-md border p-4">
+              <p className="text-base font-medium flex items-center gap-2"><Wallet size={18}/>Autres revenus du foyer</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="otherIncome.taxpayerSalaries"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Vos salaires nets imposables (€)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="any" {...field} />
+                      </FormControl>
+                      <FormDescription>Avant déduction forfaitaire de 10%.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {isCouple && (
+                  <FormField
+                    control={form.control}
+                    name="otherIncome.spouseSalaries"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Salaires nets imposables du conjoint (€)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step="any" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                <FormField
+                  control={form.control}
+                  name="otherIncome.pensions"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Pensions et retraites (€)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="any" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="otherIncome.rentalIncome"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Revenus fonciers nets (€)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="any" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="otherIncome.otherBusinessIncome"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Bénéfice imposable d'une autre activité indépendante du foyer (€)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="any" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="priorDeficit.amount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Déficits professionnels antérieurs non imputés (€)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="any" {...field} />
+                      </FormControl>
+                      <FormDescription>Reportables sur le revenu global pendant six ans, au régime réel.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="priorDeficit.year"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Année d'origine du déficit le plus ancien</FormLabel>
+                      <FormControl>
+                        <Input type="number" step={1} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="referenceIncomeN2"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Revenu fiscal de référence N-2 (€)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="any" {...field} />
+                      </FormControl>
+                      <FormDescription>Conditionne l'option pour le versement libératoire.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+            <WithholdingSettingsFields />
             <Button type="submit" className="w-full text-lg py-6" disabled={isPending}>
               {isPending ? 'Calcul en cours...' : 'Simuler'}
             </Button>
@@ -192,7 +1126,14 @@ export default function FiscalNavigatorForm() {
       {isPending && (
         <CardFooter className="flex flex-col gap-4 pt-6">
           <Skeleton className="h-8 w-1/2" />
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 w-full">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 w-full">
+            <div className="space-y-2">
+              <Skeleton className="h-6 w-3/4" />
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-5/6" />
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-2/3" />
+            </div>
             <div className="space-y-2">
               <Skeleton className="h-6 w-3/4" />
               <Skeleton className="h-4 w-full" />
@@ -212,9 +1153,12 @@ export default function FiscalNavigatorForm() {
         </CardFooter>
       )}
 
-      {simulationResult && simulationResult.micro && simulationResult.reel && !isPending && (
+      {simulationResult && simulationResult.micro && simulationResult.microLiberatoire && (simulationResult.reel || simulationResult.furnishedRental) && !isPending && (
         <CardFooter className="flex flex-col gap-6 pt-6 border-t mt-6">
-          <h3 className="text-2xl font-semibold text-center">Résultats de la simulation pour {activityTypeLabels[simulationResult.activityType || currentActivityType]}</h3>
+          <h3 className="text-2xl font-semibold text-center">Résultats de la simulation pour {simulationResult.micro.lines.length > 1
+            ? `une activité mixte (${simulationResult.micro.lines.map((line) => activityTypeLabels[line.activityType]).join(' + ')})`
+            : activityTypeLabels[simulationResult.activityType ?? getMainActivityType(currentRevenueLines)]}</h3>
+          <p className="text-sm text-muted-foreground -mt-4">Paramètres fiscaux et sociaux des revenus {simulationResult.micro.fiscalYear}</p>
 
           {simulationResult.error && (
              <Alert variant="destructive" className="w-full">
@@ -226,7 +1170,11 @@ export default function FiscalNavigatorForm() {
              </Alert>
            )}
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 w-full">
+          {simulationResult.microEligibility && (
+            <MicroThresholdGauges eligibility={simulationResult.microEligibility} formatCurrency={formatCurrency} />
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 w-full">
             {/* Régime Micro */}
             <Card className="bg-secondary/30">
               <CardHeader>
@@ -235,53 +1183,420 @@ export default function FiscalNavigatorForm() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-2 text-sm">
-                <p>Chiffre d'affaires: <span className="font-semibold">{formatCurrency(form.getValues('annualRevenue'))}</span></p>
+                {simulationResult.microEligibility && !simulationResult.microEligibility.eligible && (
+                  <p className="text-sm font-semibold text-destructive">Régime non accessible pour ce chiffre d'affaires : résultats donnés à titre de comparaison.</p>
+                )}
+                <p>Chiffre d'affaires: <span className="font-semibold">{formatCurrency(simulationResult.micro.revenue)}</span></p>
+                {simulationResult.micro.lines.length > 1 && (
+                  <MicroRevenueLinesBreakdown lines={simulationResult.micro.lines} activityTypeLabels={activityTypeLabels} formatCurrency={formatCurrency} formatPercentage={formatPercentage} />
+                )}
                 <Separator className="my-1" />
                 <p className="font-medium text-primary-focus">Impôt sur le revenu :</p>
+                <p>Nombre de parts fiscales: <span className="font-semibold">{simulationResult.micro.fiscalParts}</span></p>
                 <p>Abattement forfaitaire ({formatPercentage(simulationResult.micro.allowanceRate)}, min. 305€): <span className="font-semibold">{formatCurrency(simulationResult.micro.allowanceApplied)}</span></p>
                 <p>Revenu imposable: <span className="font-semibold">{formatCurrency(simulationResult.micro.taxableIncome)}</span></p>
-                <p>Montant de l'impôt: <strong className="text-accent-foreground">{formatCurrency(simulationResult.micro.taxAmount)}</strong></p>
+                <IncomeTaxBreakdown details={simulationResult.micro.incomeTaxDetails} formatCurrency={formatCurrency} />
+                {simulationResult.micro.otherTaxableIncome > 0 && (
+                  <p className="text-xs text-muted-foreground">Impôt du foyer sans l'activité: {formatCurrency(simulationResult.micro.householdTaxWithoutActivity)} (autres revenus imposables: {formatCurrency(simulationResult.micro.otherTaxableIncome)})</p>
+                )}
+                <p>Impôt imputable à l'activité: <strong className="text-accent-foreground">{formatCurrency(simulationResult.micro.taxAmount)}</strong></p>
                 <Separator className="my-2" />
                 <p className="font-medium text-primary-focus flex items-center gap-1"><Briefcase size={16}/> Cotisations URSSAF (estimations) :</p>
                 <p>Cotisations sociales ({formatPercentage(simulationResult.micro.urssafSocialContributionsRate)}): <span className="font-semibold">{formatCurrency(simulationResult.micro.urssafSocialContributions)}</span></p>
                 <p>CFP ({formatPercentage(simulationResult.micro.cfpRate)}): <span className="font-semibold">{formatCurrency(simulationResult.micro.cfpContribution)}</span></p>
+                {simulationResult.micro.acreReduction > 0 && (
+                  <p>dont réduction ACRE ({formatPercentage(simulationResult.micro.acreShareOfRevenue)} du CA concerné): <span className="font-semibold">-{formatCurrency(simulationResult.micro.acreReduction)}</span></p>
+                )}
                 <p>Total cotisations URSSAF: <strong className="text-accent-foreground">{formatCurrency(simulationResult.micro.totalUrssafContributions)}</strong></p>
+                {simulationResult.micro.rentalSocialLevies > 0 && (
+                  <p>Prélèvements sociaux de la location meublée non professionnelle: <strong className="text-accent-foreground">{formatCurrency(simulationResult.micro.rentalSocialLevies)}</strong></p>
+                )}
+                <CfeBreakdown cfe={simulationResult.micro.cfe} label="CFE (non déductible)" formatCurrency={formatCurrency} formatPercentage={formatPercentage} />
                 <Separator className="my-2" />
-                <p className="text-base font-semibold">Revenu net perçu (après impôt, cotisations et charges réelles):</p>
+                <p className="text-base font-semibold">Revenu net perçu (après impôt, cotisations, CFE et charges réelles):</p>
                 <p className="text-lg font-bold text-primary">{formatCurrency(simulationResult.micro.netIncomeAfterAll)}</p>
                 <p className="text-sm text-muted-foreground italic flex items-center gap-1"><CalendarDays size={14}/>Soit env. {formatCurrency(simulationResult.micro.netIncomeAfterAll / 12)} / mois</p>
+                <RegimeSocialRights retirement={simulationResult.retirement?.micro} socialProtection={simulationResult.socialProtection?.micro} formatCurrency={formatCurrency} />
               </CardContent>
             </Card>
 
-            {/* Régime Réel */}
+            {/* Régime Micro avec versement libératoire */}
             <Card className="bg-secondary/30">
               <CardHeader>
                 <CardTitle className="flex items-center gap-2 text-xl text-primary">
-                  <TrendingDown size={24} /> Régime Réel Simplifié
+                  <Percent size={24} /> Micro avec versement libératoire
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-2 text-sm">
-                <p>Chiffre d'affaires: <span className="font-semibold">{formatCurrency(form.getValues('annualRevenue'))}</span></p>
-                <p>Charges annuelles réelles: <span className="font-semibold">{formatCurrency(form.getValues('annualExpenses'))}</span></p>
-                 <Separator className="my-1" />
+                {simulationResult.microEligibility && !simulationResult.microEligibility.eligible && (
+                  <p className="text-sm font-semibold text-destructive">Régime non accessible pour ce chiffre d'affaires : résultats donnés à titre de comparaison.</p>
+                )}
+                {!simulationResult.microLiberatoire.eligible && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>Option non accessible</AlertTitle>
+                    <AlertDescription>
+                      {simulationResult.microLiberatoire.nonProfessionalRental
+                        ? "Le versement libératoire est réservé aux micro-entrepreneurs : la location meublée non professionnelle ne peut pas y opter."
+                        : <>Votre revenu fiscal de référence N-2 ({formatCurrency(simulationResult.microLiberatoire.referenceIncomeN2)}) dépasse le plafond de {formatCurrency(simulationResult.microLiberatoire.referenceIncomeLimit)} pour {simulationResult.microLiberatoire.fiscalParts} parts.</>}
+                    </AlertDescription>
+                  </Alert>
+                )}
+                <p>Chiffre d'affaires: <span className="font-semibold">{formatCurrency(simulationResult.microLiberatoire.revenue)}</span></p>
+                {simulationResult.microLiberatoire.lines.length > 1 && (
+                  <MicroRevenueLinesBreakdown lines={simulationResult.microLiberatoire.lines} activityTypeLabels={activityTypeLabels} formatCurrency={formatCurrency} formatPercentage={formatPercentage} />
+                )}
+                <Separator className="my-1" />
                 <p className="font-medium text-primary-focus">Impôt sur le revenu :</p>
-                <p>Bénéfice imposable (base IR, après cotisations sociales estimées): <span className="font-semibold">{formatCurrency(simulationResult.reel.taxableIncome)}</span></p>
-                <p>Montant de l'impôt: <strong className="text-accent-foreground">{formatCurrency(simulationResult.reel.taxAmount)}</strong></p>
+                <p>Versement libératoire ({formatPercentage(simulationResult.microLiberatoire.versementLiberatoireRate)} du CA): <span className="font-semibold">{formatCurrency(simulationResult.microLiberatoire.versementLiberatoire)}</span></p>
+                <p>Revenu retenu pour le taux effectif: <span className="font-semibold">{formatCurrency(simulationResult.microLiberatoire.effectiveRateIncome)}</span></p>
+                <p>Impôt supplémentaire sur les autres revenus (taux effectif): <span className="font-semibold">{formatCurrency(simulationResult.microLiberatoire.effectiveRateTaxIncrease)}</span></p>
+                <p>Montant de l'impôt: <strong className="text-accent-foreground">{formatCurrency(simulationResult.microLiberatoire.taxAmount)}</strong></p>
                 <Separator className="my-2" />
-                <p className="font-medium text-primary-focus flex items-center gap-1"><Briefcase size={16}/> Cotisations Sociales (estimation) :</p>
-                <p>Taux estimé sur bénéfice (après déduction des cotisations): <span className="font-semibold">{formatPercentage(simulationResult.reel.estimatedSocialContributionsRate)}</span></p>
-                <p>Montant estimé des cotisations: <strong className="text-accent-foreground">{formatCurrency(simulationResult.reel.estimatedSocialContributions)}</strong></p>
+                <p className="font-medium text-primary-focus flex items-center gap-1"><Briefcase size={16}/> Cotisations URSSAF (estimations) :</p>
+                <p>Cotisations sociales ({formatPercentage(simulationResult.microLiberatoire.urssafSocialContributionsRate)}): <span className="font-semibold">{formatCurrency(simulationResult.microLiberatoire.urssafSocialContributions)}</span></p>
+                <p>CFP ({formatPercentage(simulationResult.microLiberatoire.cfpRate)}): <span className="font-semibold">{formatCurrency(simulationResult.microLiberatoire.cfpContribution)}</span></p>
+                {simulationResult.microLiberatoire.acreReduction > 0 && (
+                  <p>dont réduction ACRE ({formatPercentage(simulationResult.microLiberatoire.acreShareOfRevenue)} du CA concerné): <span className="font-semibold">-{formatCurrency(simulationResult.microLiberatoire.acreReduction)}</span></p>
+                )}
+                <p>Total cotisations URSSAF: <strong className="text-accent-foreground">{formatCurrency(simulationResult.microLiberatoire.totalUrssafContributions)}</strong></p>
+                <CfeBreakdown cfe={simulationResult.microLiberatoire.cfe} label="CFE (non déductible)" formatCurrency={formatCurrency} formatPercentage={formatPercentage} />
                 <Separator className="my-2" />
-                <p className="text-base font-semibold">Revenu net perçu (après impôt et estimation cotisations):</p>
-                <p className="text-lg font-bold text-primary">{formatCurrency(simulationResult.reel.netIncomeAfterAllContributions)}</p>
-                <p className="text-sm text-muted-foreground italic flex items-center gap-1"><CalendarDays size={14}/>Soit env. {formatCurrency(simulationResult.reel.netIncomeAfterAllContributions / 12)} / mois</p>
-                 <p className="text-xs text-muted-foreground italic mt-2">
-                  Les cotisations sociales au régime réel sont complexes et peuvent varier considérablement (ACRE, type d'activité, caisse de retraite, etc.). Le montant ci-dessus est une estimation grossière (environ {formatPercentage(simulationResult.reel.estimatedSocialContributionsRate)} du bénéfice après déduction de ces mêmes cotisations) et ne remplace pas une simulation personnalisée.
-                </p>
+                <p className="text-base font-semibold">Revenu net perçu (après versement libératoire, cotisations, CFE et charges réelles):</p>
+                <p className="text-lg font-bold text-primary">{formatCurrency(simulationResult.microLiberatoire.netIncomeAfterAll)}</p>
+                <p className="text-sm text-muted-foreground italic flex items-center gap-1"><CalendarDays size={14}/>Soit env. {formatCurrency(simulationResult.microLiberatoire.netIncomeAfterAll / 12)} / mois</p>
+                <RegimeSocialRights retirement={simulationResult.retirement?.micro} socialProtection={simulationResult.socialProtection?.micro} formatCurrency={formatCurrency} />
               </CardContent>
             </Card>
+
+            {/* Régime Réel */}
+            {simulationResult.furnishedRental ? (
+              <Card className="bg-secondary/30">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-xl text-primary">
+                    <Home size={24} /> Location meublée au réel
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  <p>Loyers encaissés: <span className="font-semibold">{formatCurrency(simulationResult.furnishedRental.revenue)}</span></p>
+                  <p>Charges déductibles: <span className="font-semibold">{formatCurrency(simulationResult.furnishedRental.charges)}</span></p>
+                  <p>Intérêts d'emprunt: <span className="font-semibold">{formatCurrency(simulationResult.furnishedRental.loanInterest)}</span></p>
+                  {simulationResult.furnishedRental.cfe.amount > 0 && (
+                    <p>CFE: <span className="font-semibold">{formatCurrency(simulationResult.furnishedRental.cfe.amount)}</span></p>
+                  )}
+                  <p>Résultat avant amortissements: <span className="font-semibold">{formatCurrency(simulationResult.furnishedRental.resultBeforeAmortization)}</span></p>
+                  <Separator className="my-1" />
+                  <p className="font-medium text-primary-focus">Amortissements :</p>
+                  <div className="space-y-1 border-l-2 border-muted pl-3 text-xs text-muted-foreground">
+                    <p>Bien hors terrain ({BUILDING_AMORTIZATION_YEARS} ans): <span className="font-semibold">{formatCurrency(simulationResult.furnishedRental.buildingAmortization)}</span></p>
+                    <p>Mobilier ({FURNITURE_AMORTIZATION_YEARS} ans): <span className="font-semibold">{formatCurrency(simulationResult.furnishedRental.furnitureAmortization)}</span></p>
+                    <p>Disponibles, reports compris: <span className="font-semibold">{formatCurrency(simulationResult.furnishedRental.amortizationAvailable)}</span></p>
+                  </div>
+                  <p>Amortissements déduits: <span className="font-semibold">{formatCurrency(simulationResult.furnishedRental.amortizationDeducted)}</span></p>
+                  {simulationResult.furnishedRental.amortizationCarriedForward > 0 && (
+                    <p className="text-xs text-muted-foreground">Amortissements non déduits, reportés sur les années suivantes: {formatCurrency(simulationResult.furnishedRental.amortizationCarriedForward)}</p>
+                  )}
+                  {simulationResult.furnishedRental.deficit > 0 && (
+                    <p className="text-xs text-destructive flex items-start gap-1">
+                      <AlertTriangle size={14} className="mt-0.5 shrink-0"/>
+                      Déficit de {formatCurrency(simulationResult.furnishedRental.deficit)} : imputable uniquement sur les revenus de location meublée des dix années suivantes.
+                    </p>
+                  )}
+                  <Separator className="my-1" />
+                  <p className="font-medium text-primary-focus">Impôt sur le revenu :</p>
+                  <p>Nombre de parts fiscales: <span className="font-semibold">{simulationResult.furnishedRental.fiscalParts}</span></p>
+                  <p>Revenu imposable: <span className="font-semibold">{formatCurrency(simulationResult.furnishedRental.taxableIncome)}</span></p>
+                  <IncomeTaxBreakdown details={simulationResult.furnishedRental.incomeTaxDetails} formatCurrency={formatCurrency} />
+                  {simulationResult.furnishedRental.otherTaxableIncome > 0 && (
+                    <p className="text-xs text-muted-foreground">Impôt du foyer sans l'activité: {formatCurrency(simulationResult.furnishedRental.householdTaxWithoutActivity)} (autres revenus imposables: {formatCurrency(simulationResult.furnishedRental.otherTaxableIncome)})</p>
+                  )}
+                  <p>Impôt imputable à l'activité: <strong className="text-accent-foreground">{formatCurrency(simulationResult.furnishedRental.taxAmount)}</strong></p>
+                  <Separator className="my-2" />
+                  {simulationResult.furnishedRental.nonProfessionalRental ? (
+                    <>
+                      <p className="font-medium text-primary-focus flex items-center gap-1"><Briefcase size={16}/> Prélèvements sociaux (LMNP) :</p>
+                      <p>Prélèvements sociaux ({formatPercentage(simulationResult.furnishedRental.socialLevyRate)} du revenu imposable): <strong className="text-accent-foreground">{formatCurrency(simulationResult.furnishedRental.socialLevies)}</strong></p>
+                    </>
+                  ) : (
+                    <>
+                      <p className="font-medium text-primary-focus flex items-center gap-1"><Briefcase size={16}/> Cotisations Sociales (SSI) :</p>
+                      <SocialContributionsBreakdown lines={simulationResult.furnishedRental.socialContributions} formatCurrency={formatCurrency} formatPercentage={formatPercentage} />
+                      <p>Total des cotisations: <strong className="text-accent-foreground">{formatCurrency(simulationResult.furnishedRental.totalSocialContributions)}</strong></p>
+                    </>
+                  )}
+                  <Separator className="my-2" />
+                  <p className="text-base font-semibold">Revenu net perçu (après charges, intérêts, impôt et prélèvements):</p>
+                  <p className="text-lg font-bold text-primary">{formatCurrency(simulationResult.furnishedRental.netIncomeAfterAll)}</p>
+                  <p className="text-sm text-muted-foreground italic flex items-center gap-1"><CalendarDays size={14}/>Soit env. {formatCurrency(simulationResult.furnishedRental.netIncomeAfterAll / 12)} / mois</p>
+                  <RegimeSocialRights retirement={simulationResult.retirement?.reel} socialProtection={simulationResult.socialProtection?.reel} formatCurrency={formatCurrency} />
+                  <p className="text-xs text-muted-foreground italic mt-2">
+                    Les amortissements réduisent l'impôt sans sortie de trésorerie ; ils ne peuvent pas créer de déficit et le surplus est reporté sans limite de durée. Depuis 2025, les amortissements déduits sont réintégrés dans le calcul de la plus-value en cas de revente.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : simulationResult.reel && (
+              <Card className="bg-secondary/30">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-xl text-primary">
+                    <TrendingDown size={24} /> Régime Réel Simplifié
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  <p>Chiffre d'affaires: <span className="font-semibold">{formatCurrency(simulationResult.micro.revenue)}</span></p>
+                  {simulationResult.micro.lines.length > 1 && simulationResult.activityType && (
+                    <p className="text-xs text-muted-foreground">Activité principale (régime social): {activityTypeLabels[simulationResult.activityType]}</p>
+                  )}
+                  <p>Charges annuelles réelles{simulationResult.vat && simulationResult.vat.actual.vatDeductible > 0 ? " (TVA déduite)" : ""}: <span className="font-semibold">{formatCurrency(simulationResult.vat?.expenses ?? form.getValues('annualExpenses'))}</span></p>
+                  <CfeBreakdown cfe={simulationResult.reel.cfe} label="CFE (déductible)" formatCurrency={formatCurrency} formatPercentage={formatPercentage} />
+                  <p>Bénéfice avant cotisations: <span className="font-semibold">{formatCurrency(simulationResult.reel.profitBeforeContributions)}</span></p>
+                   <Separator className="my-1" />
+                  <p className="font-medium text-primary-focus">Impôt sur le revenu :</p>
+                  <p>Nombre de parts fiscales: <span className="font-semibold">{simulationResult.reel.fiscalParts}</span></p>
+                  <p>Bénéfice imposable (revenu professionnel + CSG non déductible et CRDS): <span className="font-semibold">{formatCurrency(simulationResult.reel.taxableIncome)}</span></p>
+                  <IncomeTaxBreakdown details={simulationResult.reel.incomeTaxDetails} formatCurrency={formatCurrency} />
+                  {simulationResult.reel.otherTaxableIncome > 0 && (
+                    <p className="text-xs text-muted-foreground">Impôt du foyer sans l'activité: {formatCurrency(simulationResult.reel.householdTaxWithoutActivity)} (autres revenus imposables: {formatCurrency(simulationResult.reel.otherTaxableIncome)})</p>
+                  )}
+                  <DeficitsBreakdown deficits={simulationResult.reel.deficits} formatCurrency={formatCurrency} />
+                  <p>Impôt imputable à l'activité: <strong className="text-accent-foreground">{formatCurrency(simulationResult.reel.taxAmount)}</strong></p>
+                  {simulationResult.reel.deficitTaxSaving > 0 && (
+                    <p>dont économie d'impôt liée aux déficits: <span className="font-semibold">-{formatCurrency(simulationResult.reel.deficitTaxSaving)}</span></p>
+                  )}
+                  <Separator className="my-2" />
+                  <p className="font-medium text-primary-focus flex items-center gap-1"><Briefcase size={16}/> Cotisations Sociales (SSI) :</p>
+                  {simulationResult.reel.pensionFund && (
+                    <p>Caisse de retraite: <span className="font-semibold">{PENSION_FUNDS[simulationResult.reel.pensionFund].label}</span></p>
+                  )}
+                  <p>Revenu professionnel (bénéfice après cotisations déductibles): <span className="font-semibold">{formatCurrency(simulationResult.reel.professionalIncome)}</span></p>
+                  <SocialContributionsBreakdown lines={simulationResult.reel.socialContributions} formatCurrency={formatCurrency} formatPercentage={formatPercentage} />
+                  <p>Total des cotisations: <strong className="text-accent-foreground">{formatCurrency(simulationResult.reel.totalSocialContributions)}</strong></p>
+                  {simulationResult.reel.minimumContributionsApplied && (
+                    <p className="text-xs text-destructive flex items-start gap-1">
+                      <AlertTriangle size={14} className="mt-0.5 shrink-0"/>
+                      Bénéfice inférieur aux assiettes minimales : des cotisations minimales sont dues, même en cas de perte.
+                    </p>
+                  )}
+                  {simulationResult.reel.acreExemption > 0 && (
+                    <p>dont exonération ACRE déduite: <span className="font-semibold">-{formatCurrency(simulationResult.reel.acreExemption)}</span></p>
+                  )}
+                  <Separator className="my-2" />
+                  <p className="text-base font-semibold">Revenu net perçu (après impôt et cotisations):</p>
+                  <p className="text-lg font-bold text-primary">{formatCurrency(simulationResult.reel.netIncomeAfterAllContributions)}</p>
+                  <p className="text-sm text-muted-foreground italic flex items-center gap-1"><CalendarDays size={14}/>Soit env. {formatCurrency(simulationResult.reel.netIncomeAfterAllContributions / 12)} / mois</p>
+                  <RegimeSocialRights retirement={simulationResult.retirement?.reel} socialProtection={simulationResult.socialProtection?.reel} formatCurrency={formatCurrency} />
+                   <p className="text-xs text-muted-foreground italic mt-2">
+                    Les cotisations sont calculées sur le revenu professionnel de l'année, aux taux de la Sécurité sociale des indépendants (ou aux barèmes de la caisse de retraite pour les professions réglementées) et selon le PASS de l'année. En pratique, elles sont appelées à titre provisionnel puis régularisées l'année suivante.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* SASU */}
+            {simulationResult.sasu && (
+              <Card className="bg-secondary/30">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-xl text-primary">
+                    <Building2 size={24} /> SASU à l'IS
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  <p>Bénéfice avant rémunération: <span className="font-semibold">{formatCurrency(simulationResult.sasu.profitBeforeRemuneration)}</span></p>
+                  <Separator className="my-1" />
+                  <p className="font-medium text-primary-focus flex items-center gap-1"><Briefcase size={16}/> Rémunération du président (assimilé salarié) :</p>
+                  <p>Salaire brut: <span className="font-semibold">{formatCurrency(simulationResult.sasu.grossSalary)}</span></p>
+                  <PayrollContributionsBreakdown lines={simulationResult.sasu.payrollContributions} formatCurrency={formatCurrency} />
+                  <p>Cotisations salariales: <span className="font-semibold">{formatCurrency(simulationResult.sasu.employeeContributions)}</span> ; patronales: <span className="font-semibold">{formatCurrency(simulationResult.sasu.employerContributions)}</span></p>
+                  {simulationResult.sasu.acreExemption > 0 && (
+                    <p>dont exonération ACRE déduite: <span className="font-semibold">-{formatCurrency(simulationResult.sasu.acreExemption)}</span></p>
+                  )}
+                  <p>Coût total pour la société: <span className="font-semibold">{formatCurrency(simulationResult.sasu.employerCost)}</span></p>
+                  <p>Salaire net: <strong className="text-accent-foreground">{formatCurrency(simulationResult.sasu.netSalary)}</strong></p>
+                  <Separator className="my-1" />
+                  <p className="font-medium text-primary-focus">Impôt sur les sociétés :</p>
+                  <p>Résultat de la société: <span className="font-semibold">{formatCurrency(simulationResult.sasu.companyProfit)}</span></p>
+                  {simulationResult.sasu.companyProfit < 0 && (
+                    <p className="text-xs text-destructive flex items-start gap-1">
+                      <AlertTriangle size={14} className="mt-0.5 shrink-0"/>
+                      La rémunération dépasse le bénéfice : la société est en perte.
+                    </p>
+                  )}
+                  <div className="space-y-1 border-l-2 border-muted pl-3 text-xs text-muted-foreground">
+                    <p>Taux réduit de 15%: <span className="font-semibold">{formatCurrency(simulationResult.sasu.corporateTax.reducedRateBase)}</span></p>
+                    <p>Taux normal de 25%: <span className="font-semibold">{formatCurrency(simulationResult.sasu.corporateTax.normalRateBase)}</span></p>
+                  </div>
+                  <p>IS: <strong className="text-accent-foreground">{formatCurrency(simulationResult.sasu.corporateTax.amount)}</strong></p>
+                  <Separator className="my-1" />
+                  <p className="font-medium text-primary-focus">Dividendes :</p>
+                  <p>Dividendes distribués: <span className="font-semibold">{formatCurrency(simulationResult.sasu.dividends)}</span></p>
+                  <p>{dividendTaxationLabels[simulationResult.sasu.dividendTaxation]}: <span className="font-semibold">{formatCurrency(simulationResult.sasu.dividendIncomeTax)}</span> d'impôt et <span className="font-semibold">{formatCurrency(simulationResult.sasu.dividendSocialLevies)}</span> de prélèvements sociaux</p>
+                  {simulationResult.sasu.dividendTaxation === "BAREME" && (
+                    <p className="text-xs text-muted-foreground">Dividendes ajoutés au revenu imposable (après abattement et CSG déductible): {formatCurrency(simulationResult.sasu.dividendTaxableIncome)}</p>
+                  )}
+                  {simulationResult.sasu.retainedEarnings > 0 && (
+                    <p className="text-xs text-muted-foreground">Bénéfice conservé dans la société: {formatCurrency(simulationResult.sasu.retainedEarnings)}</p>
+                  )}
+                  <Separator className="my-1" />
+                  <p className="font-medium text-primary-focus">Impôt sur le revenu :</p>
+                  <p>Salaire imposable (après déduction de 10%): <span className="font-semibold">{formatCurrency(simulationResult.sasu.salaryTaxableIncome)}</span></p>
+                  <IncomeTaxBreakdown details={simulationResult.sasu.incomeTaxDetails} formatCurrency={formatCurrency} />
+                  <p>Impôt imputable au salaire: <strong className="text-accent-foreground">{formatCurrency(simulationResult.sasu.taxAmount)}</strong></p>
+                  {simulationResult.sasuOptimization && (
+                    <>
+                      <Separator className="my-1" />
+                      <p className="font-medium text-primary-focus">Répartition optimale salaire / dividendes :</p>
+                      <RemunerationSplitChart optimization={simulationResult.sasuOptimization} remunerationLabel="Salaire brut" formatCurrency={formatCurrency} />
+                    </>
+                  )}
+                  <Separator className="my-2" />
+                  <p className="text-base font-semibold">Revenu net perçu (salaire net et dividendes, après impôts):</p>
+                  <p className="text-lg font-bold text-primary">{formatCurrency(simulationResult.sasu.netIncomeAfterAll)}</p>
+                  <p className="text-sm text-muted-foreground italic flex items-center gap-1"><CalendarDays size={14}/>Soit env. {formatCurrency(simulationResult.sasu.netIncomeAfterAll / 12)} / mois</p>
+                  <RegimeSocialRights retirement={simulationResult.retirement?.sasu} socialProtection={simulationResult.socialProtection?.sasu} formatCurrency={formatCurrency} />
+                  <p className="text-xs text-muted-foreground italic mt-2">
+                    Les dividendes ne supportent pas de cotisations sociales mais ne valident aucun droit à la retraite. Frais de constitution et de tenue comptable non compris.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* EURL / EI à l'IS */}
+            {simulationResult.eurl && (
+              <Card className="bg-secondary/30">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-xl text-primary">
+                    <Building size={24} /> {legalFormLabels[simulationResult.eurl.legalForm]}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  <p>Bénéfice avant rémunération: <span className="font-semibold">{formatCurrency(simulationResult.eurl.profitBeforeRemuneration)}</span></p>
+                  <Separator className="my-1" />
+                  <p className="font-medium text-primary-focus flex items-center gap-1"><Briefcase size={16}/> Rémunération du gérant (SSI) :</p>
+                  <p>Rémunération: <span className="font-semibold">{formatCurrency(simulationResult.eurl.managerRemuneration)}</span></p>
+                  <p>Cotisations sur la rémunération, payées par la société: <span className="font-semibold">{formatCurrency(simulationResult.eurl.remunerationContributions)}</span></p>
+                  {simulationResult.eurl.minimumContributionsApplied && (
+                    <p className="text-xs text-destructive flex items-start gap-1">
+                      <AlertTriangle size={14} className="mt-0.5 shrink-0"/>
+                      Rémunération inférieure aux assiettes minimales : des cotisations minimales sont dues.
+                    </p>
+                  )}
+                  {simulationResult.eurl.acreExemption > 0 && (
+                    <p>dont exonération ACRE déduite: <span className="font-semibold">-{formatCurrency(simulationResult.eurl.acreExemption)}</span></p>
+                  )}
+                  <Separator className="my-1" />
+                  <p className="font-medium text-primary-focus">Impôt sur les sociétés :</p>
+                  <p>Résultat de la société: <span className="font-semibold">{formatCurrency(simulationResult.eurl.companyProfit)}</span></p>
+                  {simulationResult.eurl.companyProfit < 0 && (
+                    <p className="text-xs text-destructive flex items-start gap-1">
+                      <AlertTriangle size={14} className="mt-0.5 shrink-0"/>
+                      La rémunération et ses cotisations dépassent le bénéfice : la société est en perte.
+                    </p>
+                  )}
+                  <p>IS: <strong className="text-accent-foreground">{formatCurrency(simulationResult.eurl.corporateTax.amount)}</strong></p>
+                  <Separator className="my-1" />
+                  <p className="font-medium text-primary-focus">Dividendes :</p>
+                  <p>Dividendes distribués: <span className="font-semibold">{formatCurrency(simulationResult.eurl.dividends)}</span></p>
+                  <div className="space-y-1 border-l-2 border-muted pl-3 text-xs text-muted-foreground">
+                    <p>Seuil de 10% (capital et comptes courants): <span className="font-semibold">{formatCurrency(simulationResult.eurl.dividendSocialThreshold)}</span></p>
+                    <p>Part soumise aux cotisations sociales: <span className="font-semibold">{formatCurrency(simulationResult.eurl.dividendsSubjectToContributions)}</span></p>
+                    <p>Cotisations SSI sur cette part: <span className="font-semibold">{formatCurrency(simulationResult.eurl.dividendContributions)}</span></p>
+                    <p>Prélèvements sociaux sur le reste: <span className="font-semibold">{formatCurrency(simulationResult.eurl.dividendSocialLevies)}</span></p>
+                    <p>{simulationResult.eurl.dividendTaxation === "BAREME" ? "Impôt au barème sur les dividendes" : "Prélèvement forfaitaire unique (impôt)"}: <span className="font-semibold">{formatCurrency(simulationResult.eurl.dividendIncomeTax)}</span></p>
+                    {simulationResult.eurl.dividendTaxation === "BAREME" && (
+                      <p>Dividendes ajoutés au revenu imposable (après abattement et CSG déductible): <span className="font-semibold">{formatCurrency(simulationResult.eurl.dividendTaxableIncome)}</span></p>
+                    )}
+                  </div>
+                  {simulationResult.eurl.retainedEarnings > 0 && (
+                    <p className="text-xs text-muted-foreground">Bénéfice conservé dans la société: {formatCurrency(simulationResult.eurl.retainedEarnings)}</p>
+                  )}
+                  <p className="font-medium text-primary-focus">Cotisations sociales du gérant (rémunération et dividendes) :</p>
+                  <SocialContributionsBreakdown lines={simulationResult.eurl.socialContributions} formatCurrency={formatCurrency} formatPercentage={formatPercentage} />
+                  <Separator className="my-1" />
+                  <p className="font-medium text-primary-focus">Impôt sur le revenu :</p>
+                  <p>Rémunération imposable (après déduction de 10%): <span className="font-semibold">{formatCurrency(simulationResult.eurl.remunerationTaxableIncome)}</span></p>
+                  <IncomeTaxBreakdown details={simulationResult.eurl.incomeTaxDetails} formatCurrency={formatCurrency} />
+                  <p>Impôt imputable à la rémunération: <strong className="text-accent-foreground">{formatCurrency(simulationResult.eurl.taxAmount)}</strong></p>
+                  {simulationResult.eurlOptimization && (
+                    <>
+                      <Separator className="my-1" />
+                      <p className="font-medium text-primary-focus">Répartition optimale rémunération / dividendes :</p>
+                      <RemunerationSplitChart optimization={simulationResult.eurlOptimization} remunerationLabel="Rémunération du gérant" formatCurrency={formatCurrency} />
+                    </>
+                  )}
+                  <Separator className="my-2" />
+                  <p className="text-base font-semibold">Revenu net perçu (rémunération et dividendes, après impôts et cotisations):</p>
+                  <p className="text-lg font-bold text-primary">{formatCurrency(simulationResult.eurl.netIncomeAfterAll)}</p>
+                  <p className="text-sm text-muted-foreground italic flex items-center gap-1"><CalendarDays size={14}/>Soit env. {formatCurrency(simulationResult.eurl.netIncomeAfterAll / 12)} / mois</p>
+                  <RegimeSocialRights retirement={simulationResult.retirement?.eurl} socialProtection={simulationResult.socialProtection?.eurl} formatCurrency={formatCurrency} />
+                </CardContent>
+              </Card>
+            )}
           </div>
 
+          {simulationResult.vat && (
+            <Card className="mt-4 bg-secondary/30">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-xl text-primary">
+                  <BadgePercent size={24} /> TVA
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <VatSummary vat={simulationResult.vat} formatCurrency={formatCurrency} formatPercentage={formatPercentage} />
+              </CardContent>
+            </Card>
+          )}
+
+          {simulationResult.withholding && (
+            <Card className="mt-4 bg-secondary/30">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-xl text-primary">
+                  <CalendarClock size={24} /> Prélèvement à la source
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <WithholdingScheduleTable withholding={simulationResult.withholding} formatCurrency={formatCurrency} formatPercentage={formatPercentage} />
+              </CardContent>
+            </Card>
+          )}
+
+          {simulationResult.urssafCashFlow && (
+            <Card className="mt-4 bg-secondary/30">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-xl text-primary">
+                  <CalendarRange size={24} /> Échéancier des cotisations URSSAF
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <UrssafCashFlow cashFlow={simulationResult.urssafCashFlow} formatCurrency={formatCurrency} />
+              </CardContent>
+            </Card>
+          )}
+
+          {simulationResult.breakEven && (
+            <Card className="mt-4 bg-secondary/30">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-xl text-primary">
+                  <Scale size={24} /> Point mort micro / réel
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <BreakEvenChart breakEven={simulationResult.breakEven} formatCurrency={formatCurrency} />
+              </CardContent>
+            </Card>
+          )}
+
+          {simulationResult.projection && (
+            <Card className="mt-4 bg-secondary/30">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-xl text-primary">
+                  <TrendingUp size={24} /> Projection sur {simulationResult.projection.assumptions.years} ans
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ProjectionTable projection={simulationResult.projection} formatCurrency={formatCurrency} />
+              </CardContent>
+            </Card>
+          )}
+
           {simulationResult.aiRecommendation && (
             <Alert className="w-full mt-4 border-accent bg-accent/10">
               <Sparkles className="h-5 w-5 text-accent" />
@@ -295,7 +1610,9 @@ export default function FiscalNavigatorForm() {
             <Info className="h-4 w-4" />
             <AlertTitle>Avertissement</AlertTitle>
             <AlertDescription>
-              Cette simulation est fournie à titre indicatif et ne constitue pas un conseil fiscal ou social. Les calculs d'impôt sur le revenu sont basés sur le barème 2024 pour les revenus 2023 (1 part fiscale). Les cotisations URSSAF en micro-entreprise sont des estimations basées sur les taux standards. Les cotisations au régime réel sont une estimation grossière. Consultez un professionnel pour une analyse personnalisée.
+              Cette simulation est fournie à titre indicatif et ne constitue pas un conseil fiscal ou social. Les calculs d'impôt sur le revenu sont basés sur le barème applicable aux revenus {simulationResult.micro.fiscalYear}, calculés sur l'ensemble des revenus du foyer (seule la hausse d'impôt due à l'activité lui est imputée), avec application du quotient familial et de son plafonnement, de la décote, des réductions d'impôt et de la contribution exceptionnelle sur les hauts revenus.
+              {getFiscalParameters(simulationResult.micro.fiscalYear).provisional && " Le barème de cette année n'étant pas encore définitivement voté, il est estimé par revalorisation de celui de l'année précédente."}
+              {" "}Le versement libératoire suppose un revenu fiscal de référence N-2 inférieur au plafond légal. Les cotisations URSSAF en micro-entreprise sont des estimations basées sur les taux standards de l'année sélectionnée. Les cotisations au régime réel sont calculées aux taux de la Sécurité sociale des indépendants et aux barèmes indicatifs des caisses de professions libérales (hors ASV), cotisations minimales comprises ; un déficit au réel s'impute sur les autres revenus du foyer, le surplus étant reportable six ans. Les locations meublées non professionnelles supportent les prélèvements sociaux au lieu des cotisations URSSAF ; leur régime réel retient des durées d'amortissement usuelles. La SASU est simulée avec les cotisations d'un assimilé salarié hors assurance chômage, un taux d'accidents du travail indicatif, l'impôt sur les sociétés au taux réduit PME et le prélèvement forfaitaire unique sur les dividendes ; en EURL ou EI à l'IS, la part des dividendes au-delà de 10% du capital et des comptes courants supporte les cotisations du gérant non salarié. La répartition optimale suppose la distribution de tout le bénéfice restant. Au-delà de la dernière année connue, la projection applique les paramètres de cette année. Les droits à la retraite sont estimés aux valeurs de l'année (prix d'achat et valeur de service des points, départ au taux plein) ; les points de retraite complémentaire des caisses de professions libérales ne sont pas détaillés. Les indemnités journalières supposent un revenu identique sur les trois années de référence. Le prélèvement à la source suppose des autres revenus prélevés au taux du foyer et un bénéfice de l'année précédente proportionnel à son chiffre d'affaires. Au réel, les cotisations provisionnelles sont estimées sur le revenu de l'année précédente, supposé proportionnel à son chiffre d'affaires. Sans saisie mois par mois, le chiffre d'affaires est supposé encaissé régulièrement sur les mois d'activité. Consultez un professionnel pour une analyse personnalisée.
             </AlertDescription>
           </Alert>
         </CardFooter>
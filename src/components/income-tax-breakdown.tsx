@@ -0,0 +1,38 @@
+// src/components/income-tax-breakdown.tsx
+'use client';
+
+import React from 'react';
+import type { IncomeTaxDetails } from '@/lib/tax-calculator';
+
+interface IncomeTaxBreakdownProps {
+  details: IncomeTaxDetails;
+  formatCurrency: (value: number | undefined) => string;
+}
+
+/**
+ * Shows the path from the impôt brut to the final income tax amount.
+ * Steps that do not change the amount are omitted.
+ */
+export default function IncomeTaxBreakdown({ details, formatCurrency }: IncomeTaxBreakdownProps) {
+  return (
+    <div className="space-y-1 border-l-2 border-muted pl-3 text-xs text-muted-foreground">
+      <p>Impôt brut (barème, {details.fiscalParts} parts): <span className="font-semibold">{formatCurrency(details.grossTax)}</span></p>
+      {details.quotientFamilialCapping > 0 && (
+        <p>Plafonnement du quotient familial: <span className="font-semibold">+{formatCurrency(details.quotientFamilialCapping)}</span></p>
+      )}
+      {details.decote > 0 && (
+        <p>Décote: <span className="font-semibold">-{formatCurrency(details.decote)}</span></p>
+      )}
+      {details.taxReductions > 0 && (
+        <p>Réductions d'impôt: <span className="font-semibold">-{formatCurrency(details.taxReductions)}</span></p>
+      )}
+      {details.belowCollectionThreshold && (
+        <p>Impôt inférieur à 61 €: non mis en recouvrement</p>
+      )}
+      <p>Impôt sur le revenu net: <span className="font-semibold">{formatCurrency(details.netIncomeTax)}</span></p>
+      {details.highIncomeContribution > 0 && (
+        <p>Contribution exceptionnelle sur les hauts revenus: <span className="font-semibold">+{formatCurrency(details.highIncomeContribution)}</span></p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+// src/components/micro-revenue-lines-breakdown.tsx
+'use client';
+
+import React from 'react';
+import type { ActivityType, MicroLiberatoireRevenueLineResult, MicroRevenueLineResult } from '@/lib/tax-calculator';
+
+interface MicroRevenueLinesBreakdownProps {
+  lines: (MicroRevenueLineResult | MicroLiberatoireRevenueLineResult)[];
+  activityTypeLabels: Record<ActivityType, string>;
+  formatCurrency: (value: number | undefined) => string;
+  formatPercentage: (value: number | undefined) => string;
+}
+
+/**
+ * Lists, for a mixed activity, the abattement and the contributions of each revenue line.
+ * A location meublée non professionnelle shows its prélèvements sociaux instead of the URSSAF contributions.
+ * The versement libératoire is shown when the lines carry it.
+ */
+export default function MicroRevenueLinesBreakdown({ lines, activityTypeLabels, formatCurrency, formatPercentage }: MicroRevenueLinesBreakdownProps) {
+  return (
+    <div className="space-y-2 border-l-2 border-muted pl-3 text-xs text-muted-foreground">
+      {lines.map((line, index) => (
+        <div key={index}>
+          <p className="font-medium text-foreground">{activityTypeLabels[line.activityType]}: {formatCurrency(line.revenue)}</p>
+          <p>Abattement ({formatPercentage(line.allowanceRate)}): <span className="font-semibold">{formatCurrency(line.allowance)}</span></p>
+          {line.rentalSocialLevyRate > 0 ? (
+            <p>Prélèvements sociaux ({formatPercentage(line.rentalSocialLevyRate)} après abattement): <span className="font-semibold">{formatCurrency(line.rentalSocialLevies)}</span></p>
+          ) : (
+            <>
+              <p>Cotisations sociales ({formatPercentage(line.urssafSocialContributionsRate)}): <span className="font-semibold">{formatCurrency(line.urssafSocialContributions)}</span></p>
+              <p>CFP ({formatPercentage(line.cfpRate)}): <span className="font-semibold">{formatCurrency(line.cfpContribution)}</span></p>
+            </>
+          )}
+          {'versementLiberatoire' in line && (
+            <p>Versement libératoire ({formatPercentage(line.versementLiberatoireRate)}): <span className="font-semibold">{formatCurrency(line.versementLiberatoire)}</span></p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+// src/components/micro-threshold-gauges.tsx
+'use client';
+
+import React from 'react';
+import { AlertTriangle, Gauge, Info } from 'lucide-react';
+
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { cn } from '@/lib/utils';
+import type { MicroEligibilityResult } from '@/lib/micro-eligibility';
+import { MONTH_LABELS } from '@/lib/monthly-amounts';
+
+interface MicroThresholdGaugesProps {
+  eligibility: MicroEligibilityResult;
+  formatCurrency: (value: number | undefined) => string;
+}
+
+/**
+ * Shows how close the revenue is to the micro ceiling and the franchise en base de TVA thresholds
+ * and the month in which each exceeded threshold is crossed, followed by the warnings raised by the eligibility rules.
+ */
+export default function MicroThresholdGauges({ eligibility, formatCurrency }: MicroThresholdGaugesProps) {
+  return (
+    <div className="w-full space-y-4">
+      <h4 className="text-lg font-semibold flex items-center gap-2"><Gauge size={20} /> Seuils du régime micro et de la TVA</h4>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {eligibility.thresholds.map((check) => (
+          <div key={`${check.id}-${check.scope}-${check.activityType ?? ""}`} className="space-y-1 text-sm">
+            <p className="font-medium">{check.label}</p>
+            <Progress
+              value={Math.min(100, check.ratio * 100)}
+              className={cn(
+                check.exceeded && "[&>div]:bg-destructive",
+                !check.exceeded && check.ratio >= 0.9 && "[&>div]:bg-accent"
+              )}
+            />
+            <p className="text-xs text-muted-foreground">
+              {formatCurrency(check.revenue)} / {formatCurrency(check.threshold)} ({(check.ratio * 100).toFixed(0)}%)
+              {check.crossingMonth !== null && <> · franchi en {MONTH_LABELS[check.crossingMonth - 1]}</>}
+            </p>
+          </div>
+        ))}
+      </div>
+      {eligibility.warnings.map((warning) => (
+        <Alert key={warning.code} variant={warning.level === "blocking" ? "destructive" : "default"}>
+          {warning.level === "info" ? <Info className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+          <AlertDescription className="text-sm">{warning.message}</AlertDescription>
+        </Alert>
+      ))}
+    </div>
+  );
+}
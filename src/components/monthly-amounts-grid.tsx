@@ -0,0 +1,127 @@
+// src/components/monthly-amounts-grid.tsx
+'use client';
+
+import React from 'react';
+import { useFormContext } from 'react-hook-form';
+import { CalendarDays } from 'lucide-react';
+
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import type { FiscalNavigatorFormValues } from '@/components/fiscal-navigator-form-schema';
+import { MONTH_LABELS, MONTHS_IN_YEAR, parsePastedAmounts } from '@/lib/monthly-amounts';
+
+interface MonthlyAmountsGridProps {
+  formatCurrency: (value: number | undefined) => string;
+}
+
+// Columns of the monthly grid, in the order they are pasted from a spreadsheet
+const MONTHLY_GRID_FIELDS = ["revenue", "expenses"] as const;
+
+/**
+ * Optional month-by-month entry of the chiffre d'affaires and the charges, replacing the annual amounts.
+ * Cells can be pasted from a spreadsheet, one or two columns at a time.
+ */
+export default function MonthlyAmountsGrid({ formatCurrency }: MonthlyAmountsGridProps) {
+  const form = useFormContext<FiscalNavigatorFormValues>();
+  const currentMonthly = form.watch("monthly");
+
+  // Starts the grid from the annual amounts spread evenly, unless months were already entered
+  const enableMonthlyGrid = (enabled: boolean) => {
+    form.setValue("monthly.enabled", enabled);
+    const { revenue, expenses } = form.getValues("monthly");
+    if (!enabled || [...revenue, ...expenses].some((value) => Number(value) > 0)) return;
+    const annualRevenue = form.getValues("revenueLines").reduce((total, line) => total + (Number(line.annualRevenue) || 0), 0);
+    const annualExpenses = Number(form.getValues("annualExpenses")) || 0;
+    form.setValue("monthly.revenue", Array(MONTHS_IN_YEAR).fill(parseFloat((annualRevenue / MONTHS_IN_YEAR).toFixed(2))));
+    form.setValue("monthly.expenses", Array(MONTHS_IN_YEAR).fill(parseFloat((annualExpenses / MONTHS_IN_YEAR).toFixed(2))));
+  };
+
+  // Fills the grid from the cell pasted into: rows are months, columns are the chiffre d'affaires then the charges.
+  // A single row of months is pasted down the column, and a first column of month names is skipped.
+  const handleMonthlyPaste = (event: React.ClipboardEvent<HTMLInputElement>, month: number, column: number) => {
+    const rows = parsePastedAmounts(event.clipboardData.getData('text'));
+    if (rows.length === 0 || (rows.length === 1 && rows[0].length === 1)) return;
+    event.preventDefault();
+    const cells = rows.length === 1 && rows[0].length > MONTHLY_GRID_FIELDS.length
+      ? rows[0].map((value) => [value])
+      : rows.every((row) => row.length > 1 && row[0] === null) ? rows.map((row) => row.slice(1)) : rows;
+    cells.forEach((row, rowIndex) => row.forEach((value, columnIndex) => {
+      const targetMonth = month + rowIndex;
+      const targetColumn = column + columnIndex;
+      if (value === null || targetMonth >= MONTHS_IN_YEAR || targetColumn >= MONTHLY_GRID_FIELDS.length) return;
+      form.setValue(`monthly.${MONTHLY_GRID_FIELDS[targetColumn]}.${targetMonth}`, Math.max(0, value), { shouldValidate: true });
+    }));
+  };
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <FormField
+        control={form.control}
+        name="monthly.enabled"
+        render={({ field }) => (
+          <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+            <FormControl>
+              <Checkbox checked={field.value} onCheckedChange={(checked) => enableMonthlyGrid(checked === true)} />
+            </FormControl>
+            <div className="space-y-1 leading-none">
+              <FormLabel className="flex items-center gap-2"><CalendarDays size={16}/>Saisie mois par mois</FormLabel>
+              <FormDescription>Remplace les montants annuels par un chiffre d'affaires et des charges par mois, pour dater le franchissement des seuils, la sortie de la franchise de TVA et les échéances URSSAF.</FormDescription>
+            </div>
+          </FormItem>
+        )}
+      />
+      {currentMonthly.enabled && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-[6rem_1fr_1fr] gap-2 text-sm font-medium">
+            <span />
+            <span>Chiffre d'affaires (€)</span>
+            <span>Charges (€)</span>
+          </div>
+          {MONTH_LABELS.map((label, month) => (
+            <div key={label} className="grid grid-cols-[6rem_1fr_1fr] gap-2 items-center">
+              <span className="text-sm capitalize">{label}</span>
+              {MONTHLY_GRID_FIELDS.map((name, column) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={`monthly.${name}.${month}`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          {...field}
+                          onPaste={(event) => handleMonthlyPaste(event, month, column)}
+                          className="h-8 text-sm"
+                          step="any"
+                          aria-label={`${name === "revenue" ? "Chiffre d'affaires" : "Charges"} de ${label}`}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+          ))}
+          <div className="grid grid-cols-[6rem_1fr_1fr] gap-2 text-sm font-semibold">
+            <span>Total</span>
+            <span>{formatCurrency(currentMonthly.revenue.reduce((total, value) => total + (Number(value) || 0), 0))}</span>
+            <span>{formatCurrency(currentMonthly.expenses.reduce((total, value) => total + (Number(value) || 0), 0))}</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Collez directement une ou deux colonnes copiées d'un tableur. Le chiffre d'affaires de l'année est réparti entre les activités au prorata de leurs montants annuels.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+// src/components/payroll-contributions-breakdown.tsx
+'use client';
+
+import React from 'react';
+import type { PayrollContributionLine } from '@/lib/assimile-salarie';
+
+interface PayrollContributionsBreakdownProps {
+  lines: PayrollContributionLine[];
+  formatCurrency: (value: number | undefined) => string;
+}
+
+/**
+ * Lists each contribution on the salary of an assimilé salarié with its part salariale and part patronale.
+ * Lines with nothing due are omitted.
+ */
+export default function PayrollContributionsBreakdown({ lines, formatCurrency }: PayrollContributionsBreakdownProps) {
+  return (
+    <div className="space-y-1 border-l-2 border-muted pl-3 text-xs text-muted-foreground">
+      {lines.filter((line) => line.employeeAmount > 0 || line.employerAmount > 0 || line.acreExemption > 0).map((line) => (
+        <p key={line.id}>
+          {line.label}: <span className="font-semibold">{formatCurrency(line.employeeAmount)}</span> salarial, <span className="font-semibold">{formatCurrency(line.employerAmount)}</span> patronal
+          {line.acreExemption > 0 && <> (ACRE: -{formatCurrency(line.acreExemption)})</>}
+          {!line.deductible && <> — non déductible</>}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+// src/components/projection-settings-fields.tsx
+'use client';
+
+import React from 'react';
+import { useFormContext } from 'react-hook-form';
+import { TrendingUp } from 'lucide-react';
+
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import type { FiscalNavigatorFormValues } from '@/components/fiscal-navigator-form-schema';
+import { MAX_PROJECTION_YEARS, MIN_PROJECTION_YEARS } from '@/lib/projection';
+
+/**
+ * Multi-year projection settings of the simulation form: the number of years and the yearly growth of the revenue
+ * and of the charges, shown once the projection is enabled.
+ */
+export default function ProjectionSettingsFields() {
+  const form = useFormContext<FiscalNavigatorFormValues>();
+  const projectionEnabled = form.watch("projection.enabled");
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <FormField
+        control={form.control}
+        name="projection.enabled"
+        render={({ field }) => (
+          <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+            <FormControl>
+              <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+            </FormControl>
+            <div className="space-y-1 leading-none">
+              <FormLabel className="flex items-center gap-2"><TrendingUp size={16}/>Projection pluriannuelle</FormLabel>
+              <FormDescription>Compare les régimes sur plusieurs années : fin de l'ACRE, évolution des taux, dépassement des plafonds et régularisation des cotisations du réel.</FormDescription>
+            </div>
+          </FormItem>
+        )}
+      />
+      {projectionEnabled && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="projection.years"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Durée</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={String(field.value)}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Array.from({ length: MAX_PROJECTION_YEARS - MIN_PROJECTION_YEARS + 1 }, (_, index) => MIN_PROJECTION_YEARS + index).map((years) => (
+                      <SelectItem key={years} value={String(years)}>
+                        {years} ans
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="projection.revenueGrowthPercent"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Croissance du CA (% / an)</FormLabel>
+                <FormControl>
+                  <Input type="number" min={-50} max={100} step="any" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="projection.expenseGrowthPercent"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Croissance des charges (% / an)</FormLabel>
+                <FormControl>
+                  <Input type="number" min={-50} max={100} step="any" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
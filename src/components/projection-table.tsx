@@ -0,0 +1,103 @@
+// src/components/projection-table.tsx
+'use client';
+
+import React from 'react';
+import { Table, TableBody, TableCaption, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { PROJECTION_REGIMES, type ProjectionRegime, type ProjectionResult } from '@/lib/projection';
+
+interface ProjectionTableProps {
+  projection: ProjectionResult;
+  formatCurrency: (value: number | undefined) => string;
+}
+
+const regimeLabels: Record<ProjectionRegime, string> = {
+  MICRO: "Micro",
+  MICRO_LIBERATOIRE: "Micro + VL",
+  REEL: "Réel",
+  SASU: "SASU",
+  EURL: "EURL / EI IS",
+};
+
+/**
+ * Lists, year by year, the net income of each regime with its cumulative total, the contributions paid and,
+ * in réel, the regularization of the previous year.
+ */
+export default function ProjectionTable({ projection, formatCurrency }: ProjectionTableProps) {
+  return (
+    <div className="space-y-2">
+      <Table>
+        <TableCaption>
+          Revenu net de chaque année (cotisations payées dans l'année, impôts compris) et cumul depuis {projection.startYear}.
+        </TableCaption>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Année</TableHead>
+            <TableHead className="text-right">Chiffre d'affaires</TableHead>
+            <TableHead className="text-right">Charges</TableHead>
+            {PROJECTION_REGIMES.map((regime) => (
+              <TableHead key={regime} className="text-right">{regimeLabels[regime]}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {projection.years.map((year) => (
+            <TableRow key={year.year}>
+              <TableCell className="font-medium">
+                {year.year}
+                {year.parameterYear !== year.year && (
+                  <span className="block text-xs text-muted-foreground">paramètres {year.parameterYear}</span>
+                )}
+              </TableCell>
+              <TableCell className="text-right">{formatCurrency(year.revenue)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(year.expenses)}</TableCell>
+              {PROJECTION_REGIMES.map((regime) => {
+                const result = year.regimes[regime];
+                return (
+                  <TableCell key={regime} className="text-right">
+                    {result ? (
+                      <>
+                        <span className="font-semibold">{formatCurrency(result.netIncome)}</span>
+                        <span className="block text-xs text-muted-foreground">cumul {formatCurrency(result.cumulativeNetIncome)}</span>
+                        <span className="block text-xs text-muted-foreground">cotisations {formatCurrency(result.socialContributionsPaid)}</span>
+                        {result.regularization !== 0 && (
+                          <span className="block text-xs text-muted-foreground">dont régularisation {formatCurrency(result.regularization)}</span>
+                        )}
+                        {result.acreExemption > 0 && <span className="block text-xs text-muted-foreground">ACRE -{formatCurrency(result.acreExemption)}</span>}
+                        {result.deficitTaxSaving > 0 && <span className="block text-xs text-muted-foreground">déficits -{formatCurrency(result.deficitTaxSaving)} d'impôt</span>}
+                        {result.forcedReel && <span className="block text-xs text-destructive">plafonds dépassés : réel</span>}
+                      </>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">non éligible</span>
+                    )}
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          ))}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell colSpan={3}>Revenu net cumulé</TableCell>
+            {PROJECTION_REGIMES.map((regime) => {
+              const total = projection.cumulativeNetIncome[regime];
+              return (
+                <TableCell key={regime} className={`text-right ${regime === projection.bestRegime ? "text-primary font-bold" : ""}`}>
+                  {total === null ? "—" : formatCurrency(total)}
+                </TableCell>
+              );
+            })}
+          </TableRow>
+        </TableFooter>
+      </Table>
+      <p className="text-xs text-muted-foreground">
+        Régime le plus avantageux sur {projection.assumptions.years} ans : <span className="font-semibold">{regimeLabels[projection.bestRegime]}</span>.
+        {projection.pendingRegularization !== 0 && (
+          <> Au réel, la régularisation des cotisations de {projection.startYear + projection.assumptions.years - 1} ({formatCurrency(projection.pendingRegularization)}) reste due après la période.</>
+        )}
+        {projection.deficitsCarriedForward.length > 0 && (
+          <> Déficits du réel encore reportables à l'issue de la période : {formatCurrency(projection.deficitsCarriedForward.reduce((sum, deficit) => sum + deficit.amount, 0))}.</>
+        )}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+// src/components/regime-social-rights.tsx
+'use client';
+
+import React from 'react';
+import RetirementRights from '@/components/retirement-rights';
+import SocialProtectionBreakdown from '@/components/social-protection-breakdown';
+import type { RetirementRights as RetirementRightsResult } from '@/lib/retirement';
+import type { SocialProtectionResult } from '@/lib/social-protection';
+
+interface RegimeSocialRightsProps {
+  retirement?: RetirementRightsResult;
+  socialProtection?: SocialProtectionResult;
+  formatCurrency: (value: number | undefined) => string;
+}
+
+/**
+ * Shows the retirement rights and the protection sociale of one regime, each when it was computed.
+ */
+export default function RegimeSocialRights({ retirement, socialProtection, formatCurrency }: RegimeSocialRightsProps) {
+  return (
+    <>
+      {retirement && <RetirementRights rights={retirement} formatCurrency={formatCurrency} />}
+      {socialProtection && <SocialProtectionBreakdown protection={socialProtection} formatCurrency={formatCurrency} />}
+    </>
+  );
+}
@@ -0,0 +1,64 @@
+// src/components/remuneration-split-chart.tsx
+'use client';
+
+import React from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import type { RemunerationOptimizationResult } from '@/lib/remuneration-optimizer';
+
+interface RemunerationSplitChartProps {
+  optimization: RemunerationOptimizationResult;
+  remunerationLabel: string; // "Salaire brut" or "Rémunération du gérant"
+  formatCurrency: (value: number | undefined) => string;
+}
+
+const chartConfig = {
+  netIncomePfu: { label: "Dividendes au PFU", color: "hsl(var(--chart-1))" },
+  netIncomeBareme: { label: "Dividendes au barème", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+/**
+ * Plots the net income of the foyer against the remuneration of the dirigeant, the rest of the profit
+ * being distributed, for both taxations of the dividends, and marks the optimal remuneration.
+ */
+export default function RemunerationSplitChart({ optimization, remunerationLabel, formatCurrency }: RemunerationSplitChartProps) {
+  const { optimum, constraint } = optimization;
+
+  return (
+    <div className="space-y-2">
+      <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+        <LineChart data={optimization.curve} margin={{ left: 8, right: 8, top: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="remuneration"
+            type="number"
+            domain={[0, "dataMax"]}
+            tickFormatter={(value: number) => `${Math.round(value / 1000)} k€`}
+          />
+          <YAxis width={56} domain={["auto", "auto"]} tickFormatter={(value: number) => `${Math.round(value / 1000)} k€`} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => `${remunerationLabel}: ${formatCurrency(payload?.[0]?.payload?.remuneration)}`}
+                formatter={(value, name) => `${chartConfig[name as keyof typeof chartConfig]?.label ?? name}: ${formatCurrency(Number(value))}`}
+              />
+            }
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Line dataKey="netIncomePfu" type="monotone" stroke="var(--color-netIncomePfu)" strokeWidth={2} dot={false} />
+          <Line dataKey="netIncomeBareme" type="monotone" stroke="var(--color-netIncomeBareme)" strokeWidth={2} dot={false} />
+          {optimum && <ReferenceLine x={optimum.remuneration} stroke="hsl(var(--primary))" strokeDasharray="4 4" />}
+        </LineChart>
+      </ChartContainer>
+      {optimum ? (
+        <p className="text-xs text-muted-foreground">
+          Optimum : {remunerationLabel.toLowerCase()} de <span className="font-semibold">{formatCurrency(optimum.remuneration)}</span>, dividendes {optimum.dividendTaxation === "BAREME" ? "au barème" : "au PFU"}, soit un revenu net de <span className="font-semibold">{formatCurrency(optimum.netIncome)}</span> et {optimum.retirementQuartersValidated} trimestre(s) de retraite validé(s).
+        </p>
+      ) : (
+        <p className="text-xs text-destructive">
+          Aucune répartition ne permet de valider {constraint.minRetirementQuarters} trimestre(s) de retraite avec ce bénéfice.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+// src/components/retirement-rights.tsx
+'use client';
+
+import React from 'react';
+import type { RetirementRights as RetirementRightsResult, RetirementScheme } from '@/lib/retirement';
+
+interface RetirementRightsProps {
+  rights: RetirementRightsResult;
+  formatCurrency: (value: number | undefined) => string;
+}
+
+const schemeLabels: Record<RetirementScheme, string> = {
+  SSI: "Sécurité sociale des indépendants",
+  CNAVPL: "CNAVPL",
+  REGIME_GENERAL: "Régime général",
+  NONE: "Aucun",
+};
+
+const formatPoints = (value: number) => value.toLocaleString('fr-FR', { maximumFractionDigits: 1 });
+
+/**
+ * Shows the retirement rights acquired by the year: the quarters validated with the income needed per quarter,
+ * the revenu porté au compte or the points of the retraite de base, and the complementary points.
+ */
+export default function RetirementRights({ rights, formatCurrency }: RetirementRightsProps) {
+  if (rights.scheme === "NONE") {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Retraite : aucun droit acquis, les prélèvements sociaux de la location meublée non professionnelle ne valident pas de trimestre.
+      </p>
+    );
+  }
+
+  const pensionAcquired = rights.basePensionAcquired + (rights.complementaryPensionAcquired ?? 0);
+
+  return (
+    <>
+      <p>Trimestres de retraite validés: <span className="font-semibold">{rights.quartersValidated} / 4</span></p>
+      <div className="space-y-1 border-l-2 border-muted pl-3 text-xs text-muted-foreground">
+        <p>
+          Un trimestre par {formatCurrency(rights.quarterIncomeThreshold)} de revenu
+          {rights.quarterRevenueThreshold !== null && <>, soit {formatCurrency(rights.quarterRevenueThreshold)} de chiffre d'affaires pour l'activité principale</>}
+        </p>
+        <p>
+          Retraite de base ({schemeLabels[rights.scheme]}) : revenu porté au compte <span className="font-semibold">{formatCurrency(rights.baseIncomeCredited)}</span>
+          {rights.basePoints !== null && <>, soit <span className="font-semibold">{formatPoints(rights.basePoints)}</span> points</>}
+        </p>
+        <p>
+          Retraite complémentaire ({rights.complementaryLabel}) :{" "}
+          {rights.complementaryPoints !== null
+            ? <><span className="font-semibold">{formatPoints(rights.complementaryPoints)}</span> points</>
+            : <>points selon le barème de la caisse{rights.complementaryContributions > 0 && <> ({formatCurrency(rights.complementaryContributions)} cotisés)</>}</>}
+        </p>
+        <p>
+          Pension annuelle acquise cette année: <span className="font-semibold">{formatCurrency(pensionAcquired)}</span>
+          {rights.complementaryPensionAcquired === null && <> (retraite de base seule)</>}
+        </p>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,30 @@
+// src/components/social-contributions-breakdown.tsx
+'use client';
+
+import React from 'react';
+import type { SocialContributionLine } from '@/lib/social-contributions';
+
+interface SocialContributionsBreakdownProps {
+  lines: SocialContributionLine[];
+  formatCurrency: (value: number | undefined) => string;
+  formatPercentage: (value: number | undefined) => string;
+}
+
+/**
+ * Lists each social contribution line of the régime réel with its base and effective rate.
+ * Lines with nothing due are omitted.
+ */
+export default function SocialContributionsBreakdown({ lines, formatCurrency, formatPercentage }: SocialContributionsBreakdownProps) {
+  return (
+    <div className="space-y-1 border-l-2 border-muted pl-3 text-xs text-muted-foreground">
+      {lines.filter((line) => line.amount > 0 || line.acreExemption > 0).map((line) => (
+        <p key={line.id}>
+          {line.label} ({formatPercentage(line.rate)} de {formatCurrency(line.base)}): <span className="font-semibold">{formatCurrency(line.amount)}</span>
+          {line.acreExemption > 0 && <> (ACRE: -{formatCurrency(line.acreExemption)})</>}
+          {line.minimumBaseApplied && <> — assiette minimale</>}
+          {!line.deductible && <> — non déductible</>}
+        </p>
+      ))}
+    </div>
+  );
+}
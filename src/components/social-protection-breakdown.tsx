@@ -0,0 +1,53 @@
+// src/components/social-protection-breakdown.tsx
+'use client';
+
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import type { SocialProtectionResult, SocialProtectionScheme } from '@/lib/social-protection';
+
+interface SocialProtectionBreakdownProps {
+  protection: SocialProtectionResult;
+  formatCurrency: (value: number | undefined) => string;
+}
+
+const schemeLabels: Record<SocialProtectionScheme, string> = {
+  SSI: "indépendant (SSI)",
+  LIBERAL: "profession libérale",
+  REGIME_GENERAL: "régime général",
+  NONE: "aucune",
+};
+
+/**
+ * Shows the protection sociale of a regime: the indemnités journalières maladie and the maternity and paternity
+ * benefits, with the warnings when the income is too low to open rights.
+ */
+export default function SocialProtectionBreakdown({ protection, formatCurrency }: SocialProtectionBreakdownProps) {
+  return (
+    <>
+      <p>Protection sociale ({schemeLabels[protection.scheme]}):</p>
+      <div className="space-y-1 border-l-2 border-muted pl-3 text-xs text-muted-foreground">
+        {protection.scheme !== "NONE" && (
+          <>
+            <p>
+              Indemnités journalières maladie:{" "}
+              {protection.sicknessEligible
+                ? <><span className="font-semibold">{formatCurrency(protection.sicknessDailyAllowance)}</span> / jour après {protection.waitingDays} jours de carence</>
+                : <span className="font-semibold">aucune</span>}
+            </p>
+            <p>
+              Congé maternité ({protection.maternityDays} jours): <span className="font-semibold">{formatCurrency(protection.maternityTotal)}</span>
+              {protection.maternityFlatAllowance > 0 && <>, dont allocation forfaitaire de repos maternel {formatCurrency(protection.maternityFlatAllowance)}</>}
+            </p>
+            <p>Congé paternité ({protection.paternityDays} jours): <span className="font-semibold">{formatCurrency(protection.paternityTotal)}</span></p>
+          </>
+        )}
+        {protection.warnings.map((warning) => (
+          <p key={warning.code} className={warning.level === "warning" ? "text-destructive flex items-start gap-1" : undefined}>
+            {warning.level === "warning" && <AlertTriangle size={14} className="mt-0.5 shrink-0"/>}
+            {warning.message}
+          </p>
+        ))}
+      </div>
+    </>
+  );
+}
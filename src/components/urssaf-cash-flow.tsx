@@ -0,0 +1,122 @@
+// src/components/urssaf-cash-flow.tsx
+'use client';
+
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { UrssafCashFlowResult, UrssafPayment, UrssafPaymentKind, UrssafSchedule } from '@/lib/urssaf-schedule';
+
+interface UrssafCashFlowProps {
+  cashFlow: UrssafCashFlowResult;
+  formatCurrency: (value: number | undefined) => string;
+}
+
+const chartConfig = {
+  micro: { label: "Micro", color: "hsl(var(--chart-1))" },
+  reel: { label: "Réel", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+const paymentKindLabels: Record<UrssafPaymentKind, string> = {
+  DECLARATION: "Déclaration",
+  PROVISIONAL: "Cotisations provisionnelles",
+  REGULARISATION: "Régularisation",
+  REFUND: "Remboursement",
+};
+
+const formatMonth = (month: string) => format(parseISO(`${month}-01`), 'MMM yyyy', { locale: fr });
+
+function describePayment(payment: UrssafPayment, formatCurrency: (value: number | undefined) => string): string {
+  if (payment.kind !== "DECLARATION" || !payment.periodStart || !payment.periodEnd) {
+    return paymentKindLabels[payment.kind];
+  }
+  const period = payment.periodStart === payment.periodEnd
+    ? formatMonth(payment.periodStart)
+    : `${formatMonth(payment.periodStart)} à ${formatMonth(payment.periodEnd)}`;
+  return `${paymentKindLabels[payment.kind]} ${period} (CA ${formatCurrency(payment.revenue)})`;
+}
+
+function PaymentsTable({ title, schedule, formatCurrency }: { title: string; schedule: UrssafSchedule; formatCurrency: (value: number | undefined) => string }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{title}</TableHead>
+          <TableHead />
+          <TableHead className="text-right">Montant</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {schedule.payments.map((payment) => (
+          <TableRow key={`${payment.date}-${payment.kind}`}>
+            <TableCell>{format(parseISO(payment.date), 'd MMM yyyy', { locale: fr })}</TableCell>
+            <TableCell className="text-xs text-muted-foreground">{describePayment(payment, formatCurrency)}</TableCell>
+            <TableCell className="text-right">{formatCurrency(payment.amount)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+      <TableFooter>
+        <TableRow>
+          <TableCell colSpan={2}>Payé dans l'année / l'année suivante</TableCell>
+          <TableCell className="text-right">{formatCurrency(schedule.paidInYear)} / {formatCurrency(schedule.paidNextYear)}</TableCell>
+        </TableRow>
+      </TableFooter>
+    </Table>
+  );
+}
+
+/**
+ * Shows when the contributions of the year are paid to the URSSAF: a bar per month for the micro and the réel,
+ * and the due dates of each regime with their amount.
+ */
+export default function UrssafCashFlow({ cashFlow, formatCurrency }: UrssafCashFlowProps) {
+  const { micro, reel } = cashFlow;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+        <BarChart data={cashFlow.months} margin={{ left: 8, right: 8, top: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="month" tickFormatter={formatMonth} interval="preserveStartEnd" />
+          <YAxis width={56} tickFormatter={(value: number) => `${Math.round(value)} €`} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => {
+                  const month = payload?.[0]?.payload;
+                  return month ? `${formatMonth(month.month)}${month.revenue > 0 ? ` (CA ${formatCurrency(month.revenue)})` : ""}` : "";
+                }}
+                formatter={(value, name) => `${chartConfig[name as keyof typeof chartConfig]?.label ?? name}: ${formatCurrency(Number(value))}`}
+              />
+            }
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Bar dataKey="micro" fill="var(--color-micro)" radius={2} />
+          {reel && <Bar dataKey="reel" fill="var(--color-reel)" radius={2} />}
+        </BarChart>
+      </ChartContainer>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <PaymentsTable title="Micro" schedule={micro} formatCurrency={formatCurrency} />
+        {reel ? (
+          <PaymentsTable title="Réel" schedule={reel} formatCurrency={formatCurrency} />
+        ) : (
+          <p className="text-muted-foreground">Réel : les prélèvements sociaux de la location meublée non professionnelle sont payés avec l'impôt sur le revenu, sans échéance URSSAF.</p>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        En micro, les cotisations sont déclarées et payées à la fin du mois suivant chaque {cashFlow.settings.frequency === "MONTHLY" ? "mois" : "trimestre"} sur le chiffre d'affaires encaissé.
+        {reel && (
+          <>
+            {" "}Au réel, {formatCurrency(reel.provisionalContributions)} de cotisations provisionnelles sont appelées
+            {cashFlow.startupProvisionalBase ? " sur l'assiette forfaitaire de début d'activité" : " sur le dernier revenu déclaré"}, puis
+            {reel.regularization >= 0
+              ? <> régularisées de <span className="font-semibold">{formatCurrency(reel.regularization)}</span> l'année suivante.</>
+              : <> <span className="font-semibold">{formatCurrency(-reel.regularization)}</span> sont remboursés l'année suivante.</>}
+          </>
+        )}
+      </p>
+    </div>
+  );
+}
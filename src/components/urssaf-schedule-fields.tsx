@@ -0,0 +1,67 @@
+// src/components/urssaf-schedule-fields.tsx
+'use client';
+
+import React from 'react';
+import { useFormContext } from 'react-hook-form';
+import { CalendarRange } from 'lucide-react';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import type { FiscalNavigatorFormValues } from '@/components/fiscal-navigator-form-schema';
+import type { UrssafPaymentFrequency } from '@/lib/urssaf-schedule';
+
+const urssafFrequencyLabels: Record<UrssafPaymentFrequency, string> = {
+  MONTHLY: "Mensuelles",
+  QUARTERLY: "Trimestrielles",
+};
+
+/**
+ * URSSAF calendar settings of the simulation form: monthly or quarterly declarations and payments.
+ */
+export default function UrssafScheduleFields() {
+  const form = useFormContext<FiscalNavigatorFormValues>();
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <p className="text-base font-medium flex items-center gap-2"><CalendarRange size={18}/>Échéancier URSSAF</p>
+      <FormField
+        control={form.control}
+        name="urssafSchedule.frequency"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Déclarations et échéances</FormLabel>
+            <Select onValueChange={field.onChange} defaultValue={field.value}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {Object.entries(urssafFrequencyLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormDescription>Déclaration du chiffre d'affaires en micro, prélèvement des cotisations provisionnelles au réel.</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+// src/components/vat-settings-fields.tsx
+'use client';
+
+import React from 'react';
+import { useFormContext } from 'react-hook-form';
+import { BadgePercent } from 'lucide-react';
+
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import type { FiscalNavigatorFormValues } from '@/components/fiscal-navigator-form-schema';
+import type { VatAmountBasis, VatClientele } from '@/lib/vat';
+
+const vatAmountBasisLabels: Record<VatAmountBasis, string> = {
+  HT: "Hors taxes (HT)",
+  TTC: "Toutes taxes comprises (TTC)",
+};
+
+const vatClienteleLabels: Record<VatClientele, string> = {
+  B2B: "Professionnels (B2B)",
+  B2C: "Particuliers (B2C)",
+};
+
+/**
+ * TVA settings of the simulation form: whether the amounts are entered HT or TTC, the clientèle, the share of the
+ * charges bearing TVA, the option for the TVA and the exempt activities.
+ */
+export default function VatSettingsFields() {
+  const form = useFormContext<FiscalNavigatorFormValues>();
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <p className="text-base font-medium flex items-center gap-2"><BadgePercent size={18}/>TVA</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="vat.revenueBasis"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Chiffre d'affaires saisi</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.entries(vatAmountBasisLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>Identiques en franchise en base, où aucune TVA n'est facturée.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="vat.expenseBasis"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Charges saisies</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.entries(vatAmountBasisLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="vat.clientele"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Clientèle</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.entries(vatClienteleLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>Les professionnels récupèrent la TVA : vos prix HT restent les mêmes. Les particuliers la paient : vos prix TTC restent les mêmes.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="vat.expensesSubjectToVatSharePercent"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Part des charges soumises à la TVA (%)</FormLabel>
+              <FormControl>
+                <Input type="number" min={0} max={100} step="any" {...field} />
+              </FormControl>
+              <FormDescription>Hors assurances, cotisations et frais bancaires.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <FormField
+        control={form.control}
+        name="vat.optionForVat"
+        render={({ field }) => (
+          <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+            <FormControl>
+              <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+            </FormControl>
+            <div className="space-y-1 leading-none">
+              <FormLabel>Option pour la TVA</FormLabel>
+              <FormDescription>Facturer et récupérer la TVA malgré la franchise en base.</FormDescription>
+            </div>
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="vat.exemptActivity"
+        render={({ field }) => (
+          <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+            <FormControl>
+              <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+            </FormControl>
+            <div className="space-y-1 leading-none">
+              <FormLabel>Activité exonérée de TVA</FormLabel>
+              <FormDescription>Professions de santé, enseignement, formation professionnelle…</FormDescription>
+            </div>
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
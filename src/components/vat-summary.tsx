@@ -0,0 +1,87 @@
+// src/components/vat-summary.tsx
+'use client';
+
+import React from 'react';
+import { AlertTriangle, Info } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { VatResult, VatScenario, VatStatus } from '@/lib/vat';
+
+interface VatSummaryProps {
+  vat: VatResult;
+  formatCurrency: (value: number | undefined) => string;
+  formatPercentage: (value: number | undefined) => string;
+}
+
+const statusLabels: Record<VatStatus, string> = {
+  FRANCHISE: "Franchise en base de TVA toute l'année (TVA non applicable, art. 293 B du CGI)",
+  LOST_DURING_YEAR: "Franchise en base perdue en cours d'année",
+  LIABLE: "Assujetti à la TVA toute l'année",
+  OPTION: "Assujetti à la TVA sur option",
+  EXEMPT: "Activité exonérée de TVA",
+};
+
+const scenarioRows: { label: string; value: (scenario: VatScenario) => number }[] = [
+  { label: "Chiffre d'affaires HT", value: (scenario) => scenario.revenue },
+  { label: "Prix payé par les clients (TTC)", value: (scenario) => scenario.clientPrice },
+  { label: "Coût pour les clients", value: (scenario) => scenario.clientCost },
+  { label: "TVA collectée", value: (scenario) => scenario.vatCollected },
+  { label: "TVA déductible", value: (scenario) => scenario.vatDeductible },
+  { label: "TVA à reverser", value: (scenario) => scenario.vatPayable },
+  { label: "Coût des charges", value: (scenario) => scenario.expenses },
+  { label: "Revenu net en micro", value: (scenario) => scenario.microNetIncome },
+];
+
+/**
+ * Shows the TVA treatment of the year next to the other one (franchise en base or assujettissement all year),
+ * at the prices kept for the clientele, with the warnings on the thresholds.
+ */
+export default function VatSummary({ vat, formatCurrency, formatPercentage }: VatSummaryProps) {
+  const alternativeLabel = vat.status === "FRANCHISE" ? "Avec TVA toute l'année" : "En franchise toute l'année";
+
+  return (
+    <div className="space-y-3 text-sm">
+      <p className="font-semibold">{statusLabels[vat.status]}</p>
+      {vat.lines.some((line) => !line.exempt) && (
+        <p className="text-xs text-muted-foreground">
+          Taux appliqués : {Array.from(new Set(vat.lines.filter((line) => !line.exempt).map((line) => line.rate))).map(formatPercentage).join(", ")}
+          {vat.deductionRatio < 1 && vat.deductionRatio > 0 && <> ; TVA sur les charges déductible à {formatPercentage(vat.deductionRatio)} (activité en partie exonérée)</>}
+        </p>
+      )}
+      {vat.status !== "EXEMPT" && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead />
+              <TableHead className="text-right">Cette année</TableHead>
+              <TableHead className="text-right">{alternativeLabel}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {scenarioRows.map((row) => (
+              <TableRow key={row.label}>
+                <TableCell>{row.label}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.value(vat.actual))}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.value(vat.alternative))}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+      {vat.status !== "EXEMPT" && (
+        <p className="text-xs text-muted-foreground">
+          {vat.settings.clientele === "B2B"
+            ? "Clientèle professionnelle : les prix HT sont conservés, la TVA facturée est récupérée par vos clients."
+            : "Clientèle de particuliers : les prix TTC sont conservés, la TVA facturée est prise sur votre marge."}
+          {" "}Écart de revenu net en micro : <span className="font-semibold">{formatCurrency(vat.netIncomeEffect)}</span> par rapport à la colonne de droite.
+        </p>
+      )}
+      {vat.warnings.map((warning) => (
+        <Alert key={warning.code} variant={warning.level === "warning" ? "destructive" : "default"}>
+          {warning.level === "warning" ? <AlertTriangle className="h-4 w-4" /> : <Info className="h-4 w-4" />}
+          <AlertDescription>{warning.message}</AlertDescription>
+        </Alert>
+      ))}
+    </div>
+  );
+}
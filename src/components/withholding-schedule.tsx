@@ -0,0 +1,129 @@
+// src/components/withholding-schedule.tsx
+'use client';
+
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { WithholdingEntryKind, WithholdingResult, WithholdingSchedule } from '@/lib/withholding';
+
+interface WithholdingScheduleProps {
+  withholding: WithholdingResult;
+  formatCurrency: (value: number | undefined) => string;
+  formatPercentage: (value: number | undefined) => string;
+}
+
+const entryKindLabels: Record<WithholdingEntryKind, string> = {
+  ACOMPTE: "Acompte",
+  COMPLEMENT: "Versement complémentaire",
+  REGULARISATION: "Solde de l'impôt",
+  REFUND: "Remboursement",
+};
+
+const rateRows: { label: string; value: (schedule: WithholdingSchedule) => number | null }[] = [
+  { label: "Taux personnalisé du foyer", value: (schedule) => schedule.personalizedRate },
+  { label: "Taux individualisé du déclarant", value: (schedule) => schedule.individualizedRate },
+  { label: "Taux neutre de la grille", value: (schedule) => schedule.neutralRate },
+  { label: "Taux appliqué aux acomptes", value: (schedule) => schedule.appliedRate },
+];
+
+interface ScheduleRow {
+  date: string;
+  kind: WithholdingEntryKind;
+  micro: number;
+  reel: number;
+}
+
+/**
+ * Merges the entries of both regimes by due date and nature.
+ */
+function mergeEntries(withholding: WithholdingResult): ScheduleRow[] {
+  const rows = new Map<string, ScheduleRow>();
+  for (const regime of ["micro", "reel"] as const) {
+    for (const entry of withholding[regime].entries) {
+      const key = `${entry.date}-${entry.kind}`;
+      const row = rows.get(key) ?? { date: entry.date, kind: entry.kind, micro: 0, reel: 0 };
+      row[regime] += entry.amount;
+      rows.set(key, row);
+    }
+  }
+  return Array.from(rows.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Shows the prélèvement à la source of the micro and of the réel: the rates, the acomptes of the year on the bénéfices
+ * and the solde or the refund of the following year.
+ */
+export default function WithholdingScheduleTable({ withholding, formatCurrency, formatPercentage }: WithholdingScheduleProps) {
+  const { micro, reel } = withholding;
+  const rows = mergeEntries(withholding);
+
+  return (
+    <div className="space-y-3 text-sm">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead />
+            <TableHead className="text-right">Micro</TableHead>
+            <TableHead className="text-right">Réel</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rateRows.filter((row) => row.value(micro) !== null).map((row) => (
+            <TableRow key={row.label}>
+              <TableCell>{row.label}</TableCell>
+              <TableCell className="text-right">{formatPercentage(row.value(micro) ?? undefined)}</TableCell>
+              <TableCell className="text-right">{formatPercentage(row.value(reel) ?? undefined)}</TableCell>
+            </TableRow>
+          ))}
+          <TableRow>
+            <TableCell>Bénéfice servant de base aux acomptes</TableCell>
+            <TableCell className="text-right">{formatCurrency(micro.acompteBase)}</TableCell>
+            <TableCell className="text-right">{formatCurrency(reel.acompteBase)}</TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+      {rows.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Échéance</TableHead>
+              <TableHead>Nature</TableHead>
+              <TableHead className="text-right">Micro</TableHead>
+              <TableHead className="text-right">Réel</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={`${row.date}-${row.kind}`}>
+                <TableCell>{format(parseISO(row.date), 'd MMMM yyyy', { locale: fr })}</TableCell>
+                <TableCell>{entryKindLabels[row.kind]}</TableCell>
+                <TableCell className="text-right">{row.micro !== 0 ? formatCurrency(row.micro) : "-"}</TableCell>
+                <TableCell className="text-right">{row.reel !== 0 ? formatCurrency(row.reel) : "-"}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell colSpan={2}>Acomptes de l'année</TableCell>
+              <TableCell className="text-right">{formatCurrency(micro.acomptes + micro.complements)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(reel.acomptes + reel.complements)}</TableCell>
+            </TableRow>
+            <TableRow>
+              <TableCell colSpan={2}>Régularisation l'année suivante</TableCell>
+              <TableCell className="text-right">{formatCurrency(micro.regularization)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(reel.regularization)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      ) : (
+        <p className="text-muted-foreground">Aucun acompte ni solde d'impôt : le foyer n'est pas imposable.</p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Les acomptes sont calculés sur le dernier bénéfice déclaré (aucun l'année de la création) ; le solde tient compte de l'impôt
+        déjà prélevé au taux du foyer sur ses autres revenus ({formatCurrency(micro.otherIncomeWithholding)} en micro). Avec le
+        versement libératoire, l'impôt est payé avec les cotisations et aucun acompte n'est dû.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+// src/components/withholding-settings-fields.tsx
+'use client';
+
+import React from 'react';
+import { useFormContext } from 'react-hook-form';
+import { CalendarClock } from 'lucide-react';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import type { FiscalNavigatorFormValues } from '@/components/fiscal-navigator-form-schema';
+import type { AcompteFrequency, WithholdingRateOption } from '@/lib/withholding';
+
+const withholdingRateLabels: Record<WithholdingRateOption, string> = {
+  PERSONNALISE: "Taux personnalisé du foyer",
+  INDIVIDUALISE: "Taux individualisé",
+  NEUTRE: "Taux neutre (non personnalisé)",
+};
+
+const acompteFrequencyLabels: Record<AcompteFrequency, string> = {
+  MONTHLY: "Mensuels",
+  QUARTERLY: "Trimestriels",
+};
+
+/**
+ * Prélèvement à la source settings of the simulation form: the rate option, the taux individualisé being offered
+ * to couples only, and the frequency of the acomptes.
+ */
+export default function WithholdingSettingsFields() {
+  const form = useFormContext<FiscalNavigatorFormValues>();
+  const isCouple = form.watch("household.familySituation") === "MARIE_PACSE";
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <p className="text-base font-medium flex items-center gap-2"><CalendarClock size={18}/>Prélèvement à la source</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="withholding.rateOption"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Taux de prélèvement</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.entries(withholdingRateLabels)
+                    .filter(([value]) => isCouple || value !== "INDIVIDUALISE")
+                    .map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>Avec le taux neutre, la différence avec le taux du foyer est versée chaque mois en complément.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="withholding.frequency"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Acomptes sur les bénéfices</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.entries(acompteFrequencyLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>Prélevés le 15 du mois, ou les 15 février, mai, août et novembre.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+// src/lib/assimile-salarie.ts
+
+import { getActivityShareOfYear, getReelAcreExemptionRate, getReelAcreShareOfIncome } from '@/lib/business-creation';
+import { DEFAULT_FISCAL_YEAR, getFiscalParameters, type FiscalYear } from '@/lib/fiscal-parameters';
+
+export type PayrollContributionLineId =
+  | "MALADIE"
+  | "VIEILLESSE_PLAFONNEE"
+  | "VIEILLESSE_DEPLAFONNEE"
+  | "ALLOCATIONS_FAMILIALES"
+  | "ACCIDENTS_TRAVAIL"
+  | "AUTONOMIE"
+  | "FNAL"
+  | "RETRAITE_COMPLEMENTAIRE_T1"
+  | "RETRAITE_COMPLEMENTAIRE_T2"
+  | "FORMATION"
+  | "CSG_DEDUCTIBLE"
+  | "CSG_CRDS_NON_DEDUCTIBLE";
+
+export interface PayrollContributionLine {
+  id: PayrollContributionLineId;
+  label: string;
+  base: number;
+  employeeRate: number;
+  employerRate: number;
+  acreExemption: number;   // Employee and employer contributions waived by the ACRE
+  employeeAmount: number;  // Part salariale, after the ACRE exemption
+  employerAmount: number;  // Part patronale, after the ACRE exemption
+  deductible: boolean;     // The part salariale is deductible from the taxable salary
+}
+
+export interface AssimileSalarieContributionsResult {
+  grossSalary: number;
+  lines: PayrollContributionLine[];
+  acreExemption: number;
+  employeeContributions: number;
+  employerContributions: number;
+  totalContributions: number;
+  employerCost: number;       // Gross salary + employer contributions, deductible from the company's profit
+  netSalary: number;          // Gross salary - employee contributions
+  netTaxableSalary: number;   // Net salary + CSG non déductible and CRDS, before the 10% deduction
+  retirementQuartersValidated: number;
+}
+
+export interface AssimileSalarieOptions {
+  fiscalYear?: FiscalYear;
+  creationDate?: string; // Date de création (YYYY-MM-DD)
+  acre?: boolean;
+}
+
+// Lines covered by the ACRE exemption, on both parts
+const ACRE_EXEMPT_LINES: PayrollContributionLineId[] = [
+  "MALADIE",
+  "VIEILLESSE_PLAFONNEE",
+  "VIEILLESSE_DEPLAFONNEE",
+  "ALLOCATIONS_FAMILIALES",
+];
+
+function buildLine(
+  id: PayrollContributionLineId,
+  label: string,
+  base: number,
+  employeeRate: number,
+  employerRate: number,
+  acreFactor: number,
+  deductible = true
+): PayrollContributionLine {
+  const exemptedFactor = ACRE_EXEMPT_LINES.includes(id) ? acreFactor : 0;
+  const employeeAmount = base * employeeRate;
+  const employerAmount = base * employerRate;
+  return {
+    id,
+    label,
+    base: parseFloat(base.toFixed(2)),
+    employeeRate,
+    employerRate,
+    acreExemption: parseFloat(((employeeAmount + employerAmount) * exemptedFactor).toFixed(2)),
+    employeeAmount: parseFloat((employeeAmount * (1 - exemptedFactor)).toFixed(2)),
+    employerAmount: parseFloat((employerAmount * (1 - exemptedFactor)).toFixed(2)),
+    deductible,
+  };
+}
+
+/**
+ * Calculates the social contributions of an assimilé salarié, such as the président of a SASU.
+ * The président pays the contributions of a salarié except the assurance chômage: maladie, vieillesse,
+ * Agirc-Arrco retraite complémentaire and CSG/CRDS, plus the employer contributions of the company.
+ * The reduced maladie and allocations familiales rates apply up to a multiple of the annual SMIC.
+ * With the ACRE, the maladie, vieillesse and allocations familiales lines are waived during the first twelve months,
+ * fully below 75% of the PASS and degressively up to the PASS.
+ * @param grossSalary The annual gross salary (rémunération brute).
+ * @param options The fiscal year of the parameters to apply, the creation date and the ACRE.
+ * @returns Each contribution line, the net salary, the net taxable salary and the cost for the company.
+ */
+export function calculateAssimileSalarieContributions(
+  grossSalary: number,
+  options: AssimileSalarieOptions = {}
+): AssimileSalarieContributionsResult {
+  const fiscalYear = options.fiscalYear ?? DEFAULT_FISCAL_YEAR;
+  const { pass, smicHourly, ssi, assimileSalarie: rates } = getFiscalParameters(fiscalYear).social;
+  const gross = Math.max(0, grossSalary);
+  const annualSmic = smicHourly * rates.annualSmicHours;
+
+  let acreFactor = 0;
+  const activityShare = getActivityShareOfYear(options.creationDate, fiscalYear);
+  if (options.acre && activityShare > 0) {
+    acreFactor = getReelAcreExemptionRate(gross / activityShare, fiscalYear) * getReelAcreShareOfIncome(options.creationDate, fiscalYear);
+  }
+
+  const cappedBase = Math.min(gross, pass);
+  const secondTrancheBase = Math.max(0, Math.min(gross, pass * rates.retraiteComplementaire.secondTrancheEndPassRatio) - pass);
+  const abatedCeiling = pass * rates.csgCrds.abatementCeilingPassRatio;
+  const csgBase = Math.min(gross, abatedCeiling) * rates.csgCrds.baseRate + Math.max(0, gross - abatedCeiling);
+
+  const maladieRate = gross <= annualSmic * rates.maladie.reducedRateSmicRatio ? rates.maladie.reducedEmployerRate : rates.maladie.employerRate;
+  const familyRate = gross <= annualSmic * rates.allocationsFamiliales.reducedRateSmicRatio
+    ? rates.allocationsFamiliales.reducedEmployerRate
+    : rates.allocationsFamiliales.employerRate;
+
+  const lines = [
+    buildLine("MALADIE", "Maladie-maternité", gross, 0, maladieRate, acreFactor),
+    buildLine("VIEILLESSE_PLAFONNEE", "Vieillesse plafonnée", cappedBase, rates.vieillesse.employeeCappedRate, rates.vieillesse.employerCappedRate, acreFactor),
+    buildLine("VIEILLESSE_DEPLAFONNEE", "Vieillesse déplafonnée", gross, rates.vieillesse.employeeUncappedRate, rates.vieillesse.employerUncappedRate, acreFactor),
+    buildLine("ALLOCATIONS_FAMILIALES", "Allocations familiales", gross, 0, familyRate, acreFactor),
+    buildLine("ACCIDENTS_TRAVAIL", "Accidents du travail", gross, 0, rates.accidentsTravail.employerRate, acreFactor),
+    buildLine("AUTONOMIE", "Contribution solidarité autonomie", gross, 0, rates.autonomie.employerRate, acreFactor),
+    buildLine("FNAL", "FNAL", Math.min(gross, pass * rates.fnal.ceilingPassRatio), 0, rates.fnal.employerRate, acreFactor),
+    buildLine("RETRAITE_COMPLEMENTAIRE_T1", "Retraite complémentaire Agirc-Arrco (tranche 1)", cappedBase, rates.retraiteComplementaire.employeeRateT1, rates.retraiteComplementaire.employerRateT1, acreFactor),
+    buildLine("RETRAITE_COMPLEMENTAIRE_T2", "Retraite complémentaire Agirc-Arrco (tranche 2)", secondTrancheBase, rates.retraiteComplementaire.employeeRateT2, rates.retraiteComplementaire.employerRateT2, acreFactor),
+    buildLine("FORMATION", "Formation professionnelle et taxe d'apprentissage", gross, 0, rates.formation.employerRate, acreFactor),
+    buildLine("CSG_DEDUCTIBLE", "CSG déductible", csgBase, rates.csgCrds.deductibleRate, 0, acreFactor),
+    buildLine("CSG_CRDS_NON_DEDUCTIBLE", "CSG non déductible et CRDS", csgBase, rates.csgCrds.nonDeductibleRate, 0, acreFactor, false),
+  ];
+
+  const sum = (pick: (line: PayrollContributionLine) => number) => lines.reduce((total, line) => total + pick(line), 0);
+  const employeeContributions = sum((line) => line.employeeAmount);
+  const employerContributions = sum((line) => line.employerAmount);
+  const nonDeductible = sum((line) => (line.deductible ? 0 : line.employeeAmount));
+  const netSalary = gross - employeeContributions;
+
+  return {
+    grossSalary: parseFloat(gross.toFixed(2)),
+    lines,
+    acreExemption: parseFloat(sum((line) => line.acreExemption).toFixed(2)),
+    employeeContributions: parseFloat(employeeContributions.toFixed(2)),
+    employerContributions: parseFloat(employerContributions.toFixed(2)),
+    totalContributions: parseFloat((employeeContributions + employerContributions).toFixed(2)),
+    employerCost: parseFloat((gross + employerContributions).toFixed(2)),
+    netSalary: parseFloat(netSalary.toFixed(2)),
+    netTaxableSalary: parseFloat((netSalary + nonDeductible).toFixed(2)),
+    retirementQuartersValidated: Math.min(4, Math.floor(gross / (ssi.retirementQuarterSmicHours * smicHourly))),
+  };
+}
@@ -0,0 +1,187 @@
+// src/lib/break-even.ts
+
+import { DEFAULT_FISCAL_YEAR, getFiscalParameters } from '@/lib/fiscal-parameters';
+import { getThresholdCategory } from '@/lib/micro-eligibility';
+import {
+  calculateMicroRegimeTax,
+  calculateReelRegimeTax,
+  getMainActivityType,
+  getTotalRevenue,
+  type RegimeOptions,
+  type RevenueLine,
+} from '@/lib/tax-calculator';
+
+// CROSSING: the réel beats the micro above the break-even expense ratio
+export type ExpenseBreakEvenStatus = "CROSSING" | "REEL_ALWAYS_BETTER" | "MICRO_ALWAYS_BETTER";
+
+// REEL_ABOVE: the réel beats the micro above the break-even revenue; REEL_BELOW: below it
+export type RevenueBreakEvenDirection = "REEL_ABOVE" | "REEL_BELOW";
+
+export interface BreakEvenCurvePoint {
+  expenseRatio: number;   // Expenses / revenue
+  expenses: number;
+  microNetIncome: number;
+  reelNetIncome: number;
+}
+
+export interface BreakEvenResult {
+  annualRevenue: number;
+  currentExpenseRatio: number;
+  currentDifference: number;            // Réel net - micro net with the expenses entered
+  expenseRatioStatus: ExpenseBreakEvenStatus;
+  breakEvenExpenseRatio: number | null; // Expense ratio where both nets are equal, at the revenue entered
+  breakEvenExpenses: number | null;
+  revenueBreakEven: number | null;      // Revenue where both nets are equal, at the current expense ratio, up to the micro ceiling
+  revenueBreakEvenDirection: RevenueBreakEvenDirection | null;
+  revenueSearchCeiling: number;         // Micro ceiling of the activité principale
+  curve: BreakEvenCurvePoint[];         // Both nets against the expense ratio, at the revenue entered
+  summary: string;                      // Interpretable sentence, in French
+}
+
+const MAX_EXPENSE_RATIO = 0.95;
+const CURVE_STEPS = 19;
+const REVENUE_STEPS = 20;
+const BISECTION_ITERATIONS = 40;
+
+function formatAmount(value: number): string {
+  return value.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 });
+}
+
+function formatRatio(value: number): string {
+  return `${(value * 100).toLocaleString('fr-FR', { maximumFractionDigits: 1 })} %`;
+}
+
+/**
+ * Finds where a function changes sign between low and high, by bisection.
+ */
+function findRoot(low: number, high: number, difference: (value: number) => number): number {
+  const lowSign = Math.sign(difference(low));
+  for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    if (Math.sign(difference(mid)) === lowSign) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+function scaleRevenueLines(revenueLines: RevenueLine[], factor: number): RevenueLine[] {
+  return revenueLines.map((line) => ({ ...line, annualRevenue: Math.max(0, line.annualRevenue) * factor }));
+}
+
+function buildSummary(result: Omit<BreakEvenResult, "summary">): string {
+  const sentences: string[] = [];
+  if (result.expenseRatioStatus === "CROSSING" && result.breakEvenExpenseRatio !== null && result.breakEvenExpenses !== null) {
+    sentences.push(
+      `Avec ${formatAmount(result.annualRevenue)} de chiffre d'affaires, le régime réel devient plus avantageux que le micro au-delà de ${formatAmount(result.breakEvenExpenses)} de charges (${formatRatio(result.breakEvenExpenseRatio)} du chiffre d'affaires).`
+    );
+  } else if (result.expenseRatioStatus === "REEL_ALWAYS_BETTER") {
+    sentences.push(`Avec ${formatAmount(result.annualRevenue)} de chiffre d'affaires, le régime réel est plus avantageux que le micro quel que soit le niveau de charges.`);
+  } else {
+    sentences.push(
+      `Avec ${formatAmount(result.annualRevenue)} de chiffre d'affaires, le micro reste plus avantageux que le réel jusqu'à ${formatRatio(MAX_EXPENSE_RATIO)} de charges.`
+    );
+  }
+  if (result.revenueBreakEven !== null) {
+    sentences.push(
+      `À taux de charges constant (${formatRatio(result.currentExpenseRatio)}), le réel est plus avantageux ${result.revenueBreakEvenDirection === "REEL_ABOVE" ? "au-delà" : "en deçà"} de ${formatAmount(result.revenueBreakEven)} de chiffre d'affaires.`
+    );
+  } else {
+    sentences.push(
+      `À taux de charges constant (${formatRatio(result.currentExpenseRatio)}), le régime le plus avantageux ne change pas jusqu'au plafond du micro (${formatAmount(result.revenueSearchCeiling)}).`
+    );
+  }
+  return sentences.join(" ");
+}
+
+/**
+ * Finds where the régime réel starts beating the micro: the expense ratio where both net incomes cross at the
+ * revenue entered, and the revenue where they cross at the expense ratio entered, up to the micro ceiling.
+ * Both regimes are computed with the same household, fiscal year and ACRE as the simulation.
+ * @param revenueLines The revenue of each activity; a mixed activity is scaled proportionally.
+ * @param annualExpenses The actual annual expenses.
+ * @param options The household composition, the fiscal year, the other income of the foyer, the ACRE and the caisse de retraite.
+ * @returns The break-even expense ratio and revenue, the curve of both nets against the expense ratio and a summary sentence.
+ */
+export function calculateMicroReelBreakEven(
+  revenueLines: RevenueLine[],
+  annualExpenses: number,
+  options: RegimeOptions = {}
+): BreakEvenResult {
+  const fiscalYear = options.fiscalYear ?? DEFAULT_FISCAL_YEAR;
+  const activityType = getMainActivityType(revenueLines);
+  const annualRevenue = getTotalRevenue(revenueLines);
+  const currentExpenseRatio = annualRevenue > 0 ? Math.min(1, Math.max(0, annualExpenses) / annualRevenue) : 0;
+
+  const compare = (lines: RevenueLine[], expenses: number): BreakEvenCurvePoint => {
+    const revenue = getTotalRevenue(lines);
+    const micro = calculateMicroRegimeTax(lines, expenses, options);
+    const reel = calculateReelRegimeTax(revenue, expenses, activityType, options);
+    return {
+      expenseRatio: revenue > 0 ? parseFloat((expenses / revenue).toFixed(4)) : 0,
+      expenses: parseFloat(expenses.toFixed(2)),
+      microNetIncome: micro.netIncomeAfterAll,
+      reelNetIncome: reel.netIncomeAfterAllContributions,
+    };
+  };
+  const differenceAtRatio = (ratio: number) => {
+    const point = compare(revenueLines, annualRevenue * ratio);
+    return point.reelNetIncome - point.microNetIncome;
+  };
+
+  const curve: BreakEvenCurvePoint[] = [];
+  for (let step = 0; step <= CURVE_STEPS; step++) {
+    curve.push(compare(revenueLines, annualRevenue * (MAX_EXPENSE_RATIO * step) / CURVE_STEPS));
+  }
+
+  // The réel gains on the micro as the expenses grow, so the nets cross at most once
+  let expenseRatioStatus: ExpenseBreakEvenStatus = "MICRO_ALWAYS_BETTER";
+  let breakEvenExpenseRatio: number | null = null;
+  if (annualRevenue > 0 && differenceAtRatio(0) >= 0) {
+    expenseRatioStatus = "REEL_ALWAYS_BETTER";
+  } else if (annualRevenue > 0 && differenceAtRatio(MAX_EXPENSE_RATIO) > 0) {
+    expenseRatioStatus = "CROSSING";
+    breakEvenExpenseRatio = findRoot(0, MAX_EXPENSE_RATIO, differenceAtRatio);
+  }
+
+  // The revenue break-even is searched on a grid up to the ceiling, then refined on the first change of sign
+  const { revenueCeilings } = getFiscalParameters(fiscalYear).micro;
+  const revenueSearchCeiling = revenueCeilings[getThresholdCategory(activityType)];
+  const referenceRevenue = annualRevenue > 0 ? annualRevenue : 1;
+  const referenceLines = annualRevenue > 0 ? revenueLines : [{ activityType, annualRevenue: 1 }];
+  const differenceAtRevenue = (revenue: number) => {
+    const point = compare(scaleRevenueLines(referenceLines, revenue / referenceRevenue), revenue * currentExpenseRatio);
+    return point.reelNetIncome - point.microNetIncome;
+  };
+
+  let revenueBreakEven: number | null = null;
+  let revenueBreakEvenDirection: RevenueBreakEvenDirection | null = null;
+  let previousRevenue = revenueSearchCeiling / REVENUE_STEPS;
+  let previousDifference = differenceAtRevenue(previousRevenue);
+  for (let step = 2; step <= REVENUE_STEPS && revenueBreakEven === null; step++) {
+    const revenue = (revenueSearchCeiling * step) / REVENUE_STEPS;
+    const difference = differenceAtRevenue(revenue);
+    if (Math.sign(difference) !== Math.sign(previousDifference) && difference !== 0) {
+      revenueBreakEven = findRoot(previousRevenue, revenue, differenceAtRevenue);
+      revenueBreakEvenDirection = difference > 0 ? "REEL_ABOVE" : "REEL_BELOW";
+    }
+    previousRevenue = revenue;
+    previousDifference = difference;
+  }
+
+  const result = {
+    annualRevenue: parseFloat(annualRevenue.toFixed(2)),
+    currentExpenseRatio: parseFloat(currentExpenseRatio.toFixed(4)),
+    currentDifference: parseFloat(differenceAtRatio(currentExpenseRatio).toFixed(2)),
+    expenseRatioStatus,
+    breakEvenExpenseRatio: breakEvenExpenseRatio === null ? null : parseFloat(breakEvenExpenseRatio.toFixed(4)),
+    breakEvenExpenses: breakEvenExpenseRatio === null ? null : parseFloat((annualRevenue * breakEvenExpenseRatio).toFixed(2)),
+    revenueBreakEven: revenueBreakEven === null ? null : parseFloat(revenueBreakEven.toFixed(2)),
+    revenueBreakEvenDirection,
+    revenueSearchCeiling,
+    curve,
+  };
+  return { ...result, summary: buildSummary(result) };
+}
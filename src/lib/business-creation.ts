@@ -0,0 +1,118 @@
+// src/lib/business-creation.ts
+
+import { DEFAULT_FISCAL_YEAR, getFiscalParameters, type FiscalYear } from '@/lib/fiscal-parameters';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+interface DayRange {
+  start: number; // UTC timestamp of the first day
+  end: number;   // UTC timestamp of the last day, included
+}
+
+/**
+ * Parses a date in the ISO "YYYY-MM-DD" format to a UTC timestamp, ignoring the time zone.
+ * Returns undefined for an empty or invalid value.
+ */
+export function parseIsoDate(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (!match) return undefined;
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+function getYearRange(fiscalYear: FiscalYear): DayRange {
+  return { start: Date.UTC(fiscalYear, 0, 1), end: Date.UTC(fiscalYear, 11, 31) };
+}
+
+function countDays(range: DayRange): number {
+  return range.end < range.start ? 0 : Math.round((range.end - range.start) / DAY_IN_MS) + 1;
+}
+
+function intersect(a: DayRange, b: DayRange): DayRange {
+  return { start: Math.max(a.start, b.start), end: Math.min(a.end, b.end) };
+}
+
+/**
+ * Period of activity within the simulated year: the whole year, or from the creation date.
+ */
+function getActivityRange(creationDate: string | undefined, fiscalYear: FiscalYear): DayRange {
+  const year = getYearRange(fiscalYear);
+  const creation = parseIsoDate(creationDate);
+  return creation === undefined ? year : intersect(year, { start: creation, end: year.end });
+}
+
+/**
+ * Returns the share of the simulated year during which the business is active.
+ * @param creationDate The business creation date (YYYY-MM-DD), undefined for an existing business.
+ * @param fiscalYear The simulated year.
+ * @returns 1 for a full year, less in the year of creation, 0 if the business is created later.
+ */
+export function getActivityShareOfYear(creationDate: string | undefined, fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR): number {
+  return countDays(getActivityRange(creationDate, fiscalYear)) / countDays(getYearRange(fiscalYear));
+}
+
+/**
+ * Returns true when the simulated year is the year the business was created.
+ */
+export function isCreationYear(creationDate: string | undefined, fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR): boolean {
+  const creation = parseIsoDate(creationDate);
+  return creation !== undefined && new Date(creation).getUTCFullYear() === fiscalYear;
+}
+
+/**
+ * Share of the revenue of the simulated year earned while an aid period runs,
+ * assuming the revenue is spread evenly over the days of activity.
+ */
+function getShareOfActivityCovered(period: DayRange, creationDate: string | undefined, fiscalYear: FiscalYear): number {
+  const activity = getActivityRange(creationDate, fiscalYear);
+  const activityDays = countDays(activity);
+  if (activityDays === 0) return 0;
+  return countDays(intersect(activity, period)) / activityDays;
+}
+
+/**
+ * ACRE in micro: the reduced rate applies from the creation date until the end of the
+ * third calendar quarter following the quarter of creation (four quarters in total).
+ * @param creationDate The business creation date (YYYY-MM-DD).
+ * @param fiscalYear The simulated year.
+ * @returns The share of the year's revenue that benefits from the reduced rate.
+ */
+export function getMicroAcreShareOfRevenue(creationDate: string | undefined, fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR): number {
+  const creation = parseIsoDate(creationDate);
+  if (creation === undefined) return 0;
+  const creationDay = new Date(creation);
+  const creationQuarter = Math.floor(creationDay.getUTCMonth() / 3);
+  // Day 0 of the month following the fourth quarter is the last day of that quarter
+  const end = Date.UTC(creationDay.getUTCFullYear(), (creationQuarter + 4) * 3, 0);
+  return getShareOfActivityCovered({ start: creation, end }, creationDate, fiscalYear);
+}
+
+/**
+ * ACRE in réel: the exemption lasts twelve months from the creation date.
+ * @param creationDate The business creation date (YYYY-MM-DD).
+ * @param fiscalYear The simulated year.
+ * @returns The share of the year's income that falls within the exemption period.
+ */
+export function getReelAcreShareOfIncome(creationDate: string | undefined, fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR): number {
+  const creation = parseIsoDate(creationDate);
+  if (creation === undefined) return 0;
+  const creationDay = new Date(creation);
+  const end = Date.UTC(creationDay.getUTCFullYear() + 1, creationDay.getUTCMonth(), creationDay.getUTCDate() - 1);
+  return getShareOfActivityCovered({ start: creation, end }, creationDate, fiscalYear);
+}
+
+/**
+ * Rate of the ACRE exemption in réel, degressive with the annual income:
+ * total below 75% of the PASS, decreasing linearly to nothing at 100% of the PASS.
+ * @param annualIncome The annualized income subject to contributions.
+ * @param fiscalYear The year of the PASS to apply.
+ * @returns The share of the exemptable contributions actually exempted, between 0 and 1.
+ */
+export function getReelAcreExemptionRate(annualIncome: number, fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR): number {
+  const { pass, acre } = getFiscalParameters(fiscalYear).social;
+  const fullExemptionCeiling = pass * acre.reelFullExemptionPassRatio;
+  const exemptionEnd = pass * acre.reelExemptionEndPassRatio;
+  if (annualIncome <= fullExemptionCeiling) return 1;
+  if (annualIncome >= exemptionEnd) return 0;
+  return (exemptionEnd - annualIncome) / (exemptionEnd - fullExemptionCeiling);
+}
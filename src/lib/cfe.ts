@@ -0,0 +1,121 @@
+// src/lib/cfe.ts
+
+import { parseIsoDate } from '@/lib/business-creation';
+import { DEFAULT_FISCAL_YEAR, getFiscalParameters, type CfeMinimumBaseBracket, type FiscalYear } from '@/lib/fiscal-parameters';
+
+/**
+ * A commune of the bundled table, with the rate of CFE voted by the commune and its intercommunalité.
+ */
+export interface CfeCommune {
+  id: string;
+  label: string;
+  rate: number;
+}
+
+// Indicative rates of a few large communes; the avis de CFE of the commune prevails
+export const CFE_COMMUNES: CfeCommune[] = [
+  { id: "MOYENNE", label: "Moyenne nationale", rate: 0.2640 },
+  { id: "PARIS", label: "Paris", rate: 0.2052 },
+  { id: "MARSEILLE", label: "Marseille", rate: 0.3102 },
+  { id: "LYON", label: "Lyon", rate: 0.2862 },
+  { id: "TOULOUSE", label: "Toulouse", rate: 0.3421 },
+  { id: "NICE", label: "Nice", rate: 0.3224 },
+  { id: "NANTES", label: "Nantes", rate: 0.3129 },
+  { id: "STRASBOURG", label: "Strasbourg", rate: 0.2780 },
+  { id: "MONTPELLIER", label: "Montpellier", rate: 0.3368 },
+  { id: "BORDEAUX", label: "Bordeaux", rate: 0.3506 },
+  { id: "LILLE", label: "Lille", rate: 0.3452 },
+  { id: "RENNES", label: "Rennes", rate: 0.2713 },
+];
+
+export const MANUAL_CFE_COMMUNE = "MANUAL";
+
+/**
+ * The commune where the business is established and, when known, what it votes.
+ */
+export interface CfeSettings {
+  communeId: string;     // Commune of the bundled table, or MANUAL_CFE_COMMUNE
+  manualRate?: number;   // Rate of a commune outside the table
+  minimumBase?: number;  // Base minimum voted by the commune; the top of the bracket when unknown
+  rentalValue?: number;  // Valeur locative des locaux professionnels, 0 when working from home
+}
+
+export const DEFAULT_CFE_SETTINGS: CfeSettings = { communeId: "MOYENNE" };
+
+// CREATION_YEAR: no CFE the year of creation; LOW_REVENUE: no cotisation minimum at a low chiffre d'affaires
+export type CfeExemption = "CREATION_YEAR" | "LOW_REVENUE";
+
+export interface CfeResult {
+  communeLabel: string;
+  rate: number;
+  minimumBaseBracket: CfeMinimumBaseBracket; // Bracket of the chiffre d'affaires
+  minimumBase: number;        // Base minimum retained, 0 when exempted
+  rentalValue: number;
+  base: number;               // Greater of the valeur locative and the base minimum
+  secondYearReduction: number; // Base removed the year following the creation
+  taxableBase: number;
+  exemption: CfeExemption | null;
+  amount: number;
+}
+
+function getCreationYear(creationDate: string | undefined): number | undefined {
+  const creation = parseIsoDate(creationDate);
+  return creation === undefined ? undefined : new Date(creation).getUTCFullYear();
+}
+
+/**
+ * Estimates the cotisation foncière des entreprises of the year.
+ * The base is the valeur locative of the premises, raised to the base minimum of the commune, which depends on the
+ * chiffre d'affaires. The business pays no CFE the year of its creation and half of it the following year; at or
+ * below the exemption threshold of chiffre d'affaires, the base minimum does not apply.
+ * The chiffre d'affaires of the year stands for the one of the reference period (N-2). Frais de gestion and taxes
+ * additionnelles are not included.
+ * @param annualRevenue The chiffre d'affaires of the business.
+ * @param settings The commune and, when known, its base minimum and the valeur locative of the premises.
+ * @param fiscalYear The year of the CFE.
+ * @param creationDate The business creation date (YYYY-MM-DD), undefined for an existing business.
+ * @returns The base, the exemption or reduction applied and the amount of CFE.
+ */
+export function calculateCfe(
+  annualRevenue: number,
+  settings: CfeSettings,
+  fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR,
+  creationDate?: string
+): CfeResult {
+  const { cfe } = getFiscalParameters(fiscalYear);
+  const revenue = Math.max(0, annualRevenue);
+  const commune = CFE_COMMUNES.find((entry) => entry.id === settings.communeId);
+  const rate = commune ? commune.rate : Math.max(0, settings.manualRate ?? 0);
+  const minimumBaseBracket = cfe.minimumBaseBrackets.find((bracket) => revenue <= bracket.revenueLimit)
+    ?? cfe.minimumBaseBrackets[cfe.minimumBaseBrackets.length - 1];
+  const rentalValue = Math.max(0, settings.rentalValue ?? 0);
+
+  const creationYear = getCreationYear(creationDate);
+  let exemption: CfeExemption | null = null;
+  if (creationYear !== undefined && creationYear >= fiscalYear) {
+    exemption = "CREATION_YEAR";
+  } else if (revenue <= cfe.minimumBaseExemptionRevenue) {
+    exemption = "LOW_REVENUE";
+  }
+
+  // The base minimum voted by the commune stays within the bracket
+  const minimumBase = exemption === null
+    ? Math.min(minimumBaseBracket.max, Math.max(minimumBaseBracket.min, settings.minimumBase ?? minimumBaseBracket.max))
+    : 0;
+  const base = exemption === "CREATION_YEAR" ? 0 : Math.max(rentalValue, minimumBase);
+  const secondYearReduction = creationYear === fiscalYear - 1 ? base * cfe.secondYearBaseReduction : 0;
+  const taxableBase = base - secondYearReduction;
+
+  return {
+    communeLabel: commune?.label ?? "Taux saisi",
+    rate,
+    minimumBaseBracket,
+    minimumBase: parseFloat(minimumBase.toFixed(2)),
+    rentalValue,
+    base: parseFloat(base.toFixed(2)),
+    secondYearReduction: parseFloat(secondYearReduction.toFixed(2)),
+    taxableBase: parseFloat(taxableBase.toFixed(2)),
+    exemption,
+    amount: parseFloat((taxableBase * rate).toFixed(2)),
+  };
+}
@@ -0,0 +1,76 @@
+// src/lib/company-tax.ts
+
+import { DEFAULT_FISCAL_YEAR, getFiscalParameters, type FiscalYear } from '@/lib/fiscal-parameters';
+
+// PFU: prélèvement forfaitaire unique; BAREME: option globale pour le barème progressif
+export type DividendTaxOption = "PFU" | "BAREME";
+
+export interface CorporateTaxResult {
+  taxableProfit: number;
+  reducedRateBase: number; // Part of the profit taxed at the taux réduit PME
+  normalRateBase: number;
+  amount: number;
+}
+
+/**
+ * Calculates the impôt sur les sociétés of a small company: the taux réduit applies up to its ceiling,
+ * the taux normal above. A loss gives no tax.
+ * @param taxableProfit The profit after the remuneration of the dirigeant and its contributions.
+ * @param fiscalYear The fiscal year of the parameters to apply.
+ */
+export function calculateCorporateTax(taxableProfit: number, fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR): CorporateTaxResult {
+  const { corporateTax } = getFiscalParameters(fiscalYear).company;
+  const profit = Math.max(0, taxableProfit);
+  const reducedRateBase = Math.min(profit, corporateTax.reducedRateCeiling);
+  const normalRateBase = profit - reducedRateBase;
+  const amount = reducedRateBase * corporateTax.reducedRate + normalRateBase * corporateTax.normalRate;
+
+  return {
+    taxableProfit: parseFloat(profit.toFixed(2)),
+    reducedRateBase: parseFloat(reducedRateBase.toFixed(2)),
+    normalRateBase: parseFloat(normalRateBase.toFixed(2)),
+    amount: parseFloat(amount.toFixed(2)),
+  };
+}
+
+export interface DividendFlatTaxResult {
+  incomeTax: number;    // Prélèvement forfaitaire unique, part impôt sur le revenu
+  socialLevies: number; // Prélèvements sociaux
+  total: number;
+}
+
+/**
+ * Calculates the prélèvement forfaitaire unique (flat tax) on the dividends received by an individual.
+ * @param dividends The dividends received.
+ * @param fiscalYear The fiscal year of the parameters to apply.
+ */
+export function calculateDividendFlatTax(dividends: number, fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR): DividendFlatTaxResult {
+  const rates = getFiscalParameters(fiscalYear).company.dividends;
+  const amount = Math.max(0, dividends);
+  const incomeTax = amount * rates.flatTaxIncomeRate;
+  const socialLevies = amount * rates.socialLevyRate;
+
+  return {
+    incomeTax: parseFloat(incomeTax.toFixed(2)),
+    socialLevies: parseFloat(socialLevies.toFixed(2)),
+    total: parseFloat((incomeTax + socialLevies).toFixed(2)),
+  };
+}
+
+/**
+ * Calculates the dividends added to the revenu imposable when the foyer opts for the barème progressif:
+ * the dividends after the 40% abattement, minus the CSG déductible on the part bearing the prélèvements sociaux.
+ * @param dividends The dividends received.
+ * @param dividendsBearingSocialLevies The part of the dividends bearing the prélèvements sociaux.
+ * @param fiscalYear The fiscal year of the parameters to apply.
+ */
+export function calculateDividendProgressiveTaxableIncome(
+  dividends: number,
+  dividendsBearingSocialLevies: number,
+  fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR
+): number {
+  const rates = getFiscalParameters(fiscalYear).company.dividends;
+  const amount = Math.max(0, dividends);
+  const taxableIncome = amount * (1 - rates.progressiveAllowanceRate) - Math.max(0, dividendsBearingSocialLevies) * rates.deductibleCsgRate;
+  return parseFloat(Math.max(0, taxableIncome).toFixed(2));
+}
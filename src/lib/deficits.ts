@@ -0,0 +1,78 @@
+// src/lib/deficits.ts
+
+import { DEFAULT_FISCAL_YEAR, getFiscalParameters, type FiscalYear } from '@/lib/fiscal-parameters';
+
+/**
+ * A déficit professionnel not yet imputed, with the year it arose.
+ */
+export interface CarriedForwardDeficit {
+  year: number;
+  amount: number;
+}
+
+export interface DeficitImputationResult {
+  activityResult: number;              // Taxable result of the activity, negative for a deficit
+  deficitOfYear: number;               // Deficit of the activity, before imputation
+  deficitImputedOnGlobalIncome: number; // Part of it deducted from the other income of the foyer
+  priorDeficitsImputed: number;         // Deficits of previous years deducted from the revenu global
+  globalIncome: number;                 // Revenu global of the foyer after imputation, never negative
+  deficitsCarriedForward: CarriedForwardDeficit[]; // Deficits left for the following years, oldest first
+  expiredDeficits: number;              // Deficits lost because they are older than the carry-forward period
+  carryForwardYears: number;            // Years during which a deficit remains reportable
+}
+
+/**
+ * Imputes the result of a professional BIC or BNC activity on the revenu global of the foyer.
+ * A deficit of the year is deducted from the other income; what exceeds it is carried forward.
+ * Deficits of previous years are deducted, oldest first, from the revenu global of the year while they are
+ * within the carry-forward period; older ones are lost.
+ * @param activityResult The taxable result of the activity, negative for a deficit.
+ * @param otherTaxableIncome The other taxable income of the foyer.
+ * @param carriedForward The deficits of previous years not yet imputed.
+ * @param fiscalYear The year of the imputation.
+ * @returns The revenu global after imputation and the deficits left for the following years.
+ */
+export function imputeProfessionalDeficits(
+  activityResult: number,
+  otherTaxableIncome: number,
+  carriedForward: CarriedForwardDeficit[] = [],
+  fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR
+): DeficitImputationResult {
+  const { deficitCarryForwardYears } = getFiscalParameters(fiscalYear).incomeTax;
+  const otherIncome = Math.max(0, otherTaxableIncome);
+  const deficitOfYear = Math.max(0, -activityResult);
+  const deficitImputedOnGlobalIncome = Math.min(deficitOfYear, otherIncome);
+  let globalIncome = Math.max(0, otherIncome + activityResult);
+
+  const prior = carriedForward
+    .filter((deficit) => deficit.amount > 0 && deficit.year < fiscalYear)
+    .sort((a, b) => a.year - b.year);
+  const expiredDeficits = prior
+    .filter((deficit) => deficit.year < fiscalYear - deficitCarryForwardYears)
+    .reduce((sum, deficit) => sum + deficit.amount, 0);
+
+  let priorDeficitsImputed = 0;
+  const remaining: CarriedForwardDeficit[] = [];
+  for (const deficit of prior.filter((deficit) => deficit.year >= fiscalYear - deficitCarryForwardYears)) {
+    const imputed = Math.min(deficit.amount, globalIncome);
+    globalIncome -= imputed;
+    priorDeficitsImputed += imputed;
+    if (deficit.amount - imputed > 0) {
+      remaining.push({ year: deficit.year, amount: parseFloat((deficit.amount - imputed).toFixed(2)) });
+    }
+  }
+  if (deficitOfYear > deficitImputedOnGlobalIncome) {
+    remaining.push({ year: fiscalYear, amount: parseFloat((deficitOfYear - deficitImputedOnGlobalIncome).toFixed(2)) });
+  }
+
+  return {
+    activityResult: parseFloat(activityResult.toFixed(2)),
+    deficitOfYear: parseFloat(deficitOfYear.toFixed(2)),
+    deficitImputedOnGlobalIncome: parseFloat(deficitImputedOnGlobalIncome.toFixed(2)),
+    priorDeficitsImputed: parseFloat(priorDeficitsImputed.toFixed(2)),
+    globalIncome: parseFloat(Math.max(0, globalIncome).toFixed(2)),
+    deficitsCarriedForward: remaining,
+    expiredDeficits: parseFloat(expiredDeficits.toFixed(2)),
+    carryForwardYears: deficitCarryForwardYears,
+  };
+}
@@ -0,0 +1,185 @@
+// src/lib/eurl.ts
+
+import {
+  calculateCorporateTax,
+  calculateDividendProgressiveTaxableIncome,
+  type CorporateTaxResult,
+  type DividendTaxOption,
+} from '@/lib/company-tax';
+import { DEFAULT_FISCAL_YEAR, getFiscalParameters, type FiscalYear } from '@/lib/fiscal-parameters';
+import { calculateTnsContributionsOnIncome, type SocialContributionLine } from '@/lib/social-contributions';
+import {
+  calculateActivityIncomeTax,
+  calculateOtherTaxableIncome,
+  NO_OTHER_INCOME,
+  type ActivityType,
+  type IncomeTaxDetails,
+  type RegimeOptions,
+} from '@/lib/tax-calculator';
+
+// EURL: société with a gérant associé unique; EI_IS: entreprise individuelle having opted for the IS (assimilation EURL)
+export type CompanyLegalForm = "EURL" | "EI_IS";
+
+/**
+ * Remuneration of the gérant majoritaire and equity of the company.
+ */
+export interface EurlRemuneration {
+  legalForm: CompanyLegalForm;
+  managerRemuneration: number; // Rémunération annuelle du gérant, social contributions excluded
+  dividendShare: number;       // Share of the profit after IS distributed as dividends, e.g. 1 for all of it
+  shareCapital: number;        // Capital social et primes d'émission, or value of the patrimoine affecté of an EI
+  currentAccounts: number;     // Solde moyen des comptes courants d'associé
+  dividendTaxation?: DividendTaxOption; // Defaults to the PFU
+}
+
+export const DEFAULT_EURL_REMUNERATION: EurlRemuneration = {
+  legalForm: "EURL",
+  managerRemuneration: 0,
+  dividendShare: 1,
+  shareCapital: 1000,
+  currentAccounts: 0,
+  dividendTaxation: "PFU",
+};
+
+export interface EurlRegimeResult {
+  fiscalYear: FiscalYear;
+  fiscalParts: number;
+  legalForm: CompanyLegalForm;
+  profitBeforeRemuneration: number;   // Revenue - expenses
+  managerRemuneration: number;
+  remunerationContributions: number;  // SSI contributions on the remuneration, paid by the company
+  companyProfit: number;              // Profit after the remuneration and its contributions, before IS; negative for a loss
+  corporateTax: CorporateTaxResult;
+  profitAfterTax: number;
+  dividends: number;
+  retainedEarnings: number;
+  dividendSocialThreshold: number;    // 10% of capital + comptes courants (or of the bénéfice net of an EI, if higher)
+  dividendsSubjectToContributions: number; // Part of the dividends above the threshold
+  dividendContributions: number;      // Extra SSI contributions due on that part, paid by the gérant
+  socialContributions: SocialContributionLine[]; // SSI lines on the remuneration + the dividends above the threshold
+  dividendTaxation: DividendTaxOption;
+  dividendTaxableIncome: number;      // Dividends added to the revenu imposable at the barème, 0 with the PFU
+  dividendIncomeTax: number;          // PFU, or IR attributable to the dividends at the barème, on all the dividends
+  dividendSocialLevies: number;       // Prélèvements sociaux, on the dividends below the threshold only
+  remunerationTaxableIncome: number;  // Remuneration + CSG non déductible and CRDS, after the 10% deduction
+  taxAmount: number;                  // IR attributable to the remuneration
+  incomeTaxDetails: IncomeTaxDetails; // Liquidation of the foyer, dividends included at the barème
+  otherTaxableIncome: number;
+  householdTaxWithoutActivity: number;
+  totalSocialContributions: number;   // SSI contributions + prélèvements sociaux on the dividends
+  minimumContributionsApplied: boolean;
+  acreExemption: number;
+  retirementQuartersValidated: number;
+  netIncomeAfterAll: number;          // Remuneration + dividends, after IR, PFU and the contributions on dividends
+}
+
+/**
+ * Calculates the income of the gérant majoritaire of an EURL à l'IS, or of an EI having opted for the IS.
+ * The gérant is a travailleur non salarié: the company pays the remuneration and its SSI contributions, then the
+ * impôt sur les sociétés on the remaining profit. The dividends above 10% of the capital and the comptes courants
+ * (for an EI, of the patrimoine affecté or of the bénéfice net, whichever is higher) bear SSI contributions instead
+ * of the prélèvements sociaux; all the dividends bear the income tax part of the prélèvement forfaitaire unique,
+ * or the barème after the 40% abattement when the foyer opts for it.
+ * The remuneration is taxed at the barème like a salary, after the 10% deduction.
+ * @param annualRevenue The annual revenue of the company.
+ * @param annualExpenses The annual expenses of the company, remuneration excluded.
+ * @param activityType The activity, which sets the SSI or caisse de retraite rates.
+ * @param remuneration The legal form, the remuneration of the gérant, the share distributed, the taxation of the dividends and the equity.
+ * @param options The household composition, the fiscal year, the other income of the foyer, the ACRE and the caisse de retraite.
+ * @returns The remuneration, the IS, the dividends and the net income of the gérant.
+ */
+export function calculateEurlRegimeTax(
+  annualRevenue: number,
+  annualExpenses: number,
+  activityType: ActivityType,
+  remuneration: EurlRemuneration,
+  options: RegimeOptions = {}
+): EurlRegimeResult {
+  const fiscalYear = options.fiscalYear ?? DEFAULT_FISCAL_YEAR;
+  const { dividends: dividendRates } = getFiscalParameters(fiscalYear).company;
+  const tnsOptions = {
+    fiscalYear,
+    creationDate: options.creationDate,
+    acre: options.acre,
+    pensionFund: options.pensionFund,
+    pensionClasses: options.pensionClasses,
+  };
+  const profitBeforeRemuneration = Math.max(0, annualRevenue) - Math.max(0, annualExpenses);
+  const managerRemuneration = Math.max(0, remuneration.managerRemuneration);
+
+  // Contributions on the remuneration alone are a charge of the company
+  const remunerationContributions = calculateTnsContributionsOnIncome(managerRemuneration, activityType, tnsOptions);
+  const companyProfit = profitBeforeRemuneration - managerRemuneration - remunerationContributions.totalContributions;
+  const corporateTax = calculateCorporateTax(companyProfit, fiscalYear);
+  const profitAfterTax = companyProfit - corporateTax.amount;
+  const dividendShare = Math.min(1, Math.max(0, remuneration.dividendShare));
+  const dividends = Math.max(0, profitAfterTax) * dividendShare;
+
+  const equity = Math.max(0, remuneration.shareCapital) + Math.max(0, remuneration.currentAccounts);
+  const dividendSocialThreshold = remuneration.legalForm === "EI_IS"
+    ? Math.max(equity, Math.max(0, profitAfterTax)) * dividendRates.tnsSocialThresholdRate
+    : equity * dividendRates.tnsSocialThresholdRate;
+  const dividendsSubjectToContributions = Math.max(0, dividends - dividendSocialThreshold);
+
+  // The dividends above the threshold join the revenu professionnel; the extra contributions are borne by the gérant
+  const contributions = calculateTnsContributionsOnIncome(managerRemuneration + dividendsSubjectToContributions, activityType, tnsOptions);
+  const dividendContributions = contributions.totalContributions - remunerationContributions.totalContributions;
+  const dividendsBearingSocialLevies = dividends - dividendsSubjectToContributions;
+  const dividendSocialLevies = dividendsBearingSocialLevies * dividendRates.socialLevyRate;
+
+  // The remuneration of a gérant majoritaire is taxed like a salary
+  const otherIncome = options.otherIncome ?? NO_OTHER_INCOME;
+  const otherTaxableIncome = calculateOtherTaxableIncome(otherIncome, fiscalYear);
+  const remunerationTaxableIncome = calculateOtherTaxableIncome(
+    { ...otherIncome, taxpayerSalaries: otherIncome.taxpayerSalaries + managerRemuneration + remunerationContributions.nonDeductibleContributions },
+    fiscalYear
+  ) - otherTaxableIncome;
+  const remunerationTax = calculateActivityIncomeTax(remunerationTaxableIncome, options);
+  const { householdTaxWithoutActivity, taxAmount } = remunerationTax;
+
+  // At the barème, the dividends bear the tax of the foyer above the one already due with the remuneration
+  const dividendTaxation = remuneration.dividendTaxation ?? "PFU";
+  const dividendTaxableIncome = dividendTaxation === "BAREME"
+    ? calculateDividendProgressiveTaxableIncome(dividends, dividendsBearingSocialLevies, fiscalYear)
+    : 0;
+  const { incomeTaxDetails } = dividendTaxation === "BAREME"
+    ? calculateActivityIncomeTax(remunerationTaxableIncome + dividendTaxableIncome, options)
+    : remunerationTax;
+  const dividendIncomeTax = dividendTaxation === "BAREME"
+    ? Math.max(0, incomeTaxDetails.totalTax - householdTaxWithoutActivity - taxAmount)
+    : dividends * dividendRates.flatTaxIncomeRate;
+
+  const netIncomeAfterAll = managerRemuneration - taxAmount + dividends - dividendIncomeTax - dividendSocialLevies - dividendContributions;
+
+  return {
+    fiscalYear,
+    fiscalParts: incomeTaxDetails.fiscalParts,
+    legalForm: remuneration.legalForm,
+    profitBeforeRemuneration: parseFloat(profitBeforeRemuneration.toFixed(2)),
+    managerRemuneration: parseFloat(managerRemuneration.toFixed(2)),
+    remunerationContributions: remunerationContributions.totalContributions,
+    companyProfit: parseFloat(companyProfit.toFixed(2)),
+    corporateTax,
+    profitAfterTax: parseFloat(profitAfterTax.toFixed(2)),
+    dividends: parseFloat(dividends.toFixed(2)),
+    retainedEarnings: parseFloat((profitAfterTax - dividends).toFixed(2)),
+    dividendSocialThreshold: parseFloat(dividendSocialThreshold.toFixed(2)),
+    dividendsSubjectToContributions: parseFloat(dividendsSubjectToContributions.toFixed(2)),
+    dividendContributions: parseFloat(dividendContributions.toFixed(2)),
+    socialContributions: contributions.lines,
+    dividendTaxation,
+    dividendTaxableIncome,
+    dividendIncomeTax: parseFloat(dividendIncomeTax.toFixed(2)),
+    dividendSocialLevies: parseFloat(dividendSocialLevies.toFixed(2)),
+    remunerationTaxableIncome: parseFloat(remunerationTaxableIncome.toFixed(2)),
+    taxAmount,
+    incomeTaxDetails,
+    otherTaxableIncome,
+    householdTaxWithoutActivity,
+    totalSocialContributions: parseFloat((contributions.totalContributions + dividendSocialLevies).toFixed(2)),
+    minimumContributionsApplied: contributions.minimumContributionsApplied,
+    acreExemption: contributions.acreExemption,
+    retirementQuartersValidated: contributions.retirementQuartersValidated,
+    netIncomeAfterAll: parseFloat(netIncomeAfterAll.toFixed(2)),
+  };
+}
@@ -0,0 +1,721 @@
+// src/lib/fiscal-parameters.ts
+
+import type { ActivityType } from '@/lib/tax-calculator';
+
+/**
+ * Year of the income being simulated (année des revenus).
+ * The barème applied is the one voted in the finance law of the following year.
+ */
+export type FiscalYear = 2023 | 2024 | 2025 | 2026;
+
+export const FISCAL_YEARS: FiscalYear[] = [2023, 2024, 2025, 2026];
+
+export const DEFAULT_FISCAL_YEAR: FiscalYear = 2026;
+
+export interface IncomeTaxBracket {
+  limit: number; // Upper limit of the bracket, for 1 part
+  rate: number;
+}
+
+/**
+ * Prélèvement à la source: grille du taux neutre (taux non personnalisé) and payment of the solde.
+ */
+export interface WithholdingParameters {
+  neutralRates: IncomeTaxBracket[];        // Limit: monthly base, the rate of its bracket applying to the whole base
+  regularizationInstallmentThreshold: number; // Above this solde, the régularisation is spread over four months
+}
+
+export interface DecoteParameters {
+  singleAmount: number; // Forfait pour une personne seule
+  coupleAmount: number; // Forfait pour un couple soumis à imposition commune
+  rate: number;         // Part de l'impôt brut retranchée du forfait
+}
+
+export interface FlatAllowanceParameters {
+  rate: number;
+  min: number;
+  max: number;
+}
+
+export interface MicroActivityRates {
+  allowanceRate: number;   // Abattement forfaitaire pour frais
+  urssafSocialRate: number; // Cotisations sociales sur le CA
+  cfpRate: number;          // Contribution à la formation professionnelle
+  revenueCeiling?: number;  // Plafond propre à l'activité, checked on top of the ceiling of its category (meublés de tourisme)
+  nonProfessionalRental?: boolean; // Location meublée non professionnelle: prélèvements sociaux instead of URSSAF contributions, no TVA
+}
+
+export interface VatFranchiseThresholds {
+  threshold: number;          // Seuil de franchise en base
+  increasedThreshold: number; // Seuil majoré, dont le dépassement fait perdre la franchise immédiatement
+}
+
+export interface AcreParameters {
+  microReductionRate: number;          // Réduction du taux de cotisations micro pendant les 4 premiers trimestres
+  reelFullExemptionPassRatio: number;  // Exonération totale au réel sous ce ratio du PASS
+  reelExemptionEndPassRatio: number;   // Exonération nulle à partir de ce ratio du PASS
+}
+
+export interface RatePoint {
+  passRatio: number; // Income as a share of the PASS
+  rate: number;
+}
+
+/**
+ * Cotisations sociales des travailleurs indépendants (SSI) au régime réel.
+ * Ceilings are expressed as multiples of the PASS.
+ */
+export interface SsiContributionParameters {
+  maladieMaternite: {
+    progressivePoints: RatePoint[]; // Taux progressif, interpolated between the points
+    rateAboveLastPoint: number;
+  };
+  indemnitesJournalieres: { rate: number; ceilingPassRatio: number; minimumBasePassRatio: number };
+  retraiteBase: { cappedRate: number; uncappedRate: number; minimumBasePassRatio: number };
+  retraiteComplementaire: { rateUpToFirstCeiling: number; firstCeilingPassRatio: number; rateUpToSecondCeiling: number; secondCeilingPassRatio: number };
+  invaliditeDeces: { rate: number; ceilingPassRatio: number; minimumBasePassRatio: number };
+  allocationsFamiliales: { startPassRatio: number; fullRatePassRatio: number; rate: number };
+  csgCrds: { deductibleRate: number; nonDeductibleRate: number }; // CSG déductible, CSG non déductible + CRDS
+  cfpPassRates: Record<ActivityType, number>; // Contribution à la formation professionnelle, in share of the PASS
+  retirementQuarterSmicHours: number;         // Hours of SMIC of retirement base validating one quarter
+  startupProvisionalBasePassRatio: number;    // Assiette forfaitaire of the cotisations provisionnelles of the creation year
+}
+
+/**
+ * Cotisations sociales of an assimilé salarié (président de SAS/SASU), without assurance chômage.
+ * Rates are split between the employee (salarial) and the company (patronal); ceilings are multiples of the PASS.
+ */
+export interface AssimileSalarieParameters {
+  maladie: { employerRate: number; reducedEmployerRate: number; reducedRateSmicRatio: number }; // Taux réduit up to this multiple of the annual SMIC
+  vieillesse: { employeeCappedRate: number; employerCappedRate: number; employeeUncappedRate: number; employerUncappedRate: number };
+  allocationsFamiliales: { employerRate: number; reducedEmployerRate: number; reducedRateSmicRatio: number };
+  accidentsTravail: { employerRate: number };  // Indicative rate of an office activity
+  autonomie: { employerRate: number };         // Contribution solidarité autonomie
+  fnal: { employerRate: number; ceilingPassRatio: number };
+  retraiteComplementaire: {                    // Agirc-Arrco, contribution d'équilibre général included
+    employeeRateT1: number;
+    employerRateT1: number;
+    employeeRateT2: number;
+    employerRateT2: number;
+    secondTrancheEndPassRatio: number;
+  };
+  formation: { employerRate: number };         // Formation professionnelle and taxe d'apprentissage
+  csgCrds: { baseRate: number; abatementCeilingPassRatio: number; deductibleRate: number; nonDeductibleRate: number };
+  annualSmicHours: number;                     // Hours of the annual SMIC, for the reduced rates
+}
+
+/**
+ * Rights acquired by the contributions to the retraites de base and complémentaires.
+ * Points are bought at the prix d'achat (or salaire de référence) and paid at the valeur de service.
+ */
+export interface RetirementParameters {
+  fullRateQuarters: number;    // Durée d'assurance required for the taux plein (generations born from 1965)
+  baseFullRate: number;        // Taux plein of the retraite de base of the régime général and of the SSI
+  rci: { pointPurchasePrice: number; pointServiceValue: number }; // Retraite complémentaire des indépendants
+  agircArrco: {
+    referenceSalary: number;   // Salaire de référence, price of one point
+    pointServiceValue: number;
+    acquisitionRateT1: number; // Taux contractuels generating points, below the taux d'appel
+    acquisitionRateT2: number;
+  };
+  cnavpl: {
+    firstTranchePoints: number;  // Points earned by a full first tranche (1 PASS)
+    secondTranchePoints: number; // Points earned by a full second tranche (5 PASS)
+    pointServiceValue: number;
+  };
+}
+
+/**
+ * Indemnités journalières maladie and congés maternité / paternité. Independents receive 1/730 of their average
+ * revenue of the last three years; an assimilé salarié receives a share of the salaire journalier de base.
+ */
+export interface SicknessBenefitParameters {
+  independent: {
+    dailyDivisor: number;              // Revenu annuel moyen divided by this number of days
+    ssiCeilingPassRatio: number;       // Revenue retained for the IJ of the artisans and commerçants
+    liberalCeilingPassRatio: number;   // Revenue retained for the IJ of the professions libérales
+    eligibilityPassRatio: number;      // No IJ maladie, and reduced maternity benefits, below this average revenue
+    reducedMaternityRate: number;      // Share of the maternity and paternity benefits paid below that threshold
+    maternityFlatAllowanceMonths: number; // Allocation forfaitaire de repos maternel, in monthly PASS
+  };
+  salaried: {
+    sicknessRate: number;              // Share of the salaire journalier de base
+    sicknessCeilingSmicRatio: number;  // Salary retained up to this multiple of the SMIC
+    maternityFlatChargeRate: number;   // Flat deduction turning the gross salary into the net salary retained
+    maternityCeilingPassRatio: number;
+    eligibilitySmicHours: number;      // Salary of the year opening the rights, in hours of SMIC
+  };
+  waitingDays: number;                 // Délai de carence of the IJ maladie
+  maternityDays: number;               // Congé maternité of a first or second child
+  paternityDays: number;
+}
+
+/**
+ * Taux de TVA applied to the sales of each activity and to the expenses. The location meublée non professionnelle
+ * is exonérée; its rate is not used.
+ */
+export interface VatParameters {
+  activityRates: Record<ActivityType, number>;
+  expenseRate: number; // Taux normal, assumed for the expenses bearing TVA
+}
+
+export interface CfeMinimumBaseBracket {
+  revenueLimit: number; // Upper limit of the chiffre d'affaires of the bracket
+  min: number;          // Range within which the commune sets its base minimum
+  max: number;
+}
+
+/**
+ * Cotisation foncière des entreprises: the commune rate applies to the valeur locative of the premises,
+ * or to a base minimum set by the commune within the bracket of the chiffre d'affaires.
+ */
+export interface CfeParameters {
+  minimumBaseBrackets: CfeMinimumBaseBracket[];
+  minimumBaseExemptionRevenue: number; // No cotisation minimum at or below this chiffre d'affaires
+  secondYearBaseReduction: number;     // Réduction de la base the year following the creation
+}
+
+/**
+ * Impôt sur les sociétés and taxation of the dividends received by an individual.
+ */
+export interface CompanyTaxParameters {
+  corporateTax: { reducedRate: number; reducedRateCeiling: number; normalRate: number }; // Taux réduit PME up to the ceiling
+  dividends: {
+    flatTaxIncomeRate: number;     // Prélèvement forfaitaire unique, part impôt sur le revenu
+    socialLevyRate: number;        // Prélèvements sociaux
+    progressiveAllowanceRate: number; // Abattement on the dividends taxed at the barème
+    deductibleCsgRate: number;        // CSG déductible from the income taxed at the barème
+    tnsSocialThresholdRate: number;   // Share of capital + comptes courants above which the dividends of a gérant TNS bear social contributions
+  };
+}
+
+export interface FiscalParameters {
+  year: FiscalYear;
+  provisional: boolean; // True when some values are projections (barème not yet voted)
+  incomeTax: {
+    brackets: IncomeTaxBracket[];
+    quotientFamilialHalfPartCap: number;    // Plafond par demi-part
+    quotientFamilialSingleParentCap: number; // Plafond des deux premières demi-parts d'un parent isolé (case T)
+    decote: DecoteParameters;
+    salaryAllowance: FlatAllowanceParameters;  // Déduction forfaitaire de 10% pour frais professionnels, par salarié
+    pensionAllowance: FlatAllowanceParameters; // Abattement de 10% sur les pensions, plafonné par foyer
+    collectionThreshold: number; // IR net en dessous duquel l'impôt n'est pas mis en recouvrement
+    deficitCarryForwardYears: number; // Years during which a déficit professionnel exceeding the revenu global can be carried forward
+    withholding: WithholdingParameters;
+    highIncomeContribution: {
+      singleBrackets: IncomeTaxBracket[]; // CEHR, barème sur le revenu fiscal de référence
+      coupleBrackets: IncomeTaxBracket[];
+    };
+  };
+  micro: {
+    minAllowance: number;
+    activities: Record<ActivityType, MicroActivityRates>;
+    rentalSocialLevyRate: number; // Prélèvements sociaux on the income of a location meublée non professionnelle
+    revenueCeilings: {
+      sales: number;    // Ventes de marchandises, fourniture de logement
+      services: number; // Prestations de services BIC et BNC
+    };
+    vatFranchise: {
+      sales: VatFranchiseThresholds;
+      services: VatFranchiseThresholds;
+    };
+    versementLiberatoire: {
+      rates: Record<ActivityType, number>; // Taux appliqué au CA
+      referenceIncomeLimitPerPart: number; // Plafond du RFR N-2 par part de quotient familial
+    };
+  };
+  social: {
+    pass: number; // Plafond annuel de la sécurité sociale
+    smicHourly: number; // SMIC horaire brut au 1er janvier
+    acre: AcreParameters;
+    ssi: SsiContributionParameters;
+    assimileSalarie: AssimileSalarieParameters;
+    retirement: RetirementParameters;
+    sicknessBenefits: SicknessBenefitParameters;
+  };
+  company: CompanyTaxParameters;
+  vat: VatParameters;
+  cfe: CfeParameters;
+}
+
+// Contribution exceptionnelle sur les hauts revenus, unchanged since 2012
+const HIGH_INCOME_CONTRIBUTION = {
+  singleBrackets: [
+    { limit: 250000, rate: 0.00 },
+    { limit: 500000, rate: 0.03 },
+    { limit: Infinity, rate: 0.04 },
+  ],
+  coupleBrackets: [
+    { limit: 500000, rate: 0.00 },
+    { limit: 1000000, rate: 0.03 },
+    { limit: Infinity, rate: 0.04 },
+  ],
+};
+
+const VERSEMENT_LIBERATOIRE_RATES: Record<ActivityType, number> = {
+  VENTE_BIC: 0.01,
+  SERVICE_BIC: 0.017,
+  LIBERAL_BNC_AUTRE: 0.022,
+  LIBERAL_BNC_CIPAV: 0.022,
+  LIBERAL_BNC_REGLEMENTEE: 0.022,
+  // The versement libératoire is reserved to micro-entrepreneurs: a location meublée non professionnelle cannot opt for it
+  LOCATION_MEUBLEE: 0,
+  MEUBLE_TOURISME_CLASSE: 0,
+  MEUBLE_TOURISME_NON_CLASSE: 0,
+  CHAMBRES_HOTES: 0.01,
+};
+
+// Grilles du taux neutre of métropole, revalued with the barème; the 2026 grid is not yet published
+const WITHHOLDING_2023: WithholdingParameters = {
+  neutralRates: [
+    { limit: 1518, rate: 0.00 },
+    { limit: 1577, rate: 0.005 },
+    { limit: 1678, rate: 0.013 },
+    { limit: 1791, rate: 0.021 },
+    { limit: 1914, rate: 0.029 },
+    { limit: 2016, rate: 0.035 },
+    { limit: 2150, rate: 0.041 },
+    { limit: 2544, rate: 0.053 },
+    { limit: 2912, rate: 0.075 },
+    { limit: 3317, rate: 0.099 },
+    { limit: 3734, rate: 0.119 },
+    { limit: 4357, rate: 0.138 },
+    { limit: 5224, rate: 0.158 },
+    { limit: 6537, rate: 0.179 },
+    { limit: 8165, rate: 0.2 },
+    { limit: 11333, rate: 0.24 },
+    { limit: 15349, rate: 0.28 },
+    { limit: 24094, rate: 0.33 },
+    { limit: 51611, rate: 0.38 },
+    { limit: Infinity, rate: 0.43 },
+  ],
+  regularizationInstallmentThreshold: 300,
+};
+
+const WITHHOLDING_2024: WithholdingParameters = {
+  neutralRates: [
+    { limit: 1591, rate: 0.00 },
+    { limit: 1653, rate: 0.005 },
+    { limit: 1759, rate: 0.013 },
+    { limit: 1877, rate: 0.021 },
+    { limit: 2006, rate: 0.029 },
+    { limit: 2113, rate: 0.035 },
+    { limit: 2253, rate: 0.041 },
+    { limit: 2666, rate: 0.053 },
+    { limit: 3052, rate: 0.075 },
+    { limit: 3476, rate: 0.099 },
+    { limit: 3913, rate: 0.119 },
+    { limit: 4566, rate: 0.138 },
+    { limit: 5475, rate: 0.158 },
+    { limit: 6851, rate: 0.179 },
+    { limit: 8557, rate: 0.2 },
+    { limit: 11877, rate: 0.24 },
+    { limit: 16086, rate: 0.28 },
+    { limit: 25251, rate: 0.33 },
+    { limit: 54088, rate: 0.38 },
+    { limit: Infinity, rate: 0.43 },
+  ],
+  regularizationInstallmentThreshold: 300,
+};
+
+const WITHHOLDING_2025: WithholdingParameters = {
+  neutralRates: [
+    { limit: 1620, rate: 0.00 },
+    { limit: 1683, rate: 0.005 },
+    { limit: 1791, rate: 0.013 },
+    { limit: 1911, rate: 0.021 },
+    { limit: 2042, rate: 0.029 },
+    { limit: 2151, rate: 0.035 },
+    { limit: 2294, rate: 0.041 },
+    { limit: 2714, rate: 0.053 },
+    { limit: 3107, rate: 0.075 },
+    { limit: 3539, rate: 0.099 },
+    { limit: 3983, rate: 0.119 },
+    { limit: 4648, rate: 0.138 },
+    { limit: 5574, rate: 0.158 },
+    { limit: 6974, rate: 0.179 },
+    { limit: 8711, rate: 0.2 },
+    { limit: 12091, rate: 0.24 },
+    { limit: 16376, rate: 0.28 },
+    { limit: 25706, rate: 0.33 },
+    { limit: 55062, rate: 0.38 },
+    { limit: Infinity, rate: 0.43 },
+  ],
+  regularizationInstallmentThreshold: 300,
+};
+
+const ACRE: AcreParameters = {
+  microReductionRate: 0.5,
+  reelFullExemptionPassRatio: 0.75,
+  reelExemptionEndPassRatio: 1,
+};
+
+const SSI_CONTRIBUTIONS: SsiContributionParameters = {
+  maladieMaternite: {
+    progressivePoints: [
+      { passRatio: 0, rate: 0 },
+      { passRatio: 0.4, rate: 0.04 },
+      { passRatio: 0.6, rate: 0.067 },
+      { passRatio: 1.1, rate: 0.072 },
+    ],
+    rateAboveLastPoint: 0.065,
+  },
+  indemnitesJournalieres: { rate: 0.005, ceilingPassRatio: 5, minimumBasePassRatio: 0.4 },
+  retraiteBase: { cappedRate: 0.1775, uncappedRate: 0.006, minimumBasePassRatio: 0.115 },
+  retraiteComplementaire: { rateUpToFirstCeiling: 0.07, firstCeilingPassRatio: 1, rateUpToSecondCeiling: 0.08, secondCeilingPassRatio: 4 },
+  invaliditeDeces: { rate: 0.013, ceilingPassRatio: 1, minimumBasePassRatio: 0.115 },
+  allocationsFamiliales: { startPassRatio: 1.1, fullRatePassRatio: 1.4, rate: 0.031 },
+  csgCrds: { deductibleRate: 0.068, nonDeductibleRate: 0.029 },
+  cfpPassRates: {
+    VENTE_BIC: 0.0025,
+    SERVICE_BIC: 0.0029,
+    LIBERAL_BNC_AUTRE: 0.0025,
+    LIBERAL_BNC_CIPAV: 0.0025,
+    LIBERAL_BNC_REGLEMENTEE: 0.0025,
+    LOCATION_MEUBLEE: 0,
+    MEUBLE_TOURISME_CLASSE: 0,
+    MEUBLE_TOURISME_NON_CLASSE: 0,
+    CHAMBRES_HOTES: 0.0025,
+  },
+  retirementQuarterSmicHours: 150,
+  startupProvisionalBasePassRatio: 0.19,
+};
+
+const ASSIMILE_SALARIE: AssimileSalarieParameters = {
+  maladie: { employerRate: 0.13, reducedEmployerRate: 0.07, reducedRateSmicRatio: 2.5 },
+  vieillesse: { employeeCappedRate: 0.069, employerCappedRate: 0.0855, employeeUncappedRate: 0.004, employerUncappedRate: 0.0202 },
+  allocationsFamiliales: { employerRate: 0.0525, reducedEmployerRate: 0.0345, reducedRateSmicRatio: 3.5 },
+  accidentsTravail: { employerRate: 0.007 },
+  autonomie: { employerRate: 0.003 },
+  fnal: { employerRate: 0.001, ceilingPassRatio: 1 },
+  retraiteComplementaire: { employeeRateT1: 0.0401, employerRateT1: 0.0601, employeeRateT2: 0.0972, employerRateT2: 0.1457, secondTrancheEndPassRatio: 8 },
+  formation: { employerRate: 0.0123 },
+  csgCrds: { baseRate: 0.9825, abatementCeilingPassRatio: 4, deductibleRate: 0.068, nonDeductibleRate: 0.029 },
+  annualSmicHours: 1820,
+};
+
+// The vieillesse déplafonnée was raised in 2024, the reduced rates narrowed in 2025
+const ASSIMILE_SALARIE_2023: AssimileSalarieParameters = {
+  ...ASSIMILE_SALARIE,
+  vieillesse: { ...ASSIMILE_SALARIE.vieillesse, employerUncappedRate: 0.019 },
+};
+
+const ASSIMILE_SALARIE_2025: AssimileSalarieParameters = {
+  ...ASSIMILE_SALARIE,
+  maladie: { ...ASSIMILE_SALARIE.maladie, reducedRateSmicRatio: 2.25 },
+  allocationsFamiliales: { ...ASSIMILE_SALARIE.allocationsFamiliales, reducedRateSmicRatio: 3.3 },
+};
+
+// Valeurs de service revalued each year; the 2026 values are not yet published
+const RETIREMENT_2023: RetirementParameters = {
+  fullRateQuarters: 172,
+  baseFullRate: 0.5,
+  rci: { pointPurchasePrice: 17.715, pointServiceValue: 1.291 },
+  agircArrco: { referenceSalary: 19.6321, pointServiceValue: 1.4159, acquisitionRateT1: 0.062, acquisitionRateT2: 0.17 },
+  cnavpl: { firstTranchePoints: 550, secondTranchePoints: 20, pointServiceValue: 0.6299 },
+};
+
+const RETIREMENT_2024: RetirementParameters = {
+  ...RETIREMENT_2023,
+  rci: { pointPurchasePrice: 18.104, pointServiceValue: 1.338 },
+  agircArrco: { ...RETIREMENT_2023.agircArrco, referenceSalary: 20.1877, pointServiceValue: 1.4386 },
+  cnavpl: { ...RETIREMENT_2023.cnavpl, pointServiceValue: 0.6399 },
+};
+
+const RETIREMENT_2025: RetirementParameters = {
+  ...RETIREMENT_2024,
+  rci: { pointPurchasePrice: 18.380, pointServiceValue: 1.358 },
+};
+
+const SICKNESS_BENEFITS: SicknessBenefitParameters = {
+  independent: {
+    dailyDivisor: 730,
+    ssiCeilingPassRatio: 1,
+    liberalCeilingPassRatio: 3,
+    eligibilityPassRatio: 0.1,
+    reducedMaternityRate: 0.1,
+    maternityFlatAllowanceMonths: 1,
+  },
+  salaried: {
+    sicknessRate: 0.5,
+    sicknessCeilingSmicRatio: 1.8,
+    maternityFlatChargeRate: 0.21,
+    maternityCeilingPassRatio: 1,
+    eligibilitySmicHours: 2030,
+  },
+  waitingDays: 3,
+  maternityDays: 112,
+  paternityDays: 25,
+};
+
+// The salary retained for the IJ maladie was lowered to 1.4 SMIC for the arrêts from April 2025
+const SICKNESS_BENEFITS_2025: SicknessBenefitParameters = {
+  ...SICKNESS_BENEFITS,
+  salaried: { ...SICKNESS_BENEFITS.salaried, sicknessCeilingSmicRatio: 1.4 },
+};
+
+const COMPANY_TAX: CompanyTaxParameters = {
+  corporateTax: { reducedRate: 0.15, reducedRateCeiling: 42500, normalRate: 0.25 },
+  dividends: { flatTaxIncomeRate: 0.128, socialLevyRate: 0.172, progressiveAllowanceRate: 0.4, deductibleCsgRate: 0.068, tnsSocialThresholdRate: 0.1 },
+};
+
+const VAT: VatParameters = {
+  activityRates: {
+    VENTE_BIC: 0.2,
+    SERVICE_BIC: 0.2,
+    LIBERAL_BNC_AUTRE: 0.2,
+    LIBERAL_BNC_CIPAV: 0.2,
+    LIBERAL_BNC_REGLEMENTEE: 0.2,
+    LOCATION_MEUBLEE: 0,
+    MEUBLE_TOURISME_CLASSE: 0,
+    MEUBLE_TOURISME_NON_CLASSE: 0,
+    CHAMBRES_HOTES: 0.1, // Taux intermédiaire of the fourniture de logement
+  },
+  expenseRate: 0.2,
+};
+
+// Bases minimum de CFE, revalued each year; the 2026 amounts are not yet published
+const CFE_2023: CfeParameters = {
+  minimumBaseBrackets: [
+    { revenueLimit: 10000, min: 227, max: 542 },
+    { revenueLimit: 32600, min: 227, max: 1083 },
+    { revenueLimit: 100000, min: 227, max: 2276 },
+    { revenueLimit: 250000, min: 227, max: 3794 },
+    { revenueLimit: 500000, min: 227, max: 5419 },
+    { revenueLimit: Infinity, min: 227, max: 7046 },
+  ],
+  minimumBaseExemptionRevenue: 5000,
+  secondYearBaseReduction: 0.5,
+};
+
+const CFE_2024: CfeParameters = {
+  minimumBaseBrackets: [
+    { revenueLimit: 10000, min: 237, max: 565 },
+    { revenueLimit: 32600, min: 237, max: 1130 },
+    { revenueLimit: 100000, min: 237, max: 2374 },
+    { revenueLimit: 250000, min: 237, max: 3957 },
+    { revenueLimit: 500000, min: 237, max: 5652 },
+    { revenueLimit: Infinity, min: 237, max: 7349 },
+  ],
+  minimumBaseExemptionRevenue: 5000,
+  secondYearBaseReduction: 0.5,
+};
+
+const CFE_2025: CfeParameters = {
+  minimumBaseBrackets: [
+    { revenueLimit: 10000, min: 243, max: 579 },
+    { revenueLimit: 32600, min: 243, max: 1158 },
+    { revenueLimit: 100000, min: 243, max: 2433 },
+    { revenueLimit: 250000, min: 243, max: 4056 },
+    { revenueLimit: 500000, min: 243, max: 5793 },
+    { revenueLimit: Infinity, min: 243, max: 7533 },
+  ],
+  minimumBaseExemptionRevenue: 5000,
+  secondYearBaseReduction: 0.5,
+};
+
+const FISCAL_PARAMETERS: Record<FiscalYear, FiscalParameters> = {
+  2023: {
+    year: 2023,
+    provisional: false,
+    incomeTax: {
+      brackets: [
+        { limit: 11294, rate: 0.00 },
+        { limit: 28797, rate: 0.11 },
+        { limit: 82341, rate: 0.30 },
+        { limit: 177106, rate: 0.41 },
+        { limit: Infinity, rate: 0.45 },
+      ],
+      quotientFamilialHalfPartCap: 1759,
+      quotientFamilialSingleParentCap: 4149,
+      decote: { singleAmount: 873, coupleAmount: 1444, rate: 0.4525 },
+      salaryAllowance: { rate: 0.10, min: 495, max: 14171 },
+      pensionAllowance: { rate: 0.10, min: 422, max: 4321 },
+      collectionThreshold: 61,
+      deficitCarryForwardYears: 6,
+      withholding: WITHHOLDING_2023,
+      highIncomeContribution: HIGH_INCOME_CONTRIBUTION,
+    },
+    micro: {
+      minAllowance: 305,
+      activities: {
+        VENTE_BIC: { allowanceRate: 0.71, urssafSocialRate: 0.123, cfpRate: 0.001 },
+        SERVICE_BIC: { allowanceRate: 0.50, urssafSocialRate: 0.212, cfpRate: 0.001 },
+        LIBERAL_BNC_AUTRE: { allowanceRate: 0.34, urssafSocialRate: 0.211, cfpRate: 0.002 },
+        LIBERAL_BNC_CIPAV: { allowanceRate: 0.34, urssafSocialRate: 0.212, cfpRate: 0.002 },
+        LIBERAL_BNC_REGLEMENTEE: { allowanceRate: 0.34, urssafSocialRate: 0.212, cfpRate: 0.002 },
+        LOCATION_MEUBLEE: { allowanceRate: 0.50, urssafSocialRate: 0, cfpRate: 0, nonProfessionalRental: true },
+        MEUBLE_TOURISME_CLASSE: { allowanceRate: 0.71, urssafSocialRate: 0, cfpRate: 0, nonProfessionalRental: true },
+        MEUBLE_TOURISME_NON_CLASSE: { allowanceRate: 0.50, urssafSocialRate: 0, cfpRate: 0, nonProfessionalRental: true },
+        CHAMBRES_HOTES: { allowanceRate: 0.71, urssafSocialRate: 0.123, cfpRate: 0.001 },
+      },
+      rentalSocialLevyRate: 0.172,
+      revenueCeilings: { sales: 188700, services: 77700 },
+      vatFranchise: {
+        sales: { threshold: 91900, increasedThreshold: 101000 },
+        services: { threshold: 36800, increasedThreshold: 39100 },
+      },
+      versementLiberatoire: { rates: VERSEMENT_LIBERATOIRE_RATES, referenceIncomeLimitPerPart: 26070 },
+    },
+    social: { pass: 43992, smicHourly: 11.27, acre: ACRE, ssi: SSI_CONTRIBUTIONS, assimileSalarie: ASSIMILE_SALARIE_2023, retirement: RETIREMENT_2023, sicknessBenefits: SICKNESS_BENEFITS },
+    company: COMPANY_TAX,
+    vat: VAT,
+    cfe: CFE_2023,
+  },
+  2024: {
+    year: 2024,
+    provisional: false,
+    incomeTax: {
+      brackets: [
+        { limit: 11497, rate: 0.00 },
+        { limit: 29315, rate: 0.11 },
+        { limit: 83823, rate: 0.30 },
+        { limit: 180294, rate: 0.41 },
+        { limit: Infinity, rate: 0.45 },
+      ],
+      quotientFamilialHalfPartCap: 1791,
+      quotientFamilialSingleParentCap: 4224,
+      decote: { singleAmount: 889, coupleAmount: 1470, rate: 0.4525 },
+      salaryAllowance: { rate: 0.10, min: 504, max: 14426 },
+      pensionAllowance: { rate: 0.10, min: 442, max: 4399 },
+      collectionThreshold: 61,
+      deficitCarryForwardYears: 6,
+      withholding: WITHHOLDING_2024,
+      highIncomeContribution: HIGH_INCOME_CONTRIBUTION,
+    },
+    micro: {
+      minAllowance: 305,
+      activities: {
+        VENTE_BIC: { allowanceRate: 0.71, urssafSocialRate: 0.123, cfpRate: 0.001 },
+        SERVICE_BIC: { allowanceRate: 0.50, urssafSocialRate: 0.212, cfpRate: 0.001 },
+        LIBERAL_BNC_AUTRE: { allowanceRate: 0.34, urssafSocialRate: 0.231, cfpRate: 0.002 },
+        LIBERAL_BNC_CIPAV: { allowanceRate: 0.34, urssafSocialRate: 0.232, cfpRate: 0.002 },
+        LIBERAL_BNC_REGLEMENTEE: { allowanceRate: 0.34, urssafSocialRate: 0.232, cfpRate: 0.002 },
+        LOCATION_MEUBLEE: { allowanceRate: 0.50, urssafSocialRate: 0, cfpRate: 0, nonProfessionalRental: true },
+        MEUBLE_TOURISME_CLASSE: { allowanceRate: 0.71, urssafSocialRate: 0, cfpRate: 0, nonProfessionalRental: true },
+        MEUBLE_TOURISME_NON_CLASSE: { allowanceRate: 0.30, urssafSocialRate: 0, cfpRate: 0, revenueCeiling: 15000, nonProfessionalRental: true },
+        CHAMBRES_HOTES: { allowanceRate: 0.71, urssafSocialRate: 0.123, cfpRate: 0.001 },
+      },
+      rentalSocialLevyRate: 0.172,
+      revenueCeilings: { sales: 188700, services: 77700 },
+      vatFranchise: {
+        sales: { threshold: 91900, increasedThreshold: 101000 },
+        services: { threshold: 36800, increasedThreshold: 39100 },
+      },
+      versementLiberatoire: { rates: VERSEMENT_LIBERATOIRE_RATES, referenceIncomeLimitPerPart: 27478 },
+    },
+    social: { pass: 46368, smicHourly: 11.65, acre: ACRE, ssi: SSI_CONTRIBUTIONS, assimileSalarie: ASSIMILE_SALARIE, retirement: RETIREMENT_2024, sicknessBenefits: SICKNESS_BENEFITS },
+    company: COMPANY_TAX,
+    vat: VAT,
+    cfe: CFE_2024,
+  },
+  // Barème des revenus 2025 projected with a 1% indexation
+  2025: {
+    year: 2025,
+    provisional: true,
+    incomeTax: {
+      brackets: [
+        { limit: 11612, rate: 0.00 },
+        { limit: 29608, rate: 0.11 },
+        { limit: 84661, rate: 0.30 },
+        { limit: 182097, rate: 0.41 },
+        { limit: Infinity, rate: 0.45 },
+      ],
+      quotientFamilialHalfPartCap: 1809,
+      quotientFamilialSingleParentCap: 4266,
+      decote: { singleAmount: 898, coupleAmount: 1485, rate: 0.4525 },
+      salaryAllowance: { rate: 0.10, min: 509, max: 14570 },
+      pensionAllowance: { rate: 0.10, min: 446, max: 4443 },
+      collectionThreshold: 61,
+      deficitCarryForwardYears: 6,
+      withholding: WITHHOLDING_2025,
+      highIncomeContribution: HIGH_INCOME_CONTRIBUTION,
+    },
+    micro: {
+      minAllowance: 305,
+      activities: {
+        VENTE_BIC: { allowanceRate: 0.71, urssafSocialRate: 0.123, cfpRate: 0.001 },
+        SERVICE_BIC: { allowanceRate: 0.50, urssafSocialRate: 0.212, cfpRate: 0.001 },
+        LIBERAL_BNC_AUTRE: { allowanceRate: 0.34, urssafSocialRate: 0.246, cfpRate: 0.002 },
+        LIBERAL_BNC_CIPAV: { allowanceRate: 0.34, urssafSocialRate: 0.232, cfpRate: 0.002 },
+        LIBERAL_BNC_REGLEMENTEE: { allowanceRate: 0.34, urssafSocialRate: 0.232, cfpRate: 0.002 },
+        LOCATION_MEUBLEE: { allowanceRate: 0.50, urssafSocialRate: 0, cfpRate: 0, nonProfessionalRental: true },
+        MEUBLE_TOURISME_CLASSE: { allowanceRate: 0.50, urssafSocialRate: 0, cfpRate: 0, revenueCeiling: 77700, nonProfessionalRental: true },
+        MEUBLE_TOURISME_NON_CLASSE: { allowanceRate: 0.30, urssafSocialRate: 0, cfpRate: 0, revenueCeiling: 15000, nonProfessionalRental: true },
+        CHAMBRES_HOTES: { allowanceRate: 0.71, urssafSocialRate: 0.123, cfpRate: 0.001 },
+      },
+      rentalSocialLevyRate: 0.172,
+      revenueCeilings: { sales: 188700, services: 77700 },
+      vatFranchise: {
+        sales: { threshold: 85000, increasedThreshold: 93500 },
+        services: { threshold: 37500, increasedThreshold: 41250 },
+      },
+      versementLiberatoire: { rates: VERSEMENT_LIBERATOIRE_RATES, referenceIncomeLimitPerPart: 28797 },
+    },
+    social: { pass: 47100, smicHourly: 11.88, acre: ACRE, ssi: SSI_CONTRIBUTIONS, assimileSalarie: ASSIMILE_SALARIE_2025, retirement: RETIREMENT_2025, sicknessBenefits: SICKNESS_BENEFITS_2025 },
+    company: COMPANY_TAX,
+    vat: VAT,
+    cfe: CFE_2025,
+  },
+  // Barème des revenus 2026 projected with a 1% indexation, micro ceilings revalued for 2026-2028
+  2026: {
+    year: 2026,
+    provisional: true,
+    incomeTax: {
+      brackets: [
+        { limit: 11728, rate: 0.00 },
+        { limit: 29904, rate: 0.11 },
+        { limit: 85508, rate: 0.30 },
+        { limit: 183918, rate: 0.41 },
+        { limit: Infinity, rate: 0.45 },
+      ],
+      quotientFamilialHalfPartCap: 1827,
+      quotientFamilialSingleParentCap: 4309,
+      decote: { singleAmount: 907, coupleAmount: 1500, rate: 0.4525 },
+      salaryAllowance: { rate: 0.10, min: 514, max: 14716 },
+      pensionAllowance: { rate: 0.10, min: 450, max: 4487 },
+      collectionThreshold: 61,
+      deficitCarryForwardYears: 6,
+      withholding: WITHHOLDING_2025,
+      highIncomeContribution: HIGH_INCOME_CONTRIBUTION,
+    },
+    micro: {
+      minAllowance: 305,
+      activities: {
+        VENTE_BIC: { allowanceRate: 0.71, urssafSocialRate: 0.123, cfpRate: 0.001 },
+        SERVICE_BIC: { allowanceRate: 0.50, urssafSocialRate: 0.212, cfpRate: 0.001 },
+        LIBERAL_BNC_AUTRE: { allowanceRate: 0.34, urssafSocialRate: 0.261, cfpRate: 0.002 },
+        LIBERAL_BNC_CIPAV: { allowanceRate: 0.34, urssafSocialRate: 0.232, cfpRate: 0.002 },
+        LIBERAL_BNC_REGLEMENTEE: { allowanceRate: 0.34, urssafSocialRate: 0.232, cfpRate: 0.002 },
+        LOCATION_MEUBLEE: { allowanceRate: 0.50, urssafSocialRate: 0, cfpRate: 0, nonProfessionalRental: true },
+        MEUBLE_TOURISME_CLASSE: { allowanceRate: 0.50, urssafSocialRate: 0, cfpRate: 0, revenueCeiling: 77700, nonProfessionalRental: true },
+        MEUBLE_TOURISME_NON_CLASSE: { allowanceRate: 0.30, urssafSocialRate: 0, cfpRate: 0, revenueCeiling: 15000, nonProfessionalRental: true },
+        CHAMBRES_HOTES: { allowanceRate: 0.71, urssafSocialRate: 0.123, cfpRate: 0.001 },
+      },
+      rentalSocialLevyRate: 0.172,
+      revenueCeilings: { sales: 203100, services: 83600 },
+      vatFranchise: {
+        sales: { threshold: 85000, increasedThreshold: 93500 },
+        services: { threshold: 37500, increasedThreshold: 41250 },
+      },
+      versementLiberatoire: { rates: VERSEMENT_LIBERATOIRE_RATES, referenceIncomeLimitPerPart: 29315 },
+    },
+    social: { pass: 48060, smicHourly: 12.02, acre: ACRE, ssi: SSI_CONTRIBUTIONS, assimileSalarie: ASSIMILE_SALARIE_2025, retirement: RETIREMENT_2025, sicknessBenefits: SICKNESS_BENEFITS_2025 },
+    company: COMPANY_TAX,
+    vat: VAT,
+    cfe: CFE_2025,
+  },
+};
+
+export function isFiscalYear(value: number): value is FiscalYear {
+  return (FISCAL_YEARS as number[]).includes(value);
+}
+
+/**
+ * Returns the fiscal and social parameters applicable to the given income year.
+ * @param fiscalYear The year of the income being simulated.
+ * @returns The parameter set for that year.
+ */
+export function getFiscalParameters(fiscalYear: FiscalYear): FiscalParameters {
+  return FISCAL_PARAMETERS[fiscalYear];
+}
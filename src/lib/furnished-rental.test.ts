@@ -0,0 +1,43 @@
+// src/lib/furnished-rental.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { calculateFurnishedRentalReelTax, NO_FURNISHED_RENTAL_ASSETS, type FurnishedRentalAssets } from '@/lib/furnished-rental';
+
+// 200 000 € of building (land excluded) over 30 years and 14 000 € of furniture over 7 years: 8 666,67 € a year
+const ASSETS: FurnishedRentalAssets = {
+  ...NO_FURNISHED_RENTAL_ASSETS,
+  propertyValue: 200000,
+  landShare: 0,
+  furnitureValue: 14000,
+  loanInterest: 2000,
+};
+
+describe("calculateFurnishedRentalReelTax", () => {
+  it("limits the amortizations to the result and carries the rest forward", () => {
+    const result = calculateFurnishedRentalReelTax(12000, 4000, "LOCATION_MEUBLEE", ASSETS, { fiscalYear: 2024 });
+
+    expect(result.amortizationAvailable).toBe(8666.67);
+    expect(result.amortizationDeducted).toBe(result.resultBeforeAmortization);
+    expect(result.amortizationCarriedForward).toBeCloseTo(8666.67 - result.resultBeforeAmortization, 2);
+    expect(result.rentalResult).toBe(0);
+    expect(result.deficit).toBe(0);
+    expect(result.taxableIncome).toBe(0);
+  });
+
+  it("deducts no amortization from a deficit", () => {
+    const result = calculateFurnishedRentalReelTax(5000, 4000, "LOCATION_MEUBLEE", ASSETS, { fiscalYear: 2024 });
+
+    expect(result.resultBeforeAmortization).toBeLessThan(0);
+    expect(result.amortizationDeducted).toBe(0);
+    expect(result.amortizationCarriedForward).toBe(8666.67);
+    expect(result.deficit).toBe(-result.resultBeforeAmortization);
+  });
+
+  it("deducts all the amortizations from a sufficient result", () => {
+    const result = calculateFurnishedRentalReelTax(30000, 4000, "LOCATION_MEUBLEE", ASSETS, { fiscalYear: 2024 });
+
+    expect(result.amortizationDeducted).toBe(8666.67);
+    expect(result.amortizationCarriedForward).toBe(0);
+    expect(result.rentalResult).toBeCloseTo(result.resultBeforeAmortization - 8666.67, 2);
+  });
+});
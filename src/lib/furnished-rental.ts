@@ -0,0 +1,166 @@
+// src/lib/furnished-rental.ts
+
+import { calculateCfe, DEFAULT_CFE_SETTINGS, type CfeResult } from '@/lib/cfe';
+import { DEFAULT_FISCAL_YEAR, getFiscalParameters, type FiscalYear } from '@/lib/fiscal-parameters';
+import { calculateTnsContributions, type SocialContributionLine } from '@/lib/social-contributions';
+import { calculateActivityIncomeTax, type ActivityType, type IncomeTaxDetails, type RegimeOptions } from '@/lib/tax-calculator';
+
+export const FURNISHED_RENTAL_ACTIVITY_TYPES: ActivityType[] = [
+  "LOCATION_MEUBLEE",
+  "MEUBLE_TOURISME_CLASSE",
+  "MEUBLE_TOURISME_NON_CLASSE",
+  "CHAMBRES_HOTES",
+];
+
+// Usual amortization periods accepted for a rented dwelling, in years
+export const BUILDING_AMORTIZATION_YEARS = 30;
+export const FURNITURE_AMORTIZATION_YEARS = 7;
+
+// Share of the acquisition price usually allocated to the land, which cannot be amortized
+export const DEFAULT_LAND_SHARE = 0.15;
+
+/**
+ * Returns true for the activities of location meublée, chambres d'hôtes included.
+ */
+export function isFurnishedRental(activityType: ActivityType): boolean {
+  return FURNISHED_RENTAL_ACTIVITY_TYPES.includes(activityType);
+}
+
+/**
+ * Assets and financing of the rented property, used by the régime réel.
+ */
+export interface FurnishedRentalAssets {
+  propertyValue: number;              // Prix d'acquisition du bien, frais d'acquisition inclus
+  landShare: number;                  // Share of the price allocated to the land, e.g. 0.15
+  furnitureValue: number;             // Valeur du mobilier et des équipements
+  loanInterest: number;               // Intérêts d'emprunt of the year
+  amortizationCarriedForward: number; // Amortissements non déduits of the previous years
+}
+
+export const NO_FURNISHED_RENTAL_ASSETS: FurnishedRentalAssets = {
+  propertyValue: 0,
+  landShare: DEFAULT_LAND_SHARE,
+  furnitureValue: 0,
+  loanInterest: 0,
+  amortizationCarriedForward: 0,
+};
+
+export interface FurnishedRentalReelResult {
+  fiscalYear: FiscalYear;
+  fiscalParts: number;
+  nonProfessionalRental: boolean;       // LMNP: prélèvements sociaux; otherwise SSI contributions (chambres d'hôtes)
+  revenue: number;
+  charges: number;                      // Charges déductibles: taxe foncière, assurance, copropriété, gestion…
+  loanInterest: number;
+  cfe: CfeResult;                       // Cotisation foncière des entreprises, deducted as a charge
+  resultBeforeAmortization: number;     // Revenue - charges - interest - CFE, negative for a deficit
+  buildingAmortization: number;         // Annuity of the building, land excluded
+  furnitureAmortization: number;
+  amortizationAvailable: number;        // Annuities of the year + amortizations carried forward
+  amortizationDeducted: number;         // Limited to the result before amortization
+  amortizationCarriedForward: number;   // Unused amortizations, deductible the following years without time limit
+  rentalResult: number;                 // Résultat BIC after amortization, negative for a deficit
+  deficit: number;                      // Déficit of the year, only deductible from future location meublée income
+  taxableIncome: number;
+  taxAmount: number;                    // IR attributable to the rental
+  incomeTaxDetails: IncomeTaxDetails;
+  otherTaxableIncome: number;
+  householdTaxWithoutActivity: number;
+  socialLevyRate: number;
+  socialLevies: number;                 // Prélèvements sociaux of the LMNP
+  socialContributions: SocialContributionLine[]; // SSI contributions of the chambres d'hôtes
+  totalSocialContributions: number;     // Prélèvements sociaux or SSI contributions
+  netIncomeAfterAll: number;            // Cash result: revenue - charges - interest - CFE - contributions - tax, amortizations excluded
+}
+
+/**
+ * Calculates the régime réel of a location meublée.
+ * The building (land excluded) and the furniture are amortized on a straight-line basis. Amortizations can only
+ * bring the result down to zero: the unused part is carried forward to the following years without time limit.
+ * A location meublée non professionnelle pays the prélèvements sociaux on its result, and its deficit can only
+ * be deducted from the location meublée income of the following years. Chambres d'hôtes, a commercial activity,
+ * pay the SSI contributions of a travailleur non salarié. The CFE is deducted with the charges.
+ * @param annualRevenue The annual rents received.
+ * @param annualCharges The deductible charges of the year, interest excluded.
+ * @param activityType The furnished rental activity.
+ * @param assets The property, the furniture, the loan interest and the amortizations carried forward.
+ * @param options The household composition, the fiscal year, the réductions d'impôt, the other income of the foyer, the ACRE and the commune of the CFE.
+ * @returns The amortizations deducted and carried forward, the tax and the net income.
+ */
+export function calculateFurnishedRentalReelTax(
+  annualRevenue: number,
+  annualCharges: number,
+  activityType: ActivityType,
+  assets: FurnishedRentalAssets,
+  options: RegimeOptions = {}
+): FurnishedRentalReelResult {
+  const fiscalYear = options.fiscalYear ?? DEFAULT_FISCAL_YEAR;
+  const { micro } = getFiscalParameters(fiscalYear);
+  const nonProfessionalRental = micro.activities[activityType].nonProfessionalRental === true;
+  const revenue = Math.max(0, annualRevenue);
+  const charges = Math.max(0, annualCharges);
+  const loanInterest = Math.max(0, assets.loanInterest);
+  const cfe = calculateCfe(revenue, options.cfe ?? DEFAULT_CFE_SETTINGS, fiscalYear, options.creationDate);
+
+  const resultBeforeAmortization = revenue - charges - loanInterest - cfe.amount;
+
+  const landShare = Math.min(1, Math.max(0, assets.landShare));
+  const buildingAmortization = Math.max(0, assets.propertyValue) * (1 - landShare) / BUILDING_AMORTIZATION_YEARS;
+  const furnitureAmortization = Math.max(0, assets.furnitureValue) / FURNITURE_AMORTIZATION_YEARS;
+  const amortizationAvailable = buildingAmortization + furnitureAmortization + Math.max(0, assets.amortizationCarriedForward);
+  // Amortizations can neither create nor increase a deficit
+  const amortizationDeducted = Math.min(amortizationAvailable, Math.max(0, resultBeforeAmortization));
+  const rentalResult = resultBeforeAmortization - amortizationDeducted;
+  const deficit = Math.max(0, -rentalResult);
+
+  let socialContributions: SocialContributionLine[] = [];
+  let socialLevies = 0;
+  let totalSocialContributions: number;
+  let taxableIncome: number;
+  if (nonProfessionalRental) {
+    taxableIncome = Math.max(0, rentalResult);
+    socialLevies = taxableIncome * micro.rentalSocialLevyRate;
+    totalSocialContributions = socialLevies;
+  } else {
+    const contributions = calculateTnsContributions(rentalResult, activityType, {
+      fiscalYear,
+      creationDate: options.creationDate,
+      acre: options.acre,
+    });
+    socialContributions = contributions.lines;
+    totalSocialContributions = contributions.totalContributions;
+    taxableIncome = Math.max(0, contributions.professionalIncome + contributions.nonDeductibleContributions);
+  }
+
+  const { incomeTaxDetails, otherTaxableIncome, householdTaxWithoutActivity, taxAmount } = calculateActivityIncomeTax(taxableIncome, options);
+
+  const netIncomeAfterAll = resultBeforeAmortization - totalSocialContributions - taxAmount;
+
+  return {
+    fiscalYear,
+    fiscalParts: incomeTaxDetails.fiscalParts,
+    nonProfessionalRental,
+    revenue: parseFloat(revenue.toFixed(2)),
+    charges: parseFloat(charges.toFixed(2)),
+    loanInterest: parseFloat(loanInterest.toFixed(2)),
+    cfe,
+    resultBeforeAmortization: parseFloat(resultBeforeAmortization.toFixed(2)),
+    buildingAmortization: parseFloat(buildingAmortization.toFixed(2)),
+    furnitureAmortization: parseFloat(furnitureAmortization.toFixed(2)),
+    amortizationAvailable: parseFloat(amortizationAvailable.toFixed(2)),
+    amortizationDeducted: parseFloat(amortizationDeducted.toFixed(2)),
+    amortizationCarriedForward: parseFloat((amortizationAvailable - amortizationDeducted).toFixed(2)),
+    rentalResult: parseFloat(rentalResult.toFixed(2)),
+    deficit: parseFloat(deficit.toFixed(2)),
+    taxableIncome: parseFloat(taxableIncome.toFixed(2)),
+    taxAmount,
+    incomeTaxDetails,
+    otherTaxableIncome,
+    householdTaxWithoutActivity,
+    socialLevyRate: nonProfessionalRental ? micro.rentalSocialLevyRate : 0,
+    socialLevies: parseFloat(socialLevies.toFixed(2)),
+    socialContributions,
+    totalSocialContributions: parseFloat(totalSocialContributions.toFixed(2)),
+    netIncomeAfterAll: parseFloat(netIncomeAfterAll.toFixed(2)),
+  };
+}
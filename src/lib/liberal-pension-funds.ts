@@ -0,0 +1,190 @@
+// src/lib/liberal-pension-funds.ts
+
+import type { ActivityType } from '@/lib/tax-calculator';
+
+/**
+ * Caisses de retraite des professions libérales réglementées (sections de la CNAVPL).
+ * Their members pay maladie, allocations familiales and CSG/CRDS to the URSSAF,
+ * but their retraite de base, retraite complémentaire and invalidité-décès to the caisse.
+ */
+export type LiberalPensionFund = "CIPAV" | "CARMF" | "CARPIMKO" | "CAVEC";
+
+// Caisses that can be selected for LIBERAL_BNC_REGLEMENTEE, the CIPAV having its own activity type
+export const REGULATED_PENSION_FUNDS: LiberalPensionFund[] = ["CARMF", "CARPIMKO", "CAVEC"];
+
+export interface ContributionTranche {
+  rate: number;
+  fromPassRatio: number; // Lower bound of the tranche, as a multiple of the PASS
+  toPassRatio: number;   // Upper bound of the tranche, as a multiple of the PASS
+}
+
+export interface ContributionClass {
+  id: string;
+  label: string;
+  amount: number;                // Annual flat contribution of the class
+  minimumIncomePassRatio: number; // The class applies from this income, as a multiple of the PASS
+}
+
+export type ContributionSchedule =
+  | { kind: "proportional"; fixedAmount: number; tranches: ContributionTranche[] }
+  | { kind: "classes"; classes: ContributionClass[]; selectable: boolean }; // selectable: a higher class can be chosen
+
+export interface PensionFundParameters {
+  label: string;
+  professions: string;
+  retraiteComplementaire: ContributionSchedule;
+  invaliditeDeces: ContributionSchedule;
+}
+
+export interface PensionFundClassChoices {
+  retraiteComplementaire?: string; // Id of the chosen class
+  invaliditeDeces?: string;
+}
+
+// Retraite de base of the CNAVPL, common to every section
+export const CNAVPL_BASE_TRANCHES: ContributionTranche[] = [
+  { rate: 0.0873, fromPassRatio: 0, toPassRatio: 1 },
+  { rate: 0.0187, fromPassRatio: 0, toPassRatio: 5 },
+];
+
+// Assiette minimale of the CNAVPL retraite de base, as a multiple of the PASS
+export const CNAVPL_MINIMUM_BASE_PASS_RATIO = 0.115;
+
+// Indemnités journalières of the professions libérales, collected by the URSSAF
+export const LIBERAL_INDEMNITES_JOURNALIERES = { rate: 0.003, ceilingPassRatio: 3, minimumBasePassRatio: 0.4 };
+
+export const PENSION_FUNDS: Record<LiberalPensionFund, PensionFundParameters> = {
+  CIPAV: {
+    label: "CIPAV",
+    professions: "Architectes, géomètres, ingénieurs-conseils, psychologues…",
+    retraiteComplementaire: {
+      kind: "proportional",
+      fixedAmount: 0,
+      tranches: [
+        { rate: 0.09, fromPassRatio: 0, toPassRatio: 1 },
+        { rate: 0.22, fromPassRatio: 1, toPassRatio: 4 },
+      ],
+    },
+    invaliditeDeces: {
+      kind: "proportional",
+      fixedAmount: 0,
+      tranches: [{ rate: 0.005, fromPassRatio: 0, toPassRatio: 1.85 }],
+    },
+  },
+  CARMF: {
+    label: "CARMF",
+    professions: "Médecins",
+    retraiteComplementaire: {
+      kind: "proportional",
+      fixedAmount: 0,
+      tranches: [{ rate: 0.1, fromPassRatio: 0, toPassRatio: 3.5 }],
+    },
+    invaliditeDeces: {
+      kind: "classes",
+      selectable: false,
+      classes: [
+        { id: "A", label: "Classe A", amount: 631, minimumIncomePassRatio: 0 },
+        { id: "B", label: "Classe B", amount: 738, minimumIncomePassRatio: 1 },
+        { id: "C", label: "Classe C", amount: 845, minimumIncomePassRatio: 3 },
+      ],
+    },
+  },
+  CARPIMKO: {
+    label: "CARPIMKO",
+    professions: "Infirmiers, masseurs-kinésithérapeutes, orthophonistes, orthoptistes, pédicures-podologues",
+    retraiteComplementaire: {
+      kind: "proportional",
+      fixedAmount: 1992,
+      tranches: [{ rate: 0.03, fromPassRatio: 0.545, toPassRatio: 5 }],
+    },
+    invaliditeDeces: {
+      kind: "proportional",
+      fixedAmount: 1022,
+      tranches: [],
+    },
+  },
+  CAVEC: {
+    label: "CAVEC",
+    professions: "Experts-comptables et commissaires aux comptes",
+    retraiteComplementaire: {
+      kind: "classes",
+      selectable: true,
+      classes: [
+        { id: "A", label: "Classe A", amount: 2256, minimumIncomePassRatio: 0 },
+        { id: "B", label: "Classe B", amount: 4513, minimumIncomePassRatio: 0.6 },
+        { id: "C", label: "Classe C", amount: 6769, minimumIncomePassRatio: 1 },
+        { id: "D", label: "Classe D", amount: 11282, minimumIncomePassRatio: 1.5 },
+        { id: "E", label: "Classe E", amount: 15795, minimumIncomePassRatio: 2 },
+        { id: "F", label: "Classe F", amount: 20308, minimumIncomePassRatio: 3 },
+      ],
+    },
+    invaliditeDeces: {
+      kind: "classes",
+      selectable: true,
+      classes: [
+        { id: "A", label: "Classe A", amount: 403, minimumIncomePassRatio: 0 },
+        { id: "B", label: "Classe B", amount: 1209, minimumIncomePassRatio: 0 },
+        { id: "C", label: "Classe C", amount: 2015, minimumIncomePassRatio: 0 },
+      ],
+    },
+  },
+};
+
+/**
+ * Returns the caisse de retraite of a liberal activity, or undefined when the activity
+ * relies on the Sécurité sociale des indépendants for its pension.
+ * @param activityType The type of activity.
+ * @param pensionFund The caisse selected for a profession réglementée outside the CIPAV.
+ */
+export function getPensionFund(activityType: ActivityType, pensionFund?: LiberalPensionFund): LiberalPensionFund | undefined {
+  if (activityType === "LIBERAL_BNC_CIPAV") return "CIPAV";
+  if (activityType === "LIBERAL_BNC_REGLEMENTEE") return pensionFund && pensionFund !== "CIPAV" ? pensionFund : REGULATED_PENSION_FUNDS[0];
+  return undefined;
+}
+
+/**
+ * Applies proportional tranches to an income.
+ */
+export function applyTranches(income: number, tranches: ContributionTranche[], pass: number): number {
+  return tranches.reduce((sum, tranche) => {
+    const base = Math.min(income, pass * tranche.toPassRatio) - pass * tranche.fromPassRatio;
+    return sum + Math.max(0, base) * tranche.rate;
+  }, 0);
+}
+
+export interface ScheduleContribution {
+  amount: number;
+  classId?: string; // Class applied, for a schedule in classes
+}
+
+/**
+ * Computes the contribution due under a caisse schedule.
+ * For a schedule in classes, the class follows the income; when the caisse allows it,
+ * a higher class than the one matching the income can be chosen.
+ * @param income The revenu professionnel.
+ * @param schedule The contribution schedule of the caisse.
+ * @param pass The plafond annuel de la sécurité sociale of the year.
+ * @param chosenClassId The class chosen by the member, if any.
+ */
+export function calculateScheduleContribution(
+  income: number,
+  schedule: ContributionSchedule,
+  pass: number,
+  chosenClassId?: string
+): ScheduleContribution {
+  if (schedule.kind === "proportional") {
+    return { amount: schedule.fixedAmount + applyTranches(Math.max(0, income), schedule.tranches, pass) };
+  }
+  let classIndex = 0;
+  schedule.classes.forEach((contributionClass, index) => {
+    const minimumRatio = contributionClass.minimumIncomePassRatio;
+    // Classes sharing the same minimum income are a choice: the lowest one applies by default
+    if (income >= pass * minimumRatio && minimumRatio > schedule.classes[classIndex].minimumIncomePassRatio) classIndex = index;
+  });
+  if (schedule.selectable && chosenClassId) {
+    const chosenIndex = schedule.classes.findIndex((contributionClass) => contributionClass.id === chosenClassId);
+    classIndex = Math.max(classIndex, chosenIndex);
+  }
+  const applied = schedule.classes[classIndex];
+  return { amount: applied.amount, classId: applied.id };
+}
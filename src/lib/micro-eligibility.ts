@@ -0,0 +1,312 @@
+// src/lib/micro-eligibility.ts
+
+import { getActivityShareOfYear, isCreationYear } from '@/lib/business-creation';
+import { DEFAULT_FISCAL_YEAR, getFiscalParameters, type FiscalYear, type VatFranchiseThresholds } from '@/lib/fiscal-parameters';
+import { getCrossingMonth, getMonthlyShares } from '@/lib/monthly-amounts';
+import { getTotalRevenue, type ActivityType, type RevenueLine } from '@/lib/tax-calculator';
+
+export type ThresholdCategory = "sales" | "services";
+
+export type ThresholdId = "MICRO_CEILING" | "VAT_FRANCHISE" | "VAT_FRANCHISE_INCREASED";
+
+// "total": the whole revenue; "services": the services part of a mixed activity, subject to its own sub-limit;
+// "activity": the revenue of an activity with a ceiling of its own (meublés de tourisme)
+export type ThresholdScope = "total" | "services" | "activity";
+
+export interface ThresholdCheck {
+  id: ThresholdId;
+  scope: ThresholdScope;
+  activityType?: ActivityType; // For the "activity" scope
+  label: string;
+  threshold: number;
+  revenue: number;
+  ratio: number;     // revenue / threshold, e.g. 0.8 at 80% of the threshold
+  exceeded: boolean;
+  crossingMonth: number | null; // Month (1-12) in which the cumulated revenue exceeds the threshold
+}
+
+export type EligibilityWarningLevel = "info" | "warning" | "blocking";
+
+export interface EligibilityWarning {
+  code: string;
+  level: EligibilityWarningLevel;
+  message: string;
+}
+
+export interface MicroEligibilityResult {
+  eligible: boolean;           // False when the micro regime no longer applies
+  vatFranchiseApplies: boolean; // Franchise en base de TVA for the simulated year
+  category: ThresholdCategory; // "sales" as soon as the business sells goods, mixed activities included
+  mixed: boolean;              // Ventes and services in the same business
+  servicesRevenue: number;     // Revenue of the services lines
+  prorata: number;             // Share of the year used to prorate the micro ceilings
+  thresholds: ThresholdCheck[];
+  warnings: EligibilityWarning[];
+}
+
+export interface MicroEligibilityOptions {
+  fiscalYear?: FiscalYear;
+  previousYearRevenue?: number; // CA N-1, assumed below every threshold when unknown
+  creationDate?: string;        // Date de création (YYYY-MM-DD), to prorate the micro ceilings of the first year
+  monthlyRevenue?: number[];    // Chiffre d'affaires of each month, to date the crossings; spread evenly when missing
+}
+
+// Share of a threshold above which the user is warned that it is getting close
+const THRESHOLD_PROXIMITY_RATIO = 0.9;
+
+// Activities with a ceiling of their own, named in the warnings
+const ACTIVITY_CEILING_LABELS: Partial<Record<ActivityType, string>> = {
+  MEUBLE_TOURISME_CLASSE: "meublé de tourisme classé",
+  MEUBLE_TOURISME_NON_CLASSE: "meublé de tourisme non classé",
+};
+
+/**
+ * Returns which set of thresholds applies to the activity.
+ * Ventes de marchandises and fourniture de logement (chambres d'hôtes, meublés de tourisme classés) use the higher
+ * "sales" thresholds, every other activity (BIC services, BNC, location meublée) uses the "services" thresholds.
+ */
+export function getThresholdCategory(activityType: ActivityType): ThresholdCategory {
+  return activityType === "VENTE_BIC" || activityType === "MEUBLE_TOURISME_CLASSE" || activityType === "CHAMBRES_HOTES" ? "sales" : "services";
+}
+
+function formatAmount(value: number): string {
+  return value.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 });
+}
+
+function buildThresholdCheck(id: ThresholdId, scoped: ScopedRevenue, label: string, threshold: number, revenue: number, monthlyShares: number[]): ThresholdCheck {
+  return {
+    id,
+    scope: scoped.scope,
+    activityType: scoped.activityType,
+    label,
+    threshold,
+    revenue,
+    ratio: threshold > 0 ? parseFloat((revenue / threshold).toFixed(4)) : 0,
+    exceeded: revenue > threshold,
+    crossingMonth: getCrossingMonth(revenue, threshold, monthlyShares),
+  };
+}
+
+/**
+ * Revenue of one scope checked against the thresholds of one category.
+ */
+interface ScopedRevenue {
+  scope: ThresholdScope;
+  activityType?: ActivityType;
+  category: ThresholdCategory;
+  ceiling: number;     // Micro ceiling of the scope, before proration
+  revenue: number;
+  previousYearRevenue: number;
+  vatRevenue?: number; // Revenue subject to TVA, undefined when the scope is not checked against the TVA thresholds
+  subject: string;    // Subject of the warning messages
+  codeSuffix: string; // Keeps the warning codes unique across scopes
+  labelSuffix: string;
+}
+
+/**
+ * Applies the micro ceiling rule to one scope: the micro regime is lost when the ceiling is exceeded two consecutive years.
+ * @returns False when the micro regime is lost.
+ */
+function checkMicroCeiling(scoped: ScopedRevenue, ceiling: number, warnings: EligibilityWarning[]): boolean {
+  const { revenue, previousYearRevenue, subject, codeSuffix } = scoped;
+  if (revenue > ceiling && previousYearRevenue > ceiling) {
+    warnings.push({
+      code: `MICRO_CEILING_EXCEEDED_TWICE${codeSuffix}`,
+      level: "blocking",
+      message: `${subject} dépasse le plafond du régime micro (${formatAmount(ceiling)}) deux années consécutives : l'activité relève du régime réel.`,
+    });
+    return false;
+  }
+  if (revenue > ceiling) {
+    warnings.push({
+      code: `MICRO_CEILING_EXCEEDED${codeSuffix}`,
+      level: "warning",
+      message: `${subject} dépasse le plafond du régime micro (${formatAmount(ceiling)}). Le régime micro est conservé cette année, mais un nouveau dépassement l'année suivante entraînera le passage au réel.`,
+    });
+  } else if (previousYearRevenue > ceiling) {
+    warnings.push({
+      code: `MICRO_CEILING_EXCEEDED_PREVIOUS_YEAR${codeSuffix}`,
+      level: "warning",
+      message: `Le plafond du régime micro (${formatAmount(ceiling)}) a été dépassé l'année précédente : un dépassement cette année entraînerait le passage au réel.`,
+    });
+  } else if (revenue > ceiling * THRESHOLD_PROXIMITY_RATIO) {
+    warnings.push({
+      code: `MICRO_CEILING_CLOSE${codeSuffix}`,
+      level: "info",
+      message: `${subject} approche du plafond du régime micro (${formatAmount(ceiling)}).`,
+    });
+  }
+  return true;
+}
+
+/**
+ * Applies the franchise en base de TVA rules to one scope: the franchise is lost immediately above the seuil majoré,
+ * or when the seuil is exceeded two consecutive years.
+ * @returns False when the franchise en base is lost.
+ */
+function checkVatFranchise(scoped: ScopedRevenue, vat: VatFranchiseThresholds, warnings: EligibilityWarning[]): boolean {
+  const { revenue, previousYearRevenue, subject, codeSuffix } = scoped;
+  if (revenue > vat.increasedThreshold) {
+    warnings.push({
+      code: `VAT_FRANCHISE_INCREASED_EXCEEDED${codeSuffix}`,
+      level: "warning",
+      message: `${subject} dépasse le seuil majoré de franchise en base de TVA (${formatAmount(vat.increasedThreshold)}) : la TVA est due dès le dépassement.`,
+    });
+    return false;
+  }
+  if (revenue > vat.threshold && previousYearRevenue > vat.threshold) {
+    warnings.push({
+      code: `VAT_FRANCHISE_EXCEEDED_TWICE${codeSuffix}`,
+      level: "warning",
+      message: `Le seuil de franchise en base de TVA (${formatAmount(vat.threshold)}) est dépassé deux années consécutives : la TVA est due dès le 1er janvier.`,
+    });
+    return false;
+  }
+  if (revenue > vat.threshold) {
+    warnings.push({
+      code: `VAT_FRANCHISE_EXCEEDED${codeSuffix}`,
+      level: "info",
+      message: `Le seuil de franchise en base de TVA (${formatAmount(vat.threshold)}) est dépassé : la franchise est conservée cette année mais sera perdue au 1er janvier suivant.`,
+    });
+  } else if (revenue > vat.threshold * THRESHOLD_PROXIMITY_RATIO) {
+    warnings.push({
+      code: `VAT_FRANCHISE_CLOSE${codeSuffix}`,
+      level: "info",
+      message: `${subject} approche du seuil de franchise en base de TVA (${formatAmount(vat.threshold)}).`,
+    });
+  }
+  return true;
+}
+
+/**
+ * Checks the annual revenue against the micro regime ceilings and the franchise en base de TVA thresholds.
+ * The micro regime is lost when the ceiling is exceeded two consecutive years; the franchise en base is lost
+ * immediately above the seuil majoré, or when the seuil is exceeded two consecutive years. An unknown previous year
+ * is assumed below the thresholds, with a warning when the simulated year exceeds one of them.
+ * A mixed activity must stay below the "sales" thresholds overall and below the "services" thresholds for its services part.
+ * The meublés de tourisme also have a ceiling of their own, and the location meublée non professionnelle, exonérée de TVA,
+ * is left out of the franchise en base thresholds.
+ * In the year of creation, the micro ceilings are prorated to the period of activity; the franchise en base thresholds
+ * are not. The month each threshold is crossed
+ * follows the monthly revenue entered, or the revenue spread evenly over the days of activity.
+ * @param revenueLines The annual revenue of each activity type of the simulated year.
+ * @param options The fiscal year, the revenue of the previous year, the creation date and the monthly revenue.
+ * @returns The eligibility, the position against each threshold and structured warnings.
+ */
+export function checkMicroEligibility(
+  revenueLines: RevenueLine[],
+  options: MicroEligibilityOptions = {}
+): MicroEligibilityResult {
+  const fiscalYear = options.fiscalYear ?? DEFAULT_FISCAL_YEAR;
+  const { micro } = getFiscalParameters(fiscalYear);
+  const revenue = getTotalRevenue(revenueLines);
+  const servicesRevenue = getTotalRevenue(revenueLines.filter((line) => getThresholdCategory(line.activityType) === "services"));
+  const category: ThresholdCategory = revenueLines.some((line) => getThresholdCategory(line.activityType) === "sales") ? "sales" : "services";
+  const mixed = category === "sales" && servicesRevenue > 0;
+  const creationYear = isCreationYear(options.creationDate, fiscalYear);
+  // No previous year of activity in the year of creation; an unknown one is assumed below the thresholds
+  const previousYearUnknown = !creationYear && options.previousYearRevenue === undefined;
+  const previousYearRevenue = creationYear ? 0 : Math.max(0, options.previousYearRevenue ?? 0);
+  const prorata = creationYear ? getActivityShareOfYear(options.creationDate, fiscalYear) : 1;
+  // Every scope is assumed to follow the seasonality of the whole revenue
+  const monthlyShares = getMonthlyShares(options.monthlyRevenue, options.creationDate, fiscalYear);
+  // The shares of the previous year are assumed equal to the simulated ones
+  const previousYearRevenueOf = (scopeRevenue: number) => (revenue > 0 ? previousYearRevenue * scopeRevenue / revenue : 0);
+
+  const isVatExempt = (line: RevenueLine) => micro.activities[line.activityType].nonProfessionalRental === true;
+  const vatExemptRevenue = getTotalRevenue(revenueLines.filter(isVatExempt));
+  // A scope made only of exempt revenue has no TVA threshold to check
+  const vatRevenueOf = (scopeRevenue: number, scopeExemptRevenue: number) =>
+    scopeExemptRevenue > 0 && scopeExemptRevenue >= scopeRevenue ? undefined : scopeRevenue - scopeExemptRevenue;
+
+  const scopes: ScopedRevenue[] = [
+    {
+      scope: "total",
+      category,
+      ceiling: micro.revenueCeilings[category],
+      revenue,
+      previousYearRevenue,
+      vatRevenue: vatRevenueOf(revenue, vatExemptRevenue),
+      subject: "Le chiffre d'affaires",
+      codeSuffix: "",
+      labelSuffix: "",
+    },
+  ];
+  if (mixed) {
+    const servicesLines = revenueLines.filter((line) => getThresholdCategory(line.activityType) === "services");
+    scopes.push({
+      scope: "services",
+      category: "services",
+      ceiling: micro.revenueCeilings.services,
+      revenue: servicesRevenue,
+      previousYearRevenue: previousYearRevenueOf(servicesRevenue),
+      vatRevenue: vatRevenueOf(servicesRevenue, getTotalRevenue(servicesLines.filter(isVatExempt))),
+      subject: "Le chiffre d'affaires des prestations de services",
+      codeSuffix: "_SERVICES",
+      labelSuffix: " (part services)",
+    });
+  }
+  for (const activityType of new Set(revenueLines.map((line) => line.activityType))) {
+    const activityCeiling = micro.activities[activityType].revenueCeiling;
+    if (activityCeiling === undefined) continue;
+    const activityRevenue = getTotalRevenue(revenueLines.filter((line) => line.activityType === activityType));
+    const label = ACTIVITY_CEILING_LABELS[activityType] ?? activityType;
+    scopes.push({
+      scope: "activity",
+      activityType,
+      category: getThresholdCategory(activityType),
+      ceiling: activityCeiling,
+      revenue: activityRevenue,
+      previousYearRevenue: previousYearRevenueOf(activityRevenue),
+      subject: `Le chiffre d'affaires en ${label}`,
+      codeSuffix: `_${activityType}`,
+      labelSuffix: ` (${label})`,
+    });
+  }
+
+  const thresholds: ThresholdCheck[] = [];
+  const warnings: EligibilityWarning[] = [];
+  let eligible = true;
+  let vatFranchiseApplies = true;
+
+  if (creationYear && prorata < 1) {
+    warnings.push({
+      code: "THRESHOLDS_PRORATED",
+      level: "info",
+      message: `Année de création : le plafond du régime micro est ajusté au prorata de la durée d'activité (${Math.round(prorata * 100)}% de l'année) ; les seuils de franchise en base de TVA ne le sont pas.`,
+    });
+  }
+
+  if (vatExemptRevenue > 0) {
+    warnings.push({
+      code: "RENTAL_VAT_EXEMPT",
+      level: "info",
+      message: "La location meublée non professionnelle est exonérée de TVA : ses recettes ne sont pas retenues pour la franchise en base.",
+    });
+  }
+
+  for (const scoped of scopes) {
+    const ceiling = Math.round(scoped.ceiling * prorata);
+    thresholds.push(buildThresholdCheck("MICRO_CEILING", scoped, `Plafond du régime micro${scoped.labelSuffix}`, ceiling, scoped.revenue, monthlyShares));
+    eligible = checkMicroCeiling(scoped, ceiling, warnings) && eligible;
+
+    if (scoped.vatRevenue === undefined) continue;
+    const vat = micro.vatFranchise[scoped.category];
+    const vatScoped = { ...scoped, revenue: scoped.vatRevenue, previousYearRevenue: previousYearRevenueOf(scoped.vatRevenue) };
+    thresholds.push(
+      buildThresholdCheck("VAT_FRANCHISE", scoped, `Seuil de franchise en base de TVA${scoped.labelSuffix}`, vat.threshold, vatScoped.revenue, monthlyShares),
+      buildThresholdCheck("VAT_FRANCHISE_INCREASED", scoped, `Seuil majoré de franchise en base de TVA${scoped.labelSuffix}`, vat.increasedThreshold, vatScoped.revenue, monthlyShares),
+    );
+    vatFranchiseApplies = checkVatFranchise(vatScoped, vat, warnings) && vatFranchiseApplies;
+  }
+
+  if (previousYearUnknown && thresholds.some((check) => check.exceeded && check.id !== "VAT_FRANCHISE_INCREASED")) {
+    warnings.push({
+      code: "PREVIOUS_YEAR_REVENUE_UNKNOWN",
+      level: "warning",
+      message: "Le chiffre d'affaires de l'année précédente n'est pas renseigné : il est supposé sous les seuils. Renseignez-le pour savoir si le dépassement de cette année est le second consécutif.",
+    });
+  }
+
+  return { eligible, vatFranchiseApplies, category, mixed, servicesRevenue, prorata, thresholds, warnings };
+}
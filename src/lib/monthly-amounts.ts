@@ -0,0 +1,116 @@
+// src/lib/monthly-amounts.ts
+
+import { parseIsoDate } from '@/lib/business-creation';
+import { DEFAULT_FISCAL_YEAR, type FiscalYear } from '@/lib/fiscal-parameters';
+import { getTotalRevenue, type RevenueLine } from '@/lib/tax-calculator';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+export const MONTHS_IN_YEAR = 12;
+
+export const MONTH_LABELS = ["janvier", "février", "mars", "avril", "mai", "juin", "juillet", "août", "septembre", "octobre", "novembre", "décembre"];
+
+/**
+ * Revenue and expenses of each month of the year, January first, entered instead of the annual amounts.
+ */
+export interface MonthlyAmounts {
+  revenue: number[];  // Chiffre d'affaires cashed, all activities together
+  expenses: number[];
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + Math.max(0, value), 0);
+}
+
+/**
+ * Share of the revenue of the year earned each month: from the amounts entered when there are twelve of them,
+ * otherwise spread evenly over the days of activity.
+ * @param monthlyRevenue The revenue entered for each month, undefined when only the annual amount is known.
+ * @param creationDate The business creation date (YYYY-MM-DD), undefined for an existing business.
+ * @param fiscalYear The simulated year.
+ * @returns Twelve shares summing to 1, or to 0 when the business is not active during the year.
+ */
+export function getMonthlyShares(monthlyRevenue: number[] | undefined, creationDate: string | undefined, fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR): number[] {
+  if (monthlyRevenue?.length === MONTHS_IN_YEAR && sum(monthlyRevenue) > 0) {
+    const total = sum(monthlyRevenue);
+    return monthlyRevenue.map((revenue) => Math.max(0, revenue) / total);
+  }
+  const creation = parseIsoDate(creationDate);
+  const activeDays = Array.from({ length: MONTHS_IN_YEAR }, (_, month) => {
+    const end = Date.UTC(fiscalYear, month + 1, 0);
+    const start = Math.max(Date.UTC(fiscalYear, month, 1), creation ?? 0);
+    return end < start ? 0 : Math.round((end - start) / DAY_IN_MS) + 1;
+  });
+  const totalDays = sum(activeDays);
+  return activeDays.map((days) => (totalDays > 0 ? days / totalDays : 0));
+}
+
+/**
+ * Spreads an annual amount over the months with the shares of each month.
+ * @param amount The annual amount.
+ * @param shares The share of each month, from getMonthlyShares.
+ * @returns The amount of each month, January first.
+ */
+export function spreadOverMonths(amount: number, shares: number[]): number[] {
+  return shares.map((share) => parseFloat((amount * share).toFixed(2)));
+}
+
+/**
+ * Month (1-12) in which the cumulated revenue exceeds a threshold.
+ * @param revenue The revenue of the year.
+ * @param threshold The threshold.
+ * @param shares The share of each month, from getMonthlyShares.
+ * @returns The month of the crossing, null when the revenue of the year stays below the threshold.
+ */
+export function getCrossingMonth(revenue: number, threshold: number, shares: number[]): number | null {
+  if (revenue <= threshold) return null;
+  let cumulatedShare = 0;
+  const index = shares.findIndex((share) => {
+    cumulatedShare += share;
+    return revenue * cumulatedShare > threshold;
+  });
+  // Rounding may leave the last cumulated share just below 1
+  return index === -1 ? MONTHS_IN_YEAR : index + 1;
+}
+
+/**
+ * Replaces the annual amounts by the totals of the months. The revenue is shared between the activities
+ * in proportion to their annual amounts, or given to the first one when none is entered.
+ * @param revenueLines The revenue lines entered, for the activity types and their shares.
+ * @param monthlyAmounts The revenue and expenses of each month.
+ * @returns The revenue lines and the annual expenses fed to the calculators.
+ */
+export function applyMonthlyAmounts(revenueLines: RevenueLine[], monthlyAmounts: MonthlyAmounts): { revenueLines: RevenueLine[]; annualExpenses: number } {
+  const revenue = sum(monthlyAmounts.revenue);
+  const enteredRevenue = getTotalRevenue(revenueLines);
+  return {
+    revenueLines: revenueLines.map((line, index) => ({
+      ...line,
+      annualRevenue: parseFloat((enteredRevenue > 0
+        ? revenue * Math.max(0, line.annualRevenue) / enteredRevenue
+        : index === 0 ? revenue : 0).toFixed(2)),
+    })),
+    annualExpenses: parseFloat(sum(monthlyAmounts.expenses).toFixed(2)),
+  };
+}
+
+/**
+ * Reads the amounts copied from a spreadsheet: one row per line, cells separated by tabulations or semicolons.
+ * French formats are accepted ("1 234,56 €"); a cell that is not a number is left empty.
+ * @param text The text pasted.
+ * @returns The rows of cells, null for an empty or invalid cell.
+ */
+export function parsePastedAmounts(text: string): (number | null)[][] {
+  return text
+    .replace(/\r/g, "")
+    .split("\n")
+    .filter((row) => row.trim() !== "")
+    .map((row) => row.split(/[\t;]/).map((cell) => {
+      const compact = cell.replace(/[\s€]/g, "");
+      // With a decimal comma, dots separate the thousands
+      const normalized = compact.includes(",") ? compact.replace(/\./g, "").replace(",", ".") : compact;
+      if (normalized === "") return null;
+      const value = Number(normalized);
+      return Number.isFinite(value) ? value : null;
+    }));
+}
@@ -0,0 +1,318 @@
+// src/lib/projection.ts
+
+import { checkMicroEligibility } from '@/lib/micro-eligibility';
+import { FISCAL_YEARS, type FiscalYear } from '@/lib/fiscal-parameters';
+import { calculateEurlRegimeTax, DEFAULT_EURL_REMUNERATION, type EurlRemuneration } from '@/lib/eurl';
+import {
+  calculateFurnishedRentalReelTax,
+  isFurnishedRental,
+  NO_FURNISHED_RENTAL_ASSETS,
+  type FurnishedRentalAssets,
+} from '@/lib/furnished-rental';
+import { calculateSasuRegimeTax, DEFAULT_SASU_REMUNERATION, type SasuRemuneration } from '@/lib/sasu';
+import type { CarriedForwardDeficit } from '@/lib/deficits';
+import { calculateStartupProvisionalContributions, calculateTnsContributionsOnIncome } from '@/lib/social-contributions';
+import {
+  calculateMicroLiberatoireRegimeTax,
+  calculateMicroRegimeTax,
+  calculateReelRegimeTax,
+  getMainActivityType,
+  getTotalRevenue,
+  type RegimeOptions,
+  type RevenueLine,
+} from '@/lib/tax-calculator';
+
+export const MIN_PROJECTION_YEARS = 3;
+export const MAX_PROJECTION_YEARS = 5;
+
+export type ProjectionRegime = "MICRO" | "MICRO_LIBERATOIRE" | "REEL" | "SASU" | "EURL";
+
+export const PROJECTION_REGIMES: ProjectionRegime[] = ["MICRO", "MICRO_LIBERATOIRE", "REEL", "SASU", "EURL"];
+
+export interface ProjectionAssumptions {
+  years: number;          // Number of years projected, from the simulated year
+  revenueGrowth: number;  // Annual growth of the revenue, e.g. 0.05 for +5%
+  expenseGrowth: number;  // Annual growth of the expenses
+}
+
+export interface ProjectionInputs {
+  furnishedRental?: FurnishedRentalAssets;
+  sasu?: SasuRemuneration;
+  eurl?: EurlRemuneration;
+  previousYearRevenue?: number; // CA of the year before the first projected year
+}
+
+export interface ProjectionRegimeYear {
+  socialContributions: number;     // Contributions due for the year
+  socialContributionsPaid: number; // Contributions paid during the year: provisional + regularization of N-1 in réel
+  regularization: number;          // Réel: regularization of the contributions of N-1, paid this year (negative for a refund)
+  taxAmount: number;
+  netIncome: number;               // Net income of the year, on the contributions paid
+  cumulativeNetIncome: number;
+  acreExemption: number;
+  deficitTaxSaving: number;        // Réel: IR saved thanks to the deficits imputed on the revenu global
+  forcedReel: boolean;             // Micro: the ceilings are exceeded, the activity is taxed au réel from then on
+}
+
+export interface ProjectionYear {
+  year: number;              // Calendar year projected
+  parameterYear: FiscalYear; // Parameters applied: the latest available beyond the last known year
+  revenue: number;
+  expenses: number;
+  regimes: Record<ProjectionRegime, ProjectionRegimeYear | null>; // Null when the regime is not available that year
+}
+
+export interface ProjectionResult {
+  assumptions: ProjectionAssumptions;
+  startYear: FiscalYear;
+  years: ProjectionYear[];
+  cumulativeNetIncome: Record<ProjectionRegime, number | null>; // Null when the regime is missing one of the years
+  bestRegime: ProjectionRegime;
+  pendingRegularization: number; // Réel: regularization of the last year, due after the projection
+  deficitsCarriedForward: CarriedForwardDeficit[]; // Réel: deficits still reportable after the projection
+}
+
+const LATEST_FISCAL_YEAR = FISCAL_YEARS[FISCAL_YEARS.length - 1];
+
+/**
+ * Returns the parameter set applied to a projected year: its own when known, the nearest available otherwise.
+ */
+function getParameterYear(year: number): FiscalYear {
+  if (year < FISCAL_YEARS[0]) return FISCAL_YEARS[0];
+  return FISCAL_YEARS.find((fiscalYear) => fiscalYear === year) ?? LATEST_FISCAL_YEAR;
+}
+
+/**
+ * Moves a date (YYYY-MM-DD) back by a number of years, so that a year projected on the parameters of another
+ * year keeps its distance from the creation date (ACRE, prorata of the first year).
+ */
+function shiftDateBack(date: string | undefined, years: number): string | undefined {
+  if (!date || years === 0) return date;
+  return `${Number(date.slice(0, 4)) - years}${date.slice(4)}`;
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(2));
+}
+
+/**
+ * Projects each regime over several years with growing revenue and expenses, reusing the calculator of each regime
+ * with the parameters of each year: the ACRE expires, the micro rates change and the ceilings may be exceeded.
+ * In réel, the contributions paid in a year are provisional, computed on the revenu professionnel of N-1, or on the
+ * assiette forfaitaire de début d'activité in the year of creation; the difference with the contributions due is
+ * regularized the following year.
+ * The deficits of the réel not imputed on the other income of the foyer are carried forward to the following years.
+ * The other income of the foyer, the remuneration chosen in company and the RFR N-2 are kept constant.
+ * @param revenueLines The revenue of each activity in the first year.
+ * @param annualExpenses The expenses of the first year.
+ * @param assumptions The number of years and the growth rates.
+ * @param options The household, the first fiscal year, the other income, the ACRE and the caisse de retraite.
+ * @param inputs The assets of a location meublée, the remuneration in company and the revenue of the previous year.
+ * @returns Each year of each regime, the cumulative net income and the regime with the highest one.
+ */
+export function calculateProjection(
+  revenueLines: RevenueLine[],
+  annualExpenses: number,
+  assumptions: ProjectionAssumptions,
+  options: RegimeOptions = {},
+  inputs: ProjectionInputs = {}
+): ProjectionResult {
+  const startYear = options.fiscalYear ?? LATEST_FISCAL_YEAR;
+  const yearCount = Math.min(MAX_PROJECTION_YEARS, Math.max(MIN_PROJECTION_YEARS, Math.round(assumptions.years)));
+  const activityType = getMainActivityType(revenueLines);
+  const furnishedRental = isFurnishedRental(activityType);
+  const creationYear = options.creationDate ? Number(options.creationDate.slice(0, 4)) : null;
+
+  const optionsFor = (year: number): RegimeOptions => {
+    const parameterYear = getParameterYear(year);
+    return { ...options, fiscalYear: parameterYear, creationDate: shiftDateBack(options.creationDate, year - parameterYear) };
+  };
+  const tnsOptionsFor = (regimeOptions: RegimeOptions) => ({
+    fiscalYear: regimeOptions.fiscalYear,
+    creationDate: regimeOptions.creationDate,
+    acre: regimeOptions.acre,
+    pensionFund: regimeOptions.pensionFund,
+    pensionClasses: regimeOptions.pensionClasses,
+  });
+  const scaledLines = (index: number) => revenueLines.map((line) => ({
+    ...line,
+    annualRevenue: Math.max(0, line.annualRevenue) * Math.pow(1 + assumptions.revenueGrowth, index),
+  }));
+  const scaledExpenses = (index: number) => Math.max(0, annualExpenses) * Math.pow(1 + assumptions.expenseGrowth, index);
+
+  // Revenu professionnel of the year before the projection, when the activity already existed
+  let previousProfessionalIncome: number | null = null;
+  if (!furnishedRental && (creationYear === null || creationYear < startYear)) {
+    previousProfessionalIncome = calculateReelRegimeTax(
+      getTotalRevenue(scaledLines(-1)), scaledExpenses(-1), activityType, optionsFor(startYear - 1)
+    ).professionalIncome;
+  }
+  let previousReelBalance = 0; // Contributions due - provisional contributions paid, in N-1
+  let previousRevenue = inputs.previousYearRevenue;
+  let amortizationCarriedForward = (inputs.furnishedRental ?? NO_FURNISHED_RENTAL_ASSETS).amortizationCarriedForward;
+  let deficitsCarriedForward = options.deficitsCarriedForward ?? [];
+  let microForcedReel = false;
+  const cumulative: Record<ProjectionRegime, number | null> = { MICRO: 0, MICRO_LIBERATOIRE: 0, REEL: 0, SASU: 0, EURL: 0 };
+
+  const years: ProjectionYear[] = [];
+  for (let index = 0; index < yearCount; index++) {
+    const year = startYear + index;
+    const regimeOptions = optionsFor(year);
+    const lines = scaledLines(index);
+    const revenue = getTotalRevenue(lines);
+    const expenses = scaledExpenses(index);
+
+    const build = (regime: ProjectionRegime, values: Omit<ProjectionRegimeYear, "cumulativeNetIncome">): ProjectionRegimeYear => {
+      const total = cumulative[regime];
+      cumulative[regime] = total === null ? null : total + values.netIncome;
+      return {
+        socialContributions: round(values.socialContributions),
+        socialContributionsPaid: round(values.socialContributionsPaid),
+        regularization: round(values.regularization),
+        taxAmount: round(values.taxAmount),
+        netIncome: round(values.netIncome),
+        cumulativeNetIncome: round(cumulative[regime] ?? 0),
+        acreExemption: round(values.acreExemption),
+        deficitTaxSaving: round(values.deficitTaxSaving),
+        forcedReel: values.forcedReel,
+      };
+    };
+
+    // Réel, with the provisional contributions and the regularization of N-1
+    let reelValues: Omit<ProjectionRegimeYear, "cumulativeNetIncome">;
+    if (furnishedRental) {
+      const result = calculateFurnishedRentalReelTax(
+        revenue, expenses, activityType, { ...(inputs.furnishedRental ?? NO_FURNISHED_RENTAL_ASSETS), amortizationCarriedForward }, regimeOptions
+      );
+      amortizationCarriedForward = result.amortizationCarriedForward;
+      reelValues = {
+        socialContributions: result.totalSocialContributions,
+        socialContributionsPaid: result.totalSocialContributions,
+        regularization: 0,
+        taxAmount: result.taxAmount,
+        netIncome: result.netIncomeAfterAll,
+        acreExemption: 0,
+        deficitTaxSaving: 0,
+        forcedReel: false,
+      };
+    } else {
+      // Deficit years follow the same shift as the creation date when the parameters of another year apply
+      const yearShift = year - (regimeOptions.fiscalYear ?? LATEST_FISCAL_YEAR);
+      const result = calculateReelRegimeTax(revenue, expenses, activityType, {
+        ...regimeOptions,
+        deficitsCarriedForward: deficitsCarriedForward.map((deficit) => ({ ...deficit, year: deficit.year - yearShift })),
+      });
+      deficitsCarriedForward = result.deficits.deficitsCarriedForward.map((deficit) => ({ ...deficit, year: deficit.year + yearShift }));
+      // Nothing is declared yet in the year of creation
+      const provisional = previousProfessionalIncome === null
+        ? calculateStartupProvisionalContributions(activityType, tnsOptionsFor(regimeOptions))
+        : calculateTnsContributionsOnIncome(Math.max(0, previousProfessionalIncome), activityType, tnsOptionsFor(regimeOptions)).totalContributions;
+      const paid = provisional + previousReelBalance;
+      reelValues = {
+        socialContributions: result.totalSocialContributions,
+        socialContributionsPaid: paid,
+        regularization: previousReelBalance,
+        taxAmount: result.taxAmount,
+        netIncome: result.profitBeforeContributions - paid - result.taxAmount,
+        acreExemption: result.acreExemption,
+        deficitTaxSaving: result.deficitTaxSaving,
+        forcedReel: false,
+      };
+      previousReelBalance = result.totalSocialContributions - provisional;
+      previousProfessionalIncome = result.professionalIncome;
+    }
+    const reel = build("REEL", reelValues);
+
+    // Micro, until the ceilings are exceeded
+    const eligibility = checkMicroEligibility(lines, {
+      fiscalYear: regimeOptions.fiscalYear,
+      previousYearRevenue: previousRevenue,
+      creationDate: regimeOptions.creationDate,
+    });
+    microForcedReel = microForcedReel || !eligibility.eligible;
+    let micro: ProjectionRegimeYear;
+    let microLiberatoire: ProjectionRegimeYear | null = null;
+    if (microForcedReel) {
+      micro = build("MICRO", { ...reelValues, forcedReel: true });
+      if (cumulative.MICRO_LIBERATOIRE !== null) {
+        microLiberatoire = build("MICRO_LIBERATOIRE", { ...reelValues, forcedReel: true });
+      }
+    } else {
+      const result = calculateMicroRegimeTax(lines, expenses, regimeOptions);
+      micro = build("MICRO", {
+        socialContributions: result.totalUrssafContributions + result.rentalSocialLevies,
+        socialContributionsPaid: result.totalUrssafContributions + result.rentalSocialLevies,
+        regularization: 0,
+        taxAmount: result.taxAmount,
+        netIncome: result.netIncomeAfterAll,
+        acreExemption: result.acreReduction,
+        deficitTaxSaving: 0,
+        forcedReel: false,
+      });
+      const liberatoire = calculateMicroLiberatoireRegimeTax(lines, expenses, regimeOptions);
+      if (liberatoire.eligible && cumulative.MICRO_LIBERATOIRE !== null) {
+        microLiberatoire = build("MICRO_LIBERATOIRE", {
+          socialContributions: liberatoire.totalUrssafContributions + liberatoire.rentalSocialLevies,
+          socialContributionsPaid: liberatoire.totalUrssafContributions + liberatoire.rentalSocialLevies,
+          regularization: 0,
+          taxAmount: liberatoire.taxAmount,
+          netIncome: liberatoire.netIncomeAfterAll,
+          acreExemption: liberatoire.acreReduction,
+          deficitTaxSaving: 0,
+          forcedReel: false,
+        });
+      } else {
+        cumulative.MICRO_LIBERATOIRE = null;
+      }
+    }
+
+    const sasuResult = calculateSasuRegimeTax(revenue, expenses, inputs.sasu ?? DEFAULT_SASU_REMUNERATION, regimeOptions);
+    const sasu = build("SASU", {
+      socialContributions: sasuResult.totalSocialContributions,
+      socialContributionsPaid: sasuResult.totalSocialContributions,
+      regularization: 0,
+      taxAmount: sasuResult.taxAmount + sasuResult.dividendIncomeTax + sasuResult.corporateTax.amount,
+      netIncome: sasuResult.netIncomeAfterAll,
+      acreExemption: sasuResult.acreExemption,
+      deficitTaxSaving: 0,
+      forcedReel: false,
+    });
+    const eurlResult = calculateEurlRegimeTax(revenue, expenses, activityType, inputs.eurl ?? DEFAULT_EURL_REMUNERATION, regimeOptions);
+    const eurl = build("EURL", {
+      socialContributions: eurlResult.totalSocialContributions,
+      socialContributionsPaid: eurlResult.totalSocialContributions,
+      regularization: 0,
+      taxAmount: eurlResult.taxAmount + eurlResult.dividendIncomeTax + eurlResult.corporateTax.amount,
+      netIncome: eurlResult.netIncomeAfterAll,
+      acreExemption: eurlResult.acreExemption,
+      deficitTaxSaving: 0,
+      forcedReel: false,
+    });
+
+    years.push({
+      year,
+      parameterYear: regimeOptions.fiscalYear ?? LATEST_FISCAL_YEAR,
+      revenue: round(revenue),
+      expenses: round(expenses),
+      regimes: { MICRO: micro, MICRO_LIBERATOIRE: microLiberatoire, REEL: reel, SASU: sasu, EURL: eurl },
+    });
+    previousRevenue = revenue;
+  }
+
+  const cumulativeNetIncome = Object.fromEntries(
+    PROJECTION_REGIMES.map((regime) => [regime, cumulative[regime] === null ? null : round(cumulative[regime] ?? 0)])
+  ) as Record<ProjectionRegime, number | null>;
+  const bestRegime = PROJECTION_REGIMES.reduce((best, regime) =>
+    (cumulativeNetIncome[regime] ?? -Infinity) > (cumulativeNetIncome[best] ?? -Infinity) ? regime : best
+  );
+
+  return {
+    assumptions: { ...assumptions, years: yearCount },
+    startYear,
+    years,
+    cumulativeNetIncome,
+    bestRegime,
+    pendingRegularization: round(previousReelBalance),
+    deficitsCarriedForward,
+  };
+}
@@ -0,0 +1,199 @@
+// src/lib/remuneration-optimizer.ts
+
+import type { DividendTaxOption } from '@/lib/company-tax';
+import { calculateEurlRegimeTax, type EurlRemuneration } from '@/lib/eurl';
+import { calculateSasuRegimeTax } from '@/lib/sasu';
+import type { ActivityType, RegimeOptions } from '@/lib/tax-calculator';
+
+export type CompanyRegime = "SASU" | "EURL";
+
+export interface RemunerationConstraint {
+  minRetirementQuarters: number; // 0 for no constraint, up to 4
+}
+
+export const NO_REMUNERATION_CONSTRAINT: RemunerationConstraint = { minRetirementQuarters: 0 };
+
+/**
+ * One remuneration of the dirigeant, the rest of the profit after IS being distributed.
+ */
+export interface RemunerationSplitPoint {
+  remuneration: number;          // Gross salary of the président, or remuneration of the gérant
+  remunerationShare: number;     // Share of the profit before pay spent on the remuneration and its contributions
+  netIncomePfu: number;          // Net income of the foyer with the dividends at the PFU
+  netIncomeBareme: number;       // Net income of the foyer with the dividends at the barème
+  dividendTaxation: DividendTaxOption; // Better of the two options
+  netIncome: number;
+  retirementQuartersValidated: number;
+  meetsConstraint: boolean;
+}
+
+export interface RemunerationOptimizationResult {
+  regime: CompanyRegime;
+  profitBeforeRemuneration: number;
+  maxRemuneration: number;       // Remuneration whose cost uses up the whole profit
+  constraint: RemunerationConstraint;
+  curve: RemunerationSplitPoint[]; // Sorted by remuneration
+  optimum: RemunerationSplitPoint | null; // Null when no remuneration meets the constraint
+}
+
+interface RemunerationEvaluation {
+  cost: number;                  // Remuneration + contributions borne by the company
+  netIncome: number;
+  retirementQuartersValidated: number;
+}
+
+type RemunerationEvaluator = (remuneration: number, dividendTaxation: DividendTaxOption) => RemunerationEvaluation;
+
+const CURVE_STEPS = 40;
+const REFINEMENT_STEPS = 20;
+const BISECTION_ITERATIONS = 40;
+
+/**
+ * Finds the smallest amount satisfying a monotonic predicate between low and high, by bisection.
+ */
+function findThreshold(low: number, high: number, predicate: (value: number) => boolean): number {
+  for (let i = 0; i < BISECTION_ITERATIONS && high - low > 0.5; i++) {
+    const mid = (low + high) / 2;
+    if (predicate(mid)) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return high;
+}
+
+function evaluatePoint(
+  evaluate: RemunerationEvaluator,
+  remuneration: number,
+  profitBeforeRemuneration: number,
+  constraint: RemunerationConstraint
+): RemunerationSplitPoint {
+  const pfu = evaluate(remuneration, "PFU");
+  const bareme = evaluate(remuneration, "BAREME");
+  const dividendTaxation: DividendTaxOption = bareme.netIncome > pfu.netIncome ? "BAREME" : "PFU";
+  return {
+    remuneration: parseFloat(remuneration.toFixed(2)),
+    remunerationShare: profitBeforeRemuneration > 0 ? parseFloat(Math.min(1, pfu.cost / profitBeforeRemuneration).toFixed(4)) : 0,
+    netIncomePfu: pfu.netIncome,
+    netIncomeBareme: bareme.netIncome,
+    dividendTaxation,
+    netIncome: Math.max(pfu.netIncome, bareme.netIncome),
+    retirementQuartersValidated: pfu.retirementQuartersValidated,
+    meetsConstraint: pfu.retirementQuartersValidated >= constraint.minRetirementQuarters,
+  };
+}
+
+function pickOptimum(points: RemunerationSplitPoint[]): RemunerationSplitPoint | null {
+  return points
+    .filter((point) => point.meetsConstraint)
+    .reduce<RemunerationSplitPoint | null>((best, point) => (best === null || point.netIncome > best.netIncome ? point : best), null);
+}
+
+/**
+ * Sweeps the remuneration of the dirigeant from nothing to the whole profit, the rest being distributed as
+ * dividends, and keeps the point giving the highest net income under the constraint.
+ * The sweep is refined around the best point of the curve and includes the smallest remuneration meeting the constraint.
+ */
+function optimizeRemuneration(
+  regime: CompanyRegime,
+  profitBeforeRemuneration: number,
+  evaluate: RemunerationEvaluator,
+  constraint: RemunerationConstraint
+): RemunerationOptimizationResult {
+  const profit = Math.max(0, profitBeforeRemuneration);
+  const maxRemuneration = evaluate(profit, "PFU").cost <= profit
+    ? profit
+    : evaluate(0, "PFU").cost >= profit
+      ? 0
+      : findThreshold(0, profit, (remuneration) => evaluate(remuneration, "PFU").cost > profit) - 0.5;
+
+  const curve: RemunerationSplitPoint[] = [];
+  for (let step = 0; step <= CURVE_STEPS; step++) {
+    curve.push(evaluatePoint(evaluate, (maxRemuneration * step) / CURVE_STEPS, profit, constraint));
+  }
+
+  const candidates = [...curve];
+  const gridOptimum = pickOptimum(curve);
+  if (gridOptimum && maxRemuneration > 0) {
+    const stepWidth = maxRemuneration / CURVE_STEPS;
+    const low = Math.max(0, gridOptimum.remuneration - stepWidth);
+    const high = Math.min(maxRemuneration, gridOptimum.remuneration + stepWidth);
+    for (let step = 1; step < REFINEMENT_STEPS; step++) {
+      candidates.push(evaluatePoint(evaluate, low + ((high - low) * step) / REFINEMENT_STEPS, profit, constraint));
+    }
+  }
+
+  // The quarters are validated from a threshold the grid may step over
+  if (constraint.minRetirementQuarters > 0 && evaluate(maxRemuneration, "PFU").retirementQuartersValidated >= constraint.minRetirementQuarters) {
+    const minimumRemuneration = findThreshold(
+      0,
+      maxRemuneration,
+      (remuneration) => evaluate(remuneration, "PFU").retirementQuartersValidated >= constraint.minRetirementQuarters
+    );
+    candidates.push(evaluatePoint(evaluate, minimumRemuneration, profit, constraint));
+  }
+
+  return {
+    regime,
+    profitBeforeRemuneration: parseFloat(profit.toFixed(2)),
+    maxRemuneration: parseFloat(maxRemuneration.toFixed(2)),
+    constraint,
+    curve,
+    optimum: pickOptimum(candidates),
+  };
+}
+
+/**
+ * Searches the gross salary of the président of a SASU, and the taxation of the dividends,
+ * that maximize the net income of the foyer when the rest of the profit is distributed.
+ * @param annualRevenue The annual revenue of the company.
+ * @param annualExpenses The annual expenses of the company, remuneration excluded.
+ * @param options The household composition, the fiscal year, the other income of the foyer and the ACRE.
+ * @param constraint The minimum number of retirement quarters to validate.
+ * @returns The curve of the net income against the salary and the optimal point.
+ */
+export function optimizeSasuRemuneration(
+  annualRevenue: number,
+  annualExpenses: number,
+  options: RegimeOptions = {},
+  constraint: RemunerationConstraint = NO_REMUNERATION_CONSTRAINT
+): RemunerationOptimizationResult {
+  const profitBeforeRemuneration = Math.max(0, annualRevenue) - Math.max(0, annualExpenses);
+  return optimizeRemuneration("SASU", profitBeforeRemuneration, (grossSalary, dividendTaxation) => {
+    const result = calculateSasuRegimeTax(annualRevenue, annualExpenses, { grossSalary, dividendShare: 1, dividendTaxation }, options);
+    return { cost: result.employerCost, netIncome: result.netIncomeAfterAll, retirementQuartersValidated: result.retirementQuartersValidated };
+  }, constraint);
+}
+
+/**
+ * Searches the remuneration of the gérant of an EURL or EI à l'IS, and the taxation of the dividends,
+ * that maximize the net income of the foyer when the rest of the profit is distributed.
+ * @param annualRevenue The annual revenue of the company.
+ * @param annualExpenses The annual expenses of the company, remuneration excluded.
+ * @param activityType The activity, which sets the SSI or caisse de retraite rates.
+ * @param equity The legal form, the share capital and the comptes courants, which set the 10% dividend threshold.
+ * @param options The household composition, the fiscal year, the other income of the foyer, the ACRE and the caisse de retraite.
+ * @param constraint The minimum number of retirement quarters to validate.
+ * @returns The curve of the net income against the remuneration and the optimal point.
+ */
+export function optimizeEurlRemuneration(
+  annualRevenue: number,
+  annualExpenses: number,
+  activityType: ActivityType,
+  equity: Pick<EurlRemuneration, "legalForm" | "shareCapital" | "currentAccounts">,
+  options: RegimeOptions = {},
+  constraint: RemunerationConstraint = NO_REMUNERATION_CONSTRAINT
+): RemunerationOptimizationResult {
+  const profitBeforeRemuneration = Math.max(0, annualRevenue) - Math.max(0, annualExpenses);
+  return optimizeRemuneration("EURL", profitBeforeRemuneration, (managerRemuneration, dividendTaxation) => {
+    const result = calculateEurlRegimeTax(
+      annualRevenue, annualExpenses, activityType, { ...equity, managerRemuneration, dividendShare: 1, dividendTaxation }, options
+    );
+    return {
+      cost: result.managerRemuneration + result.remunerationContributions,
+      netIncome: result.netIncomeAfterAll,
+      retirementQuartersValidated: result.retirementQuartersValidated,
+    };
+  }, constraint);
+}
@@ -0,0 +1,262 @@
+// src/lib/retirement.ts
+
+import { DEFAULT_FISCAL_YEAR, getFiscalParameters, type FiscalYear } from '@/lib/fiscal-parameters';
+import { CNAVPL_BASE_TRANCHES, getPensionFund, PENSION_FUNDS, type LiberalPensionFund } from '@/lib/liberal-pension-funds';
+import type { SocialContributionLine } from '@/lib/social-contributions';
+import type { ActivityType, MicroRevenueLineResult } from '@/lib/tax-calculator';
+
+// SSI: Sécurité sociale des indépendants; CNAVPL: caisse of a profession libérale réglementée;
+// REGIME_GENERAL: assimilé salarié; NONE: no contribution opening rights (location meublée non professionnelle)
+export type RetirementScheme = "SSI" | "CNAVPL" | "REGIME_GENERAL" | "NONE";
+
+/**
+ * Retirement rights acquired by the contributions of one year.
+ * The pensions acquired are annual amounts at the values of the year, for a departure at the taux plein.
+ */
+export interface RetirementRights {
+  scheme: RetirementScheme;
+  complementaryLabel: string | null;      // Retraite complémentaire: RCI, Agirc-Arrco or the caisse, null without rights
+  quartersValidated: number;              // Trimestres de retraite de base, 0 to 4
+  quarterIncomeThreshold: number;         // Income (revenu, assiette or salary) validating one quarter
+  quarterRevenueThreshold: number | null; // In micro, chiffre d'affaires of the main activity validating one quarter
+  baseIncomeCredited: number;             // Revenu porté au compte of the retraite de base, capped at the PASS
+  basePoints: number | null;              // Points of the retraite de base of the CNAVPL, null elsewhere
+  basePensionAcquired: number;            // Share of the base pension earned by the year
+  complementaryContributions: number;     // Retraite complémentaire, before the ACRE exemption
+  complementaryPoints: number | null;     // null when the points of the caisse are not modelled
+  complementaryPensionAcquired: number | null;
+}
+
+/**
+ * Rights of each regime for the year. The micro with versement libératoire pays the same contributions as the micro.
+ */
+export interface RetirementComparison {
+  micro: RetirementRights;
+  reel: RetirementRights;
+  sasu: RetirementRights;
+  eurl: RetirementRights;
+}
+
+const NO_RETIREMENT_RIGHTS: Omit<RetirementRights, "quarterIncomeThreshold"> = {
+  scheme: "NONE",
+  complementaryLabel: null,
+  quartersValidated: 0,
+  quarterRevenueThreshold: null,
+  baseIncomeCredited: 0,
+  basePoints: null,
+  basePensionAcquired: 0,
+  complementaryContributions: 0,
+  complementaryPoints: null,
+  complementaryPensionAcquired: null,
+};
+
+function getQuarterIncomeThreshold(fiscalYear: FiscalYear): number {
+  const { smicHourly, ssi } = getFiscalParameters(fiscalYear).social;
+  return ssi.retirementQuarterSmicHours * smicHourly;
+}
+
+function countQuarters(income: number, fiscalYear: FiscalYear): number {
+  return Math.min(4, Math.floor(Math.max(0, income) / getQuarterIncomeThreshold(fiscalYear)));
+}
+
+/**
+ * Base pension of the régime général or of the SSI earned by the year: the year counts for its quarters in the
+ * durée d'assurance, its income standing for the salaire annuel moyen.
+ */
+function getAlignedBasePension(baseIncomeCredited: number, quartersValidated: number, fiscalYear: FiscalYear): number {
+  const { retirement } = getFiscalParameters(fiscalYear).social;
+  return baseIncomeCredited * retirement.baseFullRate * quartersValidated / retirement.fullRateQuarters;
+}
+
+/**
+ * Points of the retraite de base of the CNAVPL: each tranche earns its points in proportion to its assiette.
+ */
+function getCnavplBasePoints(firstTrancheBase: number, secondTrancheBase: number, fiscalYear: FiscalYear): number {
+  const { pass, retirement } = getFiscalParameters(fiscalYear).social;
+  const { cnavpl } = retirement;
+  const [firstTranche, secondTranche] = CNAVPL_BASE_TRANCHES;
+  return cnavpl.firstTranchePoints * Math.min(1, firstTrancheBase / (pass * firstTranche.toPassRatio))
+    + cnavpl.secondTranchePoints * Math.min(1, secondTrancheBase / (pass * secondTranche.toPassRatio));
+}
+
+function roundRights(rights: RetirementRights): RetirementRights {
+  const round = (value: number | null) => (value === null ? null : parseFloat(value.toFixed(2)));
+  return {
+    ...rights,
+    quarterIncomeThreshold: parseFloat(rights.quarterIncomeThreshold.toFixed(2)),
+    quarterRevenueThreshold: round(rights.quarterRevenueThreshold),
+    baseIncomeCredited: parseFloat(rights.baseIncomeCredited.toFixed(2)),
+    basePoints: round(rights.basePoints),
+    basePensionAcquired: parseFloat(rights.basePensionAcquired.toFixed(2)),
+    complementaryContributions: parseFloat(rights.complementaryContributions.toFixed(2)),
+    complementaryPoints: round(rights.complementaryPoints),
+    complementaryPensionAcquired: round(rights.complementaryPensionAcquired),
+  };
+}
+
+/**
+ * Returns the chiffre d'affaires validating one quarter of retraite de base in micro: the revenue after the
+ * abattement of the activity must reach 150 hours of SMIC.
+ * @param activityType The type of activity.
+ * @param fiscalYear The year of the parameters to apply.
+ * @returns The chiffre d'affaires per quarter, or null for a location meublée non professionnelle, which opens no rights.
+ */
+export function getMicroQuarterRevenueThreshold(activityType: ActivityType, fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR): number | null {
+  const rates = getFiscalParameters(fiscalYear).micro.activities[activityType];
+  if (rates.nonProfessionalRental) return null;
+  return parseFloat((getQuarterIncomeThreshold(fiscalYear) / (1 - rates.allowanceRate)).toFixed(2));
+}
+
+/**
+ * Estimates the retirement rights of a micro-entrepreneur.
+ * The chiffre d'affaires of each activity is converted into revenue with its abattement; the quarters, the revenu
+ * porté au compte and the points follow from that revenue, as for a travailleur indépendant at the réel.
+ * @param lines The revenue lines of the micro result.
+ * @param fiscalYear The year of the parameters to apply.
+ * @param pensionFund The caisse selected for a profession réglementée outside the CIPAV.
+ * @returns The quarters, the base income credited, the points and the pensions acquired.
+ */
+export function calculateMicroRetirementRights(
+  lines: MicroRevenueLineResult[],
+  fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR,
+  pensionFund?: LiberalPensionFund
+): RetirementRights {
+  const { pass, ssi, retirement } = getFiscalParameters(fiscalYear).social;
+  const quarterIncomeThreshold = getQuarterIncomeThreshold(fiscalYear);
+  const contributingLines = lines.filter((line) => line.rentalSocialLevyRate === 0);
+  if (contributingLines.length === 0) return { ...NO_RETIREMENT_RIGHTS, quarterIncomeThreshold };
+
+  const mainLine = contributingLines.reduce((main, line) => (line.revenue > main.revenue ? line : main));
+  const income = contributingLines.reduce((sum, line) => sum + line.revenue * (1 - line.allowanceRate), 0);
+  const quartersValidated = countQuarters(income, fiscalYear);
+  const baseIncomeCredited = Math.min(income, pass);
+  const fund = getPensionFund(mainLine.activityType, pensionFund);
+  const quarterRevenueThreshold = getMicroQuarterRevenueThreshold(mainLine.activityType, fiscalYear);
+
+  if (fund) {
+    const basePoints = getCnavplBasePoints(baseIncomeCredited, Math.min(income, pass * CNAVPL_BASE_TRANCHES[1].toPassRatio), fiscalYear);
+    return roundRights({
+      scheme: "CNAVPL",
+      complementaryLabel: PENSION_FUNDS[fund].label,
+      quartersValidated,
+      quarterIncomeThreshold,
+      quarterRevenueThreshold,
+      baseIncomeCredited,
+      basePoints,
+      basePensionAcquired: basePoints * retirement.cnavpl.pointServiceValue,
+      complementaryContributions: 0,
+      complementaryPoints: null,
+      complementaryPensionAcquired: null,
+    });
+  }
+
+  const rci = ssi.retraiteComplementaire;
+  const firstBase = Math.min(income, pass * rci.firstCeilingPassRatio);
+  const secondBase = Math.min(income, pass * rci.secondCeilingPassRatio) - firstBase;
+  const complementaryContributions = firstBase * rci.rateUpToFirstCeiling + secondBase * rci.rateUpToSecondCeiling;
+  const complementaryPoints = complementaryContributions / retirement.rci.pointPurchasePrice;
+  return roundRights({
+    scheme: "SSI",
+    complementaryLabel: "RCI",
+    quartersValidated,
+    quarterIncomeThreshold,
+    quarterRevenueThreshold,
+    baseIncomeCredited,
+    basePoints: null,
+    basePensionAcquired: getAlignedBasePension(baseIncomeCredited, quartersValidated, fiscalYear),
+    complementaryContributions,
+    complementaryPoints,
+    complementaryPensionAcquired: complementaryPoints * retirement.rci.pointServiceValue,
+  });
+}
+
+/**
+ * Estimates the retirement rights of a travailleur non salarié from its contribution lines (réel, gérant of an EURL).
+ * The assiette of the retraite de base, assiette minimale included, is the revenu porté au compte; the points of
+ * the RCI are bought with the contribution before the ACRE exemption, which does not reduce the rights.
+ * @param lines The social contribution lines of the year.
+ * @param pensionFund The caisse de retraite of a profession libérale réglementée, undefined for the SSI.
+ * @param fiscalYear The year of the parameters to apply.
+ * @returns The quarters, the base income credited, the points and the pensions acquired.
+ */
+export function calculateTnsRetirementRights(
+  lines: SocialContributionLine[],
+  pensionFund: LiberalPensionFund | undefined,
+  fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR
+): RetirementRights {
+  const { retirement } = getFiscalParameters(fiscalYear).social;
+  const quarterIncomeThreshold = getQuarterIncomeThreshold(fiscalYear);
+  const findLine = (id: SocialContributionLine["id"]) => lines.find((line) => line.id === id);
+  const baseLine = findLine("RETRAITE_BASE_PLAFONNEE");
+  if (!baseLine) return { ...NO_RETIREMENT_RIGHTS, quarterIncomeThreshold };
+
+  const complementaryLine = findLine("RETRAITE_COMPLEMENTAIRE");
+  const complementaryContributions = complementaryLine ? complementaryLine.amount + complementaryLine.acreExemption : 0;
+  const baseIncomeCredited = baseLine.base;
+  const quartersValidated = countQuarters(baseIncomeCredited, fiscalYear);
+
+  if (pensionFund) {
+    const basePoints = getCnavplBasePoints(baseIncomeCredited, findLine("RETRAITE_BASE_DEPLAFONNEE")?.base ?? 0, fiscalYear);
+    return roundRights({
+      scheme: "CNAVPL",
+      complementaryLabel: PENSION_FUNDS[pensionFund].label,
+      quartersValidated,
+      quarterIncomeThreshold,
+      quarterRevenueThreshold: null,
+      baseIncomeCredited,
+      basePoints,
+      basePensionAcquired: basePoints * retirement.cnavpl.pointServiceValue,
+      complementaryContributions,
+      complementaryPoints: null,
+      complementaryPensionAcquired: null,
+    });
+  }
+
+  const complementaryPoints = complementaryContributions / retirement.rci.pointPurchasePrice;
+  return roundRights({
+    scheme: "SSI",
+    complementaryLabel: "RCI",
+    quartersValidated,
+    quarterIncomeThreshold,
+    quarterRevenueThreshold: null,
+    baseIncomeCredited,
+    basePoints: null,
+    basePensionAcquired: getAlignedBasePension(baseIncomeCredited, quartersValidated, fiscalYear),
+    complementaryContributions,
+    complementaryPoints,
+    complementaryPensionAcquired: complementaryPoints * retirement.rci.pointServiceValue,
+  });
+}
+
+/**
+ * Estimates the retirement rights of an assimilé salarié (président de SASU).
+ * The gross salary is credited to the régime général up to the PASS; the Agirc-Arrco points are earned at the
+ * taux contractuels on each tranche, divided by the salaire de référence.
+ * @param grossSalary The annual gross salary.
+ * @param fiscalYear The year of the parameters to apply.
+ * @returns The quarters, the base income credited, the points and the pensions acquired.
+ */
+export function calculateSalariedRetirementRights(grossSalary: number, fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR): RetirementRights {
+  const { pass, assimileSalarie, retirement } = getFiscalParameters(fiscalYear).social;
+  const { agircArrco } = retirement;
+  const gross = Math.max(0, grossSalary);
+  const firstTranche = Math.min(gross, pass);
+  const secondTranche = Math.max(0, Math.min(gross, pass * assimileSalarie.retraiteComplementaire.secondTrancheEndPassRatio) - pass);
+  const rates = assimileSalarie.retraiteComplementaire;
+  const quartersValidated = countQuarters(gross, fiscalYear);
+  const complementaryPoints = (firstTranche * agircArrco.acquisitionRateT1 + secondTranche * agircArrco.acquisitionRateT2) / agircArrco.referenceSalary;
+
+  return roundRights({
+    scheme: "REGIME_GENERAL",
+    complementaryLabel: "Agirc-Arrco",
+    quartersValidated,
+    quarterIncomeThreshold: getQuarterIncomeThreshold(fiscalYear),
+    quarterRevenueThreshold: null,
+    baseIncomeCredited: firstTranche,
+    basePoints: null,
+    basePensionAcquired: getAlignedBasePension(firstTranche, quartersValidated, fiscalYear),
+    complementaryContributions: firstTranche * (rates.employeeRateT1 + rates.employerRateT1) + secondTranche * (rates.employeeRateT2 + rates.employerRateT2),
+    complementaryPoints,
+    complementaryPensionAcquired: complementaryPoints * agircArrco.pointServiceValue,
+  });
+}
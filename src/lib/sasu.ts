@@ -0,0 +1,148 @@
+// src/lib/sasu.ts
+
+import { calculateAssimileSalarieContributions, type PayrollContributionLine } from '@/lib/assimile-salarie';
+import {
+  calculateCorporateTax,
+  calculateDividendFlatTax,
+  calculateDividendProgressiveTaxableIncome,
+  type CorporateTaxResult,
+  type DividendTaxOption,
+} from '@/lib/company-tax';
+import { DEFAULT_FISCAL_YEAR, type FiscalYear } from '@/lib/fiscal-parameters';
+import {
+  calculateActivityIncomeTax,
+  calculateOtherTaxableIncome,
+  NO_OTHER_INCOME,
+  type IncomeTaxDetails,
+  type RegimeOptions,
+} from '@/lib/tax-calculator';
+
+/**
+ * How the profit of the SASU is paid out to its président.
+ */
+export interface SasuRemuneration {
+  grossSalary: number;   // Rémunération brute annuelle du président
+  dividendShare: number; // Share of the profit after IS distributed as dividends, e.g. 1 for all of it
+  dividendTaxation?: DividendTaxOption; // Defaults to the PFU
+}
+
+export const DEFAULT_SASU_REMUNERATION: SasuRemuneration = { grossSalary: 0, dividendShare: 1, dividendTaxation: "PFU" };
+
+export interface SasuRegimeResult {
+  fiscalYear: FiscalYear;
+  fiscalParts: number;
+  profitBeforeRemuneration: number;  // Revenue - expenses
+  grossSalary: number;
+  payrollContributions: PayrollContributionLine[];
+  employeeContributions: number;
+  employerContributions: number;
+  employerCost: number;              // Gross salary + employer contributions
+  netSalary: number;
+  companyProfit: number;             // Profit after the remuneration, before IS; negative for a loss
+  corporateTax: CorporateTaxResult;
+  profitAfterTax: number;
+  dividends: number;
+  retainedEarnings: number;          // Profit after IS kept in the company
+  dividendTaxation: DividendTaxOption;
+  dividendTaxableIncome: number;     // Dividends added to the revenu imposable at the barème, 0 with the PFU
+  dividendIncomeTax: number;         // PFU, or IR attributable to the dividends at the barème
+  dividendSocialLevies: number;      // Prélèvements sociaux
+  salaryTaxableIncome: number;       // Net taxable salary after the 10% deduction
+  taxAmount: number;                 // IR attributable to the salary
+  incomeTaxDetails: IncomeTaxDetails; // Liquidation of the foyer, dividends included at the barème
+  otherTaxableIncome: number;
+  householdTaxWithoutActivity: number;
+  totalSocialContributions: number;  // Payroll contributions + prélèvements sociaux on the dividends
+  acreExemption: number;
+  retirementQuartersValidated: number;
+  netIncomeAfterAll: number;         // Net salary + dividends, after IR and PFU
+}
+
+/**
+ * Calculates the income of the président of a SASU.
+ * The company pays the salary and its employer contributions, then the impôt sur les sociétés on the remaining profit.
+ * The distributed profit is taxed as dividends at the prélèvement forfaitaire unique, without social contributions,
+ * or at the barème after the 40% abattement when the foyer opts for it.
+ * The salary is taxed at the barème with the other income of the foyer, after the 10% deduction.
+ * @param annualRevenue The annual revenue of the company.
+ * @param annualExpenses The annual expenses of the company, remuneration excluded.
+ * @param remuneration The gross salary of the président, the share of the profit distributed and the taxation of the dividends.
+ * @param options The household composition, the fiscal year, the réductions d'impôt, the other income of the foyer and the ACRE.
+ * @returns The salary, the IS, the dividends and the net income of the président.
+ */
+export function calculateSasuRegimeTax(
+  annualRevenue: number,
+  annualExpenses: number,
+  remuneration: SasuRemuneration,
+  options: RegimeOptions = {}
+): SasuRegimeResult {
+  const fiscalYear = options.fiscalYear ?? DEFAULT_FISCAL_YEAR;
+  const profitBeforeRemuneration = Math.max(0, annualRevenue) - Math.max(0, annualExpenses);
+
+  const payroll = calculateAssimileSalarieContributions(remuneration.grossSalary, {
+    fiscalYear,
+    creationDate: options.creationDate,
+    acre: options.acre,
+  });
+
+  const companyProfit = profitBeforeRemuneration - payroll.employerCost;
+  const corporateTax = calculateCorporateTax(companyProfit, fiscalYear);
+  const profitAfterTax = companyProfit - corporateTax.amount;
+  const dividendShare = Math.min(1, Math.max(0, remuneration.dividendShare));
+  const dividends = Math.max(0, profitAfterTax) * dividendShare;
+  const flatTax = calculateDividendFlatTax(dividends, fiscalYear);
+
+  // The salary joins the other salaries of the taxpayer, so that the 10% deduction keeps its ceiling
+  const otherIncome = options.otherIncome ?? NO_OTHER_INCOME;
+  const otherTaxableIncome = calculateOtherTaxableIncome(otherIncome, fiscalYear);
+  const salaryTaxableIncome = calculateOtherTaxableIncome(
+    { ...otherIncome, taxpayerSalaries: otherIncome.taxpayerSalaries + payroll.netTaxableSalary },
+    fiscalYear
+  ) - otherTaxableIncome;
+  const salaryTax = calculateActivityIncomeTax(salaryTaxableIncome, options);
+  const { householdTaxWithoutActivity, taxAmount } = salaryTax;
+
+  // At the barème, the dividends bear the tax of the foyer above the one already due with the salary
+  const dividendTaxation = remuneration.dividendTaxation ?? "PFU";
+  const dividendTaxableIncome = dividendTaxation === "BAREME"
+    ? calculateDividendProgressiveTaxableIncome(dividends, dividends, fiscalYear)
+    : 0;
+  const { incomeTaxDetails } = dividendTaxation === "BAREME"
+    ? calculateActivityIncomeTax(salaryTaxableIncome + dividendTaxableIncome, options)
+    : salaryTax;
+  const dividendIncomeTax = dividendTaxation === "BAREME"
+    ? Math.max(0, incomeTaxDetails.totalTax - householdTaxWithoutActivity - taxAmount)
+    : flatTax.incomeTax;
+
+  const netIncomeAfterAll = payroll.netSalary - taxAmount + dividends - dividendIncomeTax - flatTax.socialLevies;
+
+  return {
+    fiscalYear,
+    fiscalParts: incomeTaxDetails.fiscalParts,
+    profitBeforeRemuneration: parseFloat(profitBeforeRemuneration.toFixed(2)),
+    grossSalary: payroll.grossSalary,
+    payrollContributions: payroll.lines,
+    employeeContributions: payroll.employeeContributions,
+    employerContributions: payroll.employerContributions,
+    employerCost: payroll.employerCost,
+    netSalary: payroll.netSalary,
+    companyProfit: parseFloat(companyProfit.toFixed(2)),
+    corporateTax,
+    profitAfterTax: parseFloat(profitAfterTax.toFixed(2)),
+    dividends: parseFloat(dividends.toFixed(2)),
+    retainedEarnings: parseFloat((profitAfterTax - dividends).toFixed(2)),
+    dividendTaxation,
+    dividendTaxableIncome,
+    dividendIncomeTax: parseFloat(dividendIncomeTax.toFixed(2)),
+    dividendSocialLevies: flatTax.socialLevies,
+    salaryTaxableIncome: parseFloat(salaryTaxableIncome.toFixed(2)),
+    taxAmount,
+    incomeTaxDetails,
+    otherTaxableIncome,
+    householdTaxWithoutActivity,
+    totalSocialContributions: parseFloat((payroll.totalContributions + flatTax.socialLevies).toFixed(2)),
+    acreExemption: payroll.acreExemption,
+    retirementQuartersValidated: payroll.retirementQuartersValidated,
+    netIncomeAfterAll: parseFloat(netIncomeAfterAll.toFixed(2)),
+  };
+}
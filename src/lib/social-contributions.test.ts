@@ -0,0 +1,27 @@
+// src/lib/social-contributions.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { calculateTnsContributions, calculateTnsContributionsOnIncome } from '@/lib/social-contributions';
+
+describe("calculateTnsContributions", () => {
+  // The revenu professionnel R solves R = profit - deductible contributions(R)
+  it.each([10000, 50000, 200000])("converges on the revenu professionnel for a profit of %i €", (profit) => {
+    const contributions = calculateTnsContributions(profit, "SERVICE_BIC", { fiscalYear: 2024 });
+
+    expect(contributions.professionalIncome + contributions.deductibleContributions).toBeCloseTo(profit, 1);
+  });
+
+  it("matches the contributions computed on the revenu professionnel found", () => {
+    const contributions = calculateTnsContributions(50000, "LIBERAL_BNC_CIPAV", { fiscalYear: 2024 });
+    const onIncome = calculateTnsContributionsOnIncome(contributions.professionalIncome, "LIBERAL_BNC_CIPAV", { fiscalYear: 2024 });
+
+    expect(contributions.totalContributions).toBeCloseTo(onIncome.totalContributions, 1);
+  });
+
+  it("increases a loss with the cotisations minimales", () => {
+    const contributions = calculateTnsContributions(-1000, "SERVICE_BIC", { fiscalYear: 2024 });
+
+    expect(contributions.professionalIncome).toBeLessThan(-1000);
+    expect(contributions.professionalIncome + contributions.deductibleContributions).toBeCloseTo(-1000, 1);
+  });
+});
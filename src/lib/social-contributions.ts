@@ -0,0 +1,359 @@
+// src/lib/social-contributions.ts
+
+import { getActivityShareOfYear, getReelAcreExemptionRate, getReelAcreShareOfIncome } from '@/lib/business-creation';
+import { DEFAULT_FISCAL_YEAR, getFiscalParameters, type FiscalYear, type RatePoint } from '@/lib/fiscal-parameters';
+import {
+  applyTranches,
+  calculateScheduleContribution,
+  CNAVPL_BASE_TRANCHES,
+  CNAVPL_MINIMUM_BASE_PASS_RATIO,
+  getPensionFund,
+  LIBERAL_INDEMNITES_JOURNALIERES,
+  PENSION_FUNDS,
+  type LiberalPensionFund,
+  type PensionFundClassChoices,
+} from '@/lib/liberal-pension-funds';
+import type { ActivityType } from '@/lib/tax-calculator';
+
+export type SocialContributionLineId =
+  | "MALADIE_MATERNITE"
+  | "INDEMNITES_JOURNALIERES"
+  | "RETRAITE_BASE_PLAFONNEE"
+  | "RETRAITE_BASE_DEPLAFONNEE"
+  | "RETRAITE_COMPLEMENTAIRE"
+  | "INVALIDITE_DECES"
+  | "ALLOCATIONS_FAMILIALES"
+  | "CSG_DEDUCTIBLE"
+  | "CSG_CRDS_NON_DEDUCTIBLE"
+  | "CFP";
+
+export interface SocialContributionLine {
+  id: SocialContributionLineId;
+  label: string;
+  base: number;         // Assiette of the line
+  rate: number;         // Effective rate on the base, before the ACRE exemption
+  acreExemption: number;
+  amount: number;       // Amount due, after the ACRE exemption
+  deductible: boolean;  // Deductible from the taxable income
+  minimumBaseApplied: boolean; // The assiette minimale replaced a lower income
+}
+
+export interface TnsContributionsResult {
+  professionalIncome: number; // Revenu professionnel: profit after the deductible contributions, negative for a deficit
+  csgCrdsBase: number;        // Revenu professionnel + cotisations sociales obligatoires
+  lines: SocialContributionLine[];
+  acreExemption: number;
+  totalContributions: number;
+  deductibleContributions: number;
+  nonDeductibleContributions: number; // CSG non déductible + CRDS, added back to the taxable income
+  pensionFund?: LiberalPensionFund;    // Caisse de retraite of a profession libérale réglementée, undefined for the SSI
+  pensionClasses: PensionFundClassChoices; // Classes applied by the caisse, for the schedules in classes
+  minimumContributionsApplied: boolean; // Cotisations minimales due because the income is below the assiettes minimales
+  retirementBase: number;               // Assiette of the retraite de base, minimum included
+  retirementQuartersValidated: number;  // Trimestres de retraite de base validated by the year's contributions
+}
+
+export interface TnsContributionsOptions {
+  fiscalYear?: FiscalYear;
+  creationDate?: string; // Date de création (YYYY-MM-DD)
+  acre?: boolean;
+  pensionFund?: LiberalPensionFund;         // Caisse selected for a profession réglementée outside the CIPAV
+  pensionClasses?: PensionFundClassChoices; // Classes chosen, where the caisse allows it
+}
+
+interface ComputedLines {
+  lines: SocialContributionLine[];
+  retirementBase: number;
+  pensionClasses: PensionFundClassChoices;
+}
+
+// Lines covered by the ACRE exemption
+const ACRE_EXEMPT_LINES: SocialContributionLineId[] = [
+  "MALADIE_MATERNITE",
+  "RETRAITE_BASE_PLAFONNEE",
+  "RETRAITE_BASE_DEPLAFONNEE",
+  "INVALIDITE_DECES",
+  "ALLOCATIONS_FAMILIALES",
+];
+
+const SOLVER_ITERATIONS = 60;
+
+/**
+ * Interpolates linearly the rate between the points of a progressive scale.
+ */
+function interpolateRate(passRatio: number, points: RatePoint[], rateAboveLastPoint: number): number {
+  const last = points[points.length - 1];
+  if (passRatio > last.passRatio) return rateAboveLastPoint;
+  for (let i = 1; i < points.length; i++) {
+    const lower = points[i - 1];
+    const upper = points[i];
+    if (passRatio <= upper.passRatio) {
+      return lower.rate + (upper.rate - lower.rate) * (passRatio - lower.passRatio) / (upper.passRatio - lower.passRatio);
+    }
+  }
+  return last.rate;
+}
+
+function buildLine(
+  id: SocialContributionLineId,
+  label: string,
+  base: number,
+  amountBeforeAcre: number,
+  acreFactor: number,
+  deductible = true,
+  minimumBaseApplied = false
+): SocialContributionLine {
+  const acreExemption = ACRE_EXEMPT_LINES.includes(id) ? amountBeforeAcre * acreFactor : 0;
+  return {
+    id,
+    label,
+    base,
+    rate: base > 0 ? amountBeforeAcre / base : 0,
+    acreExemption,
+    amount: amountBeforeAcre - acreExemption,
+    deductible,
+    minimumBaseApplied,
+  };
+}
+
+/**
+ * Raises a base to its assiette minimale.
+ */
+function withMinimumBase(base: number, minimumBase: number): { base: number; minimumBaseApplied: boolean } {
+  return base < minimumBase ? { base: minimumBase, minimumBaseApplied: true } : { base, minimumBaseApplied: false };
+}
+
+/**
+ * Retirement, invalidité-décès and indemnités journalières lines of the Sécurité sociale des indépendants.
+ */
+function computeSsiPensionLines(income: number, acreFactor: number, fiscalYear: FiscalYear): ComputedLines {
+  const { pass, ssi } = getFiscalParameters(fiscalYear).social;
+  const capped = (ceilingPassRatio: number) => Math.min(income, pass * ceilingPassRatio);
+  const rci = ssi.retraiteComplementaire;
+  const rciFirstBase = capped(rci.firstCeilingPassRatio);
+  const rciSecondBase = capped(rci.secondCeilingPassRatio) - rciFirstBase;
+  const ij = withMinimumBase(capped(ssi.indemnitesJournalieres.ceilingPassRatio), pass * ssi.indemnitesJournalieres.minimumBasePassRatio);
+  const retirement = withMinimumBase(capped(1), pass * ssi.retraiteBase.minimumBasePassRatio);
+  const invalidity = withMinimumBase(capped(ssi.invaliditeDeces.ceilingPassRatio), pass * ssi.invaliditeDeces.minimumBasePassRatio);
+
+  return {
+    lines: [
+      buildLine("INDEMNITES_JOURNALIERES", "Indemnités journalières", ij.base,
+        ij.base * ssi.indemnitesJournalieres.rate, acreFactor, true, ij.minimumBaseApplied),
+      buildLine("RETRAITE_BASE_PLAFONNEE", "Retraite de base (plafonnée)", retirement.base,
+        retirement.base * ssi.retraiteBase.cappedRate, acreFactor, true, retirement.minimumBaseApplied),
+      buildLine("RETRAITE_BASE_DEPLAFONNEE", "Retraite de base (déplafonnée)", income,
+        income * ssi.retraiteBase.uncappedRate, acreFactor),
+      buildLine("RETRAITE_COMPLEMENTAIRE", "Retraite complémentaire", capped(rci.secondCeilingPassRatio),
+        rciFirstBase * rci.rateUpToFirstCeiling + rciSecondBase * rci.rateUpToSecondCeiling, acreFactor),
+      buildLine("INVALIDITE_DECES", "Invalidité-décès", invalidity.base,
+        invalidity.base * ssi.invaliditeDeces.rate, acreFactor, true, invalidity.minimumBaseApplied),
+    ],
+    retirementBase: retirement.base,
+    pensionClasses: {},
+  };
+}
+
+/**
+ * Retirement and invalidité-décès lines of a caisse of the CNAVPL, with the indemnités journalières
+ * of the professions libérales.
+ */
+function computePensionFundLines(
+  income: number,
+  pensionFund: LiberalPensionFund,
+  classChoices: PensionFundClassChoices,
+  acreFactor: number,
+  fiscalYear: FiscalYear
+): ComputedLines {
+  const { pass } = getFiscalParameters(fiscalYear).social;
+  const fund = PENSION_FUNDS[pensionFund];
+  const [firstTranche, secondTranche] = CNAVPL_BASE_TRANCHES;
+  const ij = withMinimumBase(
+    Math.min(income, pass * LIBERAL_INDEMNITES_JOURNALIERES.ceilingPassRatio),
+    pass * LIBERAL_INDEMNITES_JOURNALIERES.minimumBasePassRatio
+  );
+  const retirement = withMinimumBase(Math.min(income, pass * firstTranche.toPassRatio), pass * CNAVPL_MINIMUM_BASE_PASS_RATIO);
+  const complementary = calculateScheduleContribution(income, fund.retraiteComplementaire, pass, classChoices.retraiteComplementaire);
+  const invalidity = calculateScheduleContribution(income, fund.invaliditeDeces, pass, classChoices.invaliditeDeces);
+  const classSuffix = (classId?: string) => (classId ? `, classe ${classId}` : "");
+
+  return {
+    lines: [
+      buildLine("INDEMNITES_JOURNALIERES", "Indemnités journalières", ij.base,
+        ij.base * LIBERAL_INDEMNITES_JOURNALIERES.rate, acreFactor, true, ij.minimumBaseApplied),
+      buildLine("RETRAITE_BASE_PLAFONNEE", "Retraite de base CNAVPL (tranche 1)", retirement.base,
+        applyTranches(retirement.base, [firstTranche], pass), acreFactor, true, retirement.minimumBaseApplied),
+      buildLine("RETRAITE_BASE_DEPLAFONNEE", "Retraite de base CNAVPL (tranche 2)", Math.min(income, pass * secondTranche.toPassRatio),
+        applyTranches(income, [secondTranche], pass), acreFactor),
+      buildLine("RETRAITE_COMPLEMENTAIRE", `Retraite complémentaire ${fund.label}${classSuffix(complementary.classId)}`, income,
+        complementary.amount, acreFactor),
+      buildLine("INVALIDITE_DECES", `Invalidité-décès ${fund.label}${classSuffix(invalidity.classId)}`, income,
+        invalidity.amount, acreFactor),
+    ],
+    retirementBase: retirement.base,
+    pensionClasses: { retraiteComplementaire: complementary.classId, invaliditeDeces: invalidity.classId },
+  };
+}
+
+/**
+ * Computes every contribution line for a given revenu professionnel.
+ */
+function computeLines(
+  professionalIncome: number,
+  activityType: ActivityType,
+  acreFactor: number,
+  options: TnsContributionsOptions,
+  fiscalYear: FiscalYear
+): ComputedLines {
+  const { pass, ssi } = getFiscalParameters(fiscalYear).social;
+  const income = Math.max(0, professionalIncome);
+  const passRatio = income / pass;
+  const af = ssi.allocationsFamiliales;
+  // Taux réduit d'allocations familiales: nothing below the start ratio, full rate above the full rate ratio
+  const afRate = af.rate * Math.min(1, Math.max(0, (passRatio - af.startPassRatio) / (af.fullRatePassRatio - af.startPassRatio)));
+
+  const pensionFund = getPensionFund(activityType, options.pensionFund);
+  const pension = pensionFund
+    ? computePensionFundLines(income, pensionFund, options.pensionClasses ?? {}, acreFactor, fiscalYear)
+    : computeSsiPensionLines(income, acreFactor, fiscalYear);
+
+  const socialLines = [
+    buildLine("MALADIE_MATERNITE", "Maladie-maternité", income,
+      income * interpolateRate(passRatio, ssi.maladieMaternite.progressivePoints, ssi.maladieMaternite.rateAboveLastPoint), acreFactor),
+    ...pension.lines,
+    buildLine("ALLOCATIONS_FAMILIALES", "Allocations familiales", income, income * afRate, acreFactor),
+  ];
+
+  // CSG/CRDS are assessed on the revenu professionnel with the compulsory contributions added back,
+  // nothing is due without a positive income
+  const csgCrdsBase = income > 0 ? income + socialLines.reduce((sum, line) => sum + line.amount, 0) : 0;
+
+  return {
+    lines: [
+      ...socialLines,
+      buildLine("CSG_DEDUCTIBLE", "CSG déductible", csgCrdsBase, csgCrdsBase * ssi.csgCrds.deductibleRate, acreFactor),
+      buildLine("CSG_CRDS_NON_DEDUCTIBLE", "CSG non déductible et CRDS", csgCrdsBase, csgCrdsBase * ssi.csgCrds.nonDeductibleRate, acreFactor, false),
+      // The CFP is a flat contribution, due whatever the income
+      buildLine("CFP", "Contribution à la formation professionnelle", pass, pass * ssi.cfpPassRates[activityType], acreFactor),
+    ],
+    retirementBase: pension.retirementBase,
+    pensionClasses: pension.pensionClasses,
+  };
+}
+
+function sumLines(lines: SocialContributionLine[], predicate: (line: SocialContributionLine) => boolean = () => true): number {
+  return lines.filter(predicate).reduce((sum, line) => sum + line.amount, 0);
+}
+
+/**
+ * Share of the exemptable contributions waived by the ACRE, for a given revenu professionnel.
+ */
+function getAcreFactor(professionalIncome: number, options: TnsContributionsOptions, fiscalYear: FiscalYear): number {
+  if (!options.acre) return 0;
+  const activityShare = getActivityShareOfYear(options.creationDate, fiscalYear);
+  if (activityShare <= 0) return 0;
+  // The degressive rate depends on the income annualized over the period of activity
+  return getReelAcreExemptionRate(professionalIncome / activityShare, fiscalYear)
+    * getReelAcreShareOfIncome(options.creationDate, fiscalYear);
+}
+
+/**
+ * Calculates the social contributions of a travailleur non salarié (SSI) at the régime réel.
+ * The contributions are assessed on the revenu professionnel, i.e. the profit after deduction of these same
+ * contributions: the circular base is solved numerically. CSG/CRDS are assessed on the revenu professionnel
+ * with the compulsory contributions added back, and only part of the CSG is deductible.
+ * Professions libérales réglementées pay their retirement and invalidité-décès to their caisse instead of the SSI.
+ * Below the assiettes minimales, the retraite de base, invalidité-décès and indemnités journalières are due on the minimum bases.
+ * @param profitBeforeContributions The profit (revenue - expenses) before social contributions, negative for a loss.
+ * @param activityType The type of activity.
+ * @param options The fiscal year of the parameters to apply, the creation date, the ACRE and the caisse de retraite.
+ * @returns Each contribution line, the revenu professionnel and the totals.
+ */
+export function calculateTnsContributions(
+  profitBeforeContributions: number,
+  activityType: ActivityType,
+  options: TnsContributionsOptions = {}
+): TnsContributionsResult {
+  const fiscalYear = options.fiscalYear ?? DEFAULT_FISCAL_YEAR;
+
+  const linesFor = (income: number) => computeLines(income, activityType, getAcreFactor(income, options, fiscalYear), options, fiscalYear);
+  const deductibleFor = (income: number) => sumLines(linesFor(income).lines, (line) => line.deductible);
+
+  // Revenu professionnel R such that R = profit - deductible contributions(R), found by bisection
+  // Below the assiettes minimales, the contributions due on a nil income create or increase a deficit
+  let low = 0;
+  let high = profitBeforeContributions - deductibleFor(0);
+  if (high > 0) {
+    high = profitBeforeContributions;
+    for (let i = 0; i < SOLVER_ITERATIONS; i++) {
+      const middle = (low + high) / 2;
+      if (profitBeforeContributions - deductibleFor(middle) > middle) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+  }
+  return calculateTnsContributionsOnIncome(high, activityType, options);
+}
+
+/**
+ * Calculates the social contributions of a travailleur non salarié on a known revenu professionnel,
+ * such as the remuneration of the gérant majoritaire of an EURL à l'IS.
+ * @param professionalIncome The revenu professionnel, negative for a deficit.
+ * @param activityType The type of activity.
+ * @param options The fiscal year of the parameters to apply, the creation date, the ACRE and the caisse de retraite.
+ * @returns Each contribution line and the totals.
+ */
+export function calculateTnsContributionsOnIncome(
+  professionalIncome: number,
+  activityType: ActivityType,
+  options: TnsContributionsOptions = {}
+): TnsContributionsResult {
+  const fiscalYear = options.fiscalYear ?? DEFAULT_FISCAL_YEAR;
+  const { smicHourly, ssi } = getFiscalParameters(fiscalYear).social;
+
+  const computed = computeLines(professionalIncome, activityType, getAcreFactor(professionalIncome, options, fiscalYear), options, fiscalYear);
+  const lines = computed.lines.map((line) => ({
+    ...line,
+    base: parseFloat(line.base.toFixed(2)),
+    rate: parseFloat(line.rate.toFixed(4)),
+    acreExemption: parseFloat(line.acreExemption.toFixed(2)),
+    amount: parseFloat(line.amount.toFixed(2)),
+  }));
+  const csgCrdsBase = lines.find((line) => line.id === "CSG_DEDUCTIBLE")?.base ?? 0;
+  const deductibleContributions = sumLines(lines, (line) => line.deductible);
+  const nonDeductibleContributions = sumLines(lines, (line) => !line.deductible);
+
+  return {
+    professionalIncome: parseFloat(professionalIncome.toFixed(2)),
+    csgCrdsBase,
+    lines,
+    acreExemption: parseFloat(lines.reduce((sum, line) => sum + line.acreExemption, 0).toFixed(2)),
+    totalContributions: parseFloat((deductibleContributions + nonDeductibleContributions).toFixed(2)),
+    deductibleContributions: parseFloat(deductibleContributions.toFixed(2)),
+    nonDeductibleContributions: parseFloat(nonDeductibleContributions.toFixed(2)),
+    pensionFund: getPensionFund(activityType, options.pensionFund),
+    pensionClasses: computed.pensionClasses,
+    minimumContributionsApplied: lines.some((line) => line.minimumBaseApplied),
+    retirementBase: parseFloat(computed.retirementBase.toFixed(2)),
+    retirementQuartersValidated: Math.min(4, Math.floor(computed.retirementBase / (ssi.retirementQuarterSmicHours * smicHourly))),
+  };
+}
+
+/**
+ * Calculates the cotisations provisionnelles called in the year of creation, before any income is declared:
+ * they are assessed on the assiette forfaitaire de début d'activité, a share of the PASS, for the months of activity.
+ * @param activityType The type of activity.
+ * @param options The fiscal year of the parameters to apply, the creation date, the ACRE and the caisse de retraite.
+ * @returns The provisional contributions of the year of creation.
+ */
+export function calculateStartupProvisionalContributions(
+  activityType: ActivityType,
+  options: TnsContributionsOptions = {}
+): number {
+  const fiscalYear = options.fiscalYear ?? DEFAULT_FISCAL_YEAR;
+  const { pass, ssi } = getFiscalParameters(fiscalYear).social;
+  const contributions = calculateTnsContributionsOnIncome(pass * ssi.startupProvisionalBasePassRatio, activityType, options).totalContributions;
+  return parseFloat((contributions * getActivityShareOfYear(options.creationDate, fiscalYear)).toFixed(2));
+}
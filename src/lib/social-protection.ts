@@ -0,0 +1,215 @@
+// src/lib/social-protection.ts
+
+import { parseIsoDate } from '@/lib/business-creation';
+import { DEFAULT_FISCAL_YEAR, getFiscalParameters, type FiscalYear } from '@/lib/fiscal-parameters';
+import { getPensionFund, type LiberalPensionFund } from '@/lib/liberal-pension-funds';
+import type { EligibilityWarning } from '@/lib/micro-eligibility';
+import type { SocialContributionLine } from '@/lib/social-contributions';
+import type { MicroRevenueLineResult } from '@/lib/tax-calculator';
+
+// SSI: artisans, commerçants and professions libérales non réglementées; LIBERAL: professions libérales of a
+// caisse of the CNAVPL; REGIME_GENERAL: assimilé salarié; NONE: no contribution opening rights
+export type SocialProtectionScheme = "SSI" | "LIBERAL" | "REGIME_GENERAL" | "NONE";
+
+/**
+ * Indemnités journalières and congés maternité / paternité the regime would pay, the income of the simulated year
+ * standing for each of the three years of reference.
+ */
+export interface SocialProtectionResult {
+  scheme: SocialProtectionScheme;
+  referenceIncome: number;          // Revenu annuel moyen, assiette minimale included, or gross salary
+  sicknessEligible: boolean;
+  sicknessDailyAllowance: number;   // IJ maladie per day, after the délai de carence
+  waitingDays: number;
+  maternityDailyAllowance: number;
+  maternityFlatAllowance: number;   // Allocation forfaitaire de repos maternel of the independents
+  maternityTotal: number;           // Whole congé maternité, flat allowance included
+  paternityTotal: number;
+  maternityDays: number;
+  paternityDays: number;
+  warnings: EligibilityWarning[];
+}
+
+/**
+ * Protection of each regime for the year. The micro with versement libératoire pays the same contributions as the micro.
+ */
+export interface SocialProtectionComparison {
+  micro: SocialProtectionResult;
+  reel: SocialProtectionResult;
+  sasu: SocialProtectionResult;
+  eurl: SocialProtectionResult;
+}
+
+function noProtection(fiscalYear: FiscalYear, message: string): SocialProtectionResult {
+  const { maternityDays, paternityDays } = getFiscalParameters(fiscalYear).social.sicknessBenefits;
+  return {
+    scheme: "NONE",
+    referenceIncome: 0,
+    sicknessEligible: false,
+    sicknessDailyAllowance: 0,
+    waitingDays: 0,
+    maternityDailyAllowance: 0,
+    maternityFlatAllowance: 0,
+    maternityTotal: 0,
+    paternityTotal: 0,
+    maternityDays,
+    paternityDays,
+    warnings: [{ code: "NO_PROTECTION", level: "info", message }],
+  };
+}
+
+/**
+ * Benefits of a travailleur indépendant: IJ maladie of 1/730 of the average revenue up to the ceiling of its scheme,
+ * flat maternity and paternity benefits reduced to 10% below the eligibility threshold. No IJ is paid before
+ * twelve months of affiliation.
+ */
+function calculateIndependentProtection(
+  averageIncome: number,
+  scheme: "SSI" | "LIBERAL",
+  fiscalYear: FiscalYear,
+  creationDate: string | undefined,
+  lowIncomeMessage: string
+): SocialProtectionResult {
+  const { pass, sicknessBenefits } = getFiscalParameters(fiscalYear).social;
+  const { independent, waitingDays, maternityDays, paternityDays } = sicknessBenefits;
+  const referenceIncome = Math.max(0, averageIncome);
+  const ceilingPassRatio = scheme === "LIBERAL" ? independent.liberalCeilingPassRatio : independent.ssiCeilingPassRatio;
+  const sicknessEligible = referenceIncome >= pass * independent.eligibilityPassRatio;
+  const maternityRate = sicknessEligible ? 1 : independent.reducedMaternityRate;
+  const warnings: EligibilityWarning[] = [];
+
+  if (!sicknessEligible) {
+    warnings.push({ code: "LOW_INCOME", level: "warning", message: lowIncomeMessage });
+  }
+  const creation = parseIsoDate(creationDate);
+  if (creation !== undefined && new Date(creation).getUTCFullYear() >= fiscalYear) {
+    warnings.push({
+      code: "AFFILIATION",
+      level: "info",
+      message: "Les indemnités journalières ne sont versées qu'après douze mois d'affiliation : un arrêt dans l'année de création n'est pas indemnisé.",
+    });
+  }
+
+  const flatDailyAllowance = pass / independent.dailyDivisor * maternityRate;
+  const maternityFlatAllowance = pass / 12 * independent.maternityFlatAllowanceMonths * maternityRate;
+  return {
+    scheme,
+    referenceIncome: parseFloat(referenceIncome.toFixed(2)),
+    sicknessEligible,
+    sicknessDailyAllowance: sicknessEligible ? parseFloat((Math.min(referenceIncome, pass * ceilingPassRatio) / independent.dailyDivisor).toFixed(2)) : 0,
+    waitingDays,
+    maternityDailyAllowance: parseFloat(flatDailyAllowance.toFixed(2)),
+    maternityFlatAllowance: parseFloat(maternityFlatAllowance.toFixed(2)),
+    maternityTotal: parseFloat((flatDailyAllowance * maternityDays + maternityFlatAllowance).toFixed(2)),
+    paternityTotal: parseFloat((flatDailyAllowance * paternityDays).toFixed(2)),
+    maternityDays,
+    paternityDays,
+    warnings,
+  };
+}
+
+/**
+ * Estimates the sickness and maternity benefits of a micro-entrepreneur.
+ * The chiffre d'affaires is converted into revenue with the abattement of each activity; without assiette minimale
+ * in micro, a revenue below 10% of the PASS opens no IJ maladie and only reduced maternity benefits.
+ * @param lines The revenue lines of the micro result.
+ * @param fiscalYear The year of the parameters to apply.
+ * @param pensionFund The caisse selected for a profession réglementée outside the CIPAV.
+ * @param creationDate The business creation date (YYYY-MM-DD), undefined for an existing business.
+ * @returns The daily allowances, the maternity and paternity benefits and the warnings.
+ */
+export function calculateMicroSocialProtection(
+  lines: MicroRevenueLineResult[],
+  fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR,
+  pensionFund?: LiberalPensionFund,
+  creationDate?: string
+): SocialProtectionResult {
+  const contributingLines = lines.filter((line) => line.rentalSocialLevyRate === 0);
+  if (contributingLines.length === 0) {
+    return noProtection(fiscalYear, "Les prélèvements sociaux de la location meublée non professionnelle n'ouvrent pas de droits aux indemnités journalières.");
+  }
+  const { pass, sicknessBenefits } = getFiscalParameters(fiscalYear).social;
+  const mainLine = contributingLines.reduce((main, line) => (line.revenue > main.revenue ? line : main));
+  const income = contributingLines.reduce((sum, line) => sum + line.revenue * (1 - line.allowanceRate), 0);
+  const threshold = pass * sicknessBenefits.independent.eligibilityPassRatio;
+  const thresholdRevenue = threshold / (1 - mainLine.allowanceRate);
+
+  return calculateIndependentProtection(
+    income,
+    getPensionFund(mainLine.activityType, pensionFund) ? "LIBERAL" : "SSI",
+    fiscalYear,
+    creationDate,
+    `Revenu micro trop faible pour ouvrir des droits : sous ${Math.round(threshold)} € de revenu après abattement (environ ${Math.round(thresholdRevenue)} € de chiffre d'affaires), aucune indemnité journalière maladie n'est versée et les prestations maternité sont réduites à 10%.`
+  );
+}
+
+/**
+ * Estimates the sickness and maternity benefits of a travailleur non salarié from its contribution lines
+ * (réel, gérant of an EURL). The assiette of the indemnités journalières, raised to its minimum, is the revenue retained.
+ * @param lines The social contribution lines of the year.
+ * @param pensionFund The caisse de retraite of a profession libérale réglementée, undefined for the SSI.
+ * @param fiscalYear The year of the parameters to apply.
+ * @param creationDate The business creation date (YYYY-MM-DD), undefined for an existing business.
+ * @returns The daily allowances, the maternity and paternity benefits and the warnings.
+ */
+export function calculateTnsSocialProtection(
+  lines: SocialContributionLine[],
+  pensionFund: LiberalPensionFund | undefined,
+  fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR,
+  creationDate?: string
+): SocialProtectionResult {
+  const ijLine = lines.find((line) => line.id === "INDEMNITES_JOURNALIERES");
+  if (!ijLine) {
+    return noProtection(fiscalYear, "Les prélèvements sociaux de la location meublée non professionnelle n'ouvrent pas de droits aux indemnités journalières.");
+  }
+  return calculateIndependentProtection(
+    ijLine.base,
+    pensionFund ? "LIBERAL" : "SSI",
+    fiscalYear,
+    creationDate,
+    "Revenu trop faible pour ouvrir des droits aux indemnités journalières maladie ; les prestations maternité sont réduites à 10%."
+  );
+}
+
+/**
+ * Estimates the sickness and maternity benefits of an assimilé salarié (président de SASU).
+ * The IJ maladie are half of the salaire journalier de base, capped at a multiple of the SMIC; the IJ maternité and paternité
+ * replace the salary net of a flat 21% up to the PASS. A salary below 1 015 hours of SMIC per half-year opens no rights.
+ * @param grossSalary The annual gross salary.
+ * @param fiscalYear The year of the parameters to apply.
+ * @returns The daily allowances, the maternity and paternity benefits and the warnings.
+ */
+export function calculateSalariedSocialProtection(grossSalary: number, fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR): SocialProtectionResult {
+  const { pass, smicHourly, assimileSalarie, sicknessBenefits } = getFiscalParameters(fiscalYear).social;
+  const { salaried, waitingDays, maternityDays, paternityDays } = sicknessBenefits;
+  const gross = Math.max(0, grossSalary);
+  const eligible = gross >= smicHourly * salaried.eligibilitySmicHours;
+  const warnings: EligibilityWarning[] = [];
+  if (!eligible) {
+    warnings.push({
+      code: "LOW_SALARY",
+      level: "warning",
+      message: gross > 0
+        ? `Salaire trop faible pour ouvrir des droits : il faut au moins ${Math.round(smicHourly * salaried.eligibilitySmicHours)} € brut par an pour percevoir des indemnités journalières.`
+        : "Sans rémunération, le président ne perçoit aucune indemnité journalière : les dividendes n'ouvrent aucun droit.",
+    });
+  }
+
+  const annualSmic = smicHourly * assimileSalarie.annualSmicHours;
+  const sicknessDailyAllowance = eligible ? Math.min(gross, annualSmic * salaried.sicknessCeilingSmicRatio) / 365 * salaried.sicknessRate : 0;
+  const maternityDailyAllowance = eligible ? Math.min(gross, pass * salaried.maternityCeilingPassRatio) * (1 - salaried.maternityFlatChargeRate) / 365 : 0;
+  return {
+    scheme: "REGIME_GENERAL",
+    referenceIncome: parseFloat(gross.toFixed(2)),
+    sicknessEligible: eligible,
+    sicknessDailyAllowance: parseFloat(sicknessDailyAllowance.toFixed(2)),
+    waitingDays,
+    maternityDailyAllowance: parseFloat(maternityDailyAllowance.toFixed(2)),
+    maternityFlatAllowance: 0,
+    maternityTotal: parseFloat((maternityDailyAllowance * maternityDays).toFixed(2)),
+    paternityTotal: parseFloat((maternityDailyAllowance * paternityDays).toFixed(2)),
+    maternityDays,
+    paternityDays,
+    warnings,
+  };
+}
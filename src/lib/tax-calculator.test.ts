@@ -0,0 +1,67 @@
+// src/lib/tax-calculator.test.ts
+
+import { describe, expect, it } from 'vitest';
+import {
+  calculateIncomeTaxDetails,
+  calculateMicroLiberatoireRegimeTax,
+  DEFAULT_HOUSEHOLD,
+  NO_OTHER_INCOME,
+  type HouseholdComposition,
+} from '@/lib/tax-calculator';
+
+const COUPLE_WITH_TWO_CHILDREN: HouseholdComposition = {
+  ...DEFAULT_HOUSEHOLD,
+  familySituation: "MARIE_PACSE",
+  dependentChildren: 2,
+};
+
+describe("calculateIncomeTaxDetails", () => {
+  // Barème 2025 on the income of 2024: décote = 889 € - 45,25 % of the tax for a single person
+  it("applies the décote of a single person", () => {
+    const details = calculateIncomeTaxDetails(20000, DEFAULT_HOUSEHOLD, 2024);
+
+    expect(details.grossTax).toBe(935.33);
+    expect(details.decote).toBe(465.76);
+    expect(details.netIncomeTax).toBe(469.57);
+  });
+
+  it("never lets the décote exceed the tax", () => {
+    const details = calculateIncomeTaxDetails(15000, DEFAULT_HOUSEHOLD, 2024);
+
+    expect(details.decote).toBe(details.taxAfterQuotientFamilial);
+    expect(details.netIncomeTax).toBe(0);
+  });
+
+  // The two half-parts of the children cannot save more than 2 × 1 791 € compared with the 2 parts of the couple
+  it("caps the advantage of the quotient familial", () => {
+    const details = calculateIncomeTaxDetails(100000, COUPLE_WITH_TWO_CHILDREN, 2024);
+
+    expect(details.fiscalParts).toBe(3);
+    expect(details.grossTax).toBe(9496.44);
+    expect(details.taxAfterQuotientFamilial).toBe(12748.96);
+    expect(details.quotientFamilialCapping).toBe(3252.52);
+    expect(details.decote).toBe(0);
+    expect(details.totalTax).toBe(12748.96);
+  });
+
+  it("keeps the quotient familial below the cap", () => {
+    const details = calculateIncomeTaxDetails(40000, COUPLE_WITH_TWO_CHILDREN, 2024);
+
+    expect(details.quotientFamilialCapping).toBe(0);
+    expect(details.taxAfterQuotientFamilial).toBe(details.grossTax);
+  });
+});
+
+describe("calculateMicroLiberatoireRegimeTax", () => {
+  // About 500 € of tax on the other income, brought under the seuil de recouvrement by the réductions d'impôt
+  it("imputes the réductions d'impôt the same way with and without the activity", () => {
+    const result = calculateMicroLiberatoireRegimeTax([{ activityType: "SERVICE_BIC", annualRevenue: 0 }], 0, {
+      fiscalYear: 2024,
+      otherIncome: { ...NO_OTHER_INCOME, otherBusinessIncome: 20190 },
+      taxReductions: 450,
+    });
+
+    expect(result.otherIncomeTaxWithActivity).toBe(result.otherIncomeTaxWithoutActivity);
+    expect(result.effectiveRateTaxIncrease).toBe(0);
+  });
+});
@@ -1,33 +1,156 @@
 
 // src/lib/tax-calculator.ts
 
-export type ActivityType = "VENTE_BIC" | "SERVICE_BIC" | "LIBERAL_BNC_AUTRE" | "LIBERAL_BNC_CIPAV";
+import { getMicroAcreShareOfRevenue } from '@/lib/business-creation';
+import { calculateCfe, DEFAULT_CFE_SETTINGS, type CfeResult, type CfeSettings } from '@/lib/cfe';
+import { DEFAULT_FISCAL_YEAR, getFiscalParameters, type FiscalParameters, type FiscalYear, type FlatAllowanceParameters, type IncomeTaxBracket } from '@/lib/fiscal-parameters';
+import type { LiberalPensionFund, PensionFundClassChoices } from '@/lib/liberal-pension-funds';
+import { calculateTnsContributions, type SocialContributionLine } from '@/lib/social-contributions';
+import { imputeProfessionalDeficits, type CarriedForwardDeficit, type DeficitImputationResult } from '@/lib/deficits';
+
+export type ActivityType =
+  | "VENTE_BIC"
+  | "SERVICE_BIC"
+  | "LIBERAL_BNC_AUTRE"
+  | "LIBERAL_BNC_CIPAV"
+  | "LIBERAL_BNC_REGLEMENTEE"
+  | "LOCATION_MEUBLEE"
+  | "MEUBLE_TOURISME_CLASSE"
+  | "MEUBLE_TOURISME_NON_CLASSE"
+  | "CHAMBRES_HOTES";
 
 /**
- * Calculates French income tax based on progressive tax brackets for 1 part (single person).
- * Uses rates for 2023 income, taxed in 2024.
- * @param taxableIncome The net taxable income.
- * @returns The calculated income tax amount.
+ * A line of revenue of the business: a mixed activity (ventes and services under the same SIRET)
+ * has one line per activity type.
  */
-export function calculateIncomeTax(taxableIncome: number): number {
-  if (taxableIncome <= 0) {
-    return 0;
+export interface RevenueLine {
+  activityType: ActivityType;
+  annualRevenue: number;
+}
+
+/**
+ * Returns the total revenue of the revenue lines.
+ */
+export function getTotalRevenue(revenueLines: RevenueLine[]): number {
+  return revenueLines.reduce((sum, line) => sum + Math.max(0, line.annualRevenue), 0);
+}
+
+/**
+ * Returns the activité principale, the one with the highest revenue, which determines
+ * the social regime of a mixed activity. The first line wins a tie.
+ */
+export function getMainActivityType(revenueLines: RevenueLine[]): ActivityType {
+  if (revenueLines.length === 0) return "LIBERAL_BNC_AUTRE";
+  return revenueLines.reduce((main, line) => (line.annualRevenue > main.annualRevenue ? line : main)).activityType;
+}
+
+export type FamilySituation = "CELIBATAIRE" | "MARIE_PACSE" | "DIVORCE_SEPARE" | "VEUF";
+
+/**
+ * Composition of the foyer fiscal, used to compute the number of parts (quotient familial).
+ */
+export interface HouseholdComposition {
+  familySituation: FamilySituation;
+  dependentChildren: number;      // Enfants à charge exclusive ou principale
+  sharedCustodyChildren: number;  // Enfants en résidence alternée
+  singleParent: boolean;          // Parent isolé (case T)
+  taxpayerDisabled: boolean;      // Carte mobilité inclusion "invalidité" du déclarant
+  spouseDisabled: boolean;        // Idem pour le conjoint (couples uniquement)
+}
+
+export const DEFAULT_HOUSEHOLD: HouseholdComposition = {
+  familySituation: "CELIBATAIRE",
+  dependentChildren: 0,
+  sharedCustodyChildren: 0,
+  singleParent: false,
+  taxpayerDisabled: false,
+  spouseDisabled: false,
+};
+
+function isCouple(household: HouseholdComposition): boolean {
+  return household.familySituation === "MARIE_PACSE";
+}
+
+function hasChildren(household: HouseholdComposition): boolean {
+  return household.dependentChildren > 0 || household.sharedCustodyChildren > 0;
+}
+
+/**
+ * Number of parts granted by the quotient conjugal, before any children or half-parts.
+ * A widow(er) with dependants keeps the two parts of the couple.
+ */
+function getReferenceParts(household: HouseholdComposition): number {
+  if (isCouple(household)) return 2;
+  if (household.familySituation === "VEUF" && hasChildren(household)) return 2;
+  return 1;
+}
+
+function hasSingleParentHalfPart(household: HouseholdComposition): boolean {
+  return household.singleParent
+    && (household.familySituation === "CELIBATAIRE" || household.familySituation === "DIVORCE_SEPARE")
+    && hasChildren(household);
+}
+
+/**
+ * Calculates the number of parts fiscales of the foyer.
+ * Children in exclusive custody count first: 0.5 part each for the first two, 1 part from the third.
+ * Children in shared custody count half of that, ranked after the exclusive ones.
+ * @param household The household composition.
+ * @returns The number of parts (multiple of 0.25).
+ */
+export function calculateFiscalParts(household: HouseholdComposition): number {
+  const dependentChildren = Math.max(0, Math.floor(household.dependentChildren));
+  const sharedCustodyChildren = Math.max(0, Math.floor(household.sharedCustodyChildren));
+  let parts = getReferenceParts(household);
+
+  for (let rank = 1; rank <= dependentChildren; rank++) {
+    parts += rank <= 2 ? 0.5 : 1;
+  }
+  for (let rank = dependentChildren + 1; rank <= dependentChildren + sharedCustodyChildren; rank++) {
+    parts += rank <= 2 ? 0.25 : 0.5;
   }
 
-  const brackets = [
-    { limit: 11294, rate: 0.00 },
-    { limit: 28797, rate: 0.11 },
-    { limit: 82341, rate: 0.30 },
-    { limit: 177106, rate: 0.41 },
-    { limit: Infinity, rate: 0.45 },
-  ];
+  if (hasSingleParentHalfPart(household)) {
+    parts += dependentChildren > 0 ? 0.5 : 0.25;
+  }
+  if (household.taxpayerDisabled) {
+    parts += 0.5;
+  }
+  if (isCouple(household) && household.spouseDisabled) {
+    parts += 0.5;
+  }
+
+  return parts;
+}
+
+/**
+ * Maximum tax advantage granted by the parts above the reference parts (plafonnement du quotient familial).
+ * For a parent isolé, the first child's part and the case T half-part share the specific higher cap.
+ */
+function getQuotientFamilialCap(household: HouseholdComposition, parts: number, parameters: FiscalParameters): number {
+  const { quotientFamilialHalfPartCap, quotientFamilialSingleParentCap } = parameters.incomeTax;
+  let extraHalfParts = (parts - getReferenceParts(household)) * 2;
+  let cap = 0;
+
+  if (hasSingleParentHalfPart(household)) {
+    const singleParentHalfParts = household.dependentChildren > 0 ? 2 : 1;
+    cap += quotientFamilialSingleParentCap * (singleParentHalfParts / 2);
+    extraHalfParts -= singleParentHalfParts;
+  }
+
+  return cap + Math.max(0, extraHalfParts) * quotientFamilialHalfPartCap;
+}
 
+/**
+ * Applies progressive brackets to an amount (income of a single part, or RFR for the CEHR).
+ */
+function applyBrackets(amount: number, brackets: IncomeTaxBracket[]): number {
   let tax = 0;
   let previousLimit = 0;
 
   for (const bracket of brackets) {
-    if (taxableIncome > previousLimit) {
-      const taxableInBracket = Math.min(taxableIncome, bracket.limit) - previousLimit;
+    if (amount > previousLimit) {
+      const taxableInBracket = Math.min(amount, bracket.limit) - previousLimit;
       tax += taxableInBracket * bracket.rate;
       previousLimit = bracket.limit;
     } else {
@@ -35,19 +158,284 @@ export function calculateIncomeTax(taxableIncome: number): number {
     }
   }
 
-  return parseFloat(tax.toFixed(2));
+  return tax;
+}
+
+/**
+ * Each step of the liquidation of the income tax, in the order applied by the DGFiP.
+ */
+export interface IncomeTaxDetails {
+  fiscalParts: number;
+  grossTax: number;                // Impôt brut au barème avec toutes les parts
+  quotientFamilialCapping: number; // Supplément d'impôt dû au plafonnement du quotient familial
+  taxAfterQuotientFamilial: number;
+  decote: number;
+  taxReductions: number;           // Réductions d'impôt effectivement imputées
+  netIncomeTax: number;            // IR net, après application du seuil de recouvrement
+  belowCollectionThreshold: boolean; // IR net inférieur à 61 €, non mis en recouvrement
+  highIncomeContribution: number;  // CEHR
+  totalTax: number;                // IR net + CEHR
+}
+
+function roundAmount(value: number): number {
+  return parseFloat(value.toFixed(2));
+}
+
+/**
+ * Décote for modest incomes: forfait minus a share of the tax, never more than the tax itself.
+ */
+function calculateDecote(tax: number, household: HouseholdComposition, parameters: FiscalParameters): number {
+  const { singleAmount, coupleAmount, rate } = parameters.incomeTax.decote;
+  const amount = isCouple(household) ? coupleAmount : singleAmount;
+  return Math.min(tax, Math.max(0, amount - tax * rate));
+}
+
+/**
+ * Contribution exceptionnelle sur les hauts revenus, based on the revenu fiscal de référence.
+ * The taxable income is used as an approximation of the RFR.
+ */
+function calculateHighIncomeContribution(referenceIncome: number, household: HouseholdComposition, parameters: FiscalParameters): number {
+  const { singleBrackets, coupleBrackets } = parameters.incomeTax.highIncomeContribution;
+  return applyBrackets(referenceIncome, isCouple(household) ? coupleBrackets : singleBrackets);
+}
+
+/**
+ * Calculates French income tax step by step: barème with the quotient familial, plafonnement,
+ * décote, réductions d'impôt, seuil de mise en recouvrement and CEHR.
+ * @param taxableIncome The net taxable income of the foyer.
+ * @param household The household composition (defaults to a single person, 1 part).
+ * @param fiscalYear The year of the income, selecting the barème to apply.
+ * @param taxReductions The réductions d'impôt the foyer is entitled to (dons, etc.).
+ * @returns Every intermediate amount of the liquidation.
+ */
+export function calculateIncomeTaxDetails(
+  taxableIncome: number,
+  household: HouseholdComposition = DEFAULT_HOUSEHOLD,
+  fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR,
+  taxReductions: number = 0
+): IncomeTaxDetails {
+  const parameters = getFiscalParameters(fiscalYear);
+  const parts = calculateFiscalParts(household);
+  const income = Math.max(0, taxableIncome);
+
+  const grossTax = applyBrackets(income / parts, parameters.incomeTax.brackets) * parts;
+
+  let taxAfterQuotientFamilial = grossTax;
+  const referenceParts = getReferenceParts(household);
+  if (parts > referenceParts) {
+    const taxWithReferenceParts = applyBrackets(income / referenceParts, parameters.incomeTax.brackets) * referenceParts;
+    const cappedTax = taxWithReferenceParts - getQuotientFamilialCap(household, parts, parameters);
+    taxAfterQuotientFamilial = Math.max(grossTax, cappedTax);
+  }
+
+  const decote = calculateDecote(taxAfterQuotientFamilial, household, parameters);
+  const taxAfterDecote = taxAfterQuotientFamilial - decote;
+  const appliedReductions = Math.min(taxAfterDecote, Math.max(0, taxReductions));
+  const taxAfterReductions = taxAfterDecote - appliedReductions;
+
+  const belowCollectionThreshold = taxAfterReductions > 0 && taxAfterReductions < parameters.incomeTax.collectionThreshold;
+  const netIncomeTax = belowCollectionThreshold ? 0 : taxAfterReductions;
+  const highIncomeContribution = calculateHighIncomeContribution(income, household, parameters);
+
+  return {
+    fiscalParts: parts,
+    grossTax: roundAmount(grossTax),
+    quotientFamilialCapping: roundAmount(taxAfterQuotientFamilial - grossTax),
+    taxAfterQuotientFamilial: roundAmount(taxAfterQuotientFamilial),
+    decote: roundAmount(decote),
+    taxReductions: roundAmount(appliedReductions),
+    netIncomeTax: roundAmount(netIncomeTax),
+    belowCollectionThreshold,
+    highIncomeContribution: roundAmount(highIncomeContribution),
+    totalTax: roundAmount(netIncomeTax + highIncomeContribution),
+  };
+}
+
+/**
+ * Calculates French income tax (IR net + CEHR) of the foyer.
+ * See calculateIncomeTaxDetails for the intermediate steps.
+ * @param taxableIncome The net taxable income of the foyer.
+ * @param household The household composition (defaults to a single person, 1 part).
+ * @param fiscalYear The year of the income, selecting the barème to apply.
+ * @param taxReductions The réductions d'impôt the foyer is entitled to.
+ * @returns The calculated income tax amount.
+ */
+export function calculateIncomeTax(
+  taxableIncome: number,
+  household: HouseholdComposition = DEFAULT_HOUSEHOLD,
+  fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR,
+  taxReductions: number = 0
+): number {
+  if (taxableIncome <= 0) {
+    return 0;
+  }
+  return calculateIncomeTaxDetails(taxableIncome, household, fiscalYear, taxReductions).totalTax;
+}
+
+/**
+ * Returns the taux marginal d'imposition of the foyer (rate of the bracket of the last euro per part).
+ * When the plafonnement du quotient familial applies, the brackets are read with the reference parts.
+ * @param taxableIncome The net taxable income of the foyer.
+ * @param household The household composition.
+ * @param fiscalYear The year of the income, selecting the barème to apply.
+ * @returns The marginal rate, e.g. 0.30.
+ */
+export function getMarginalTaxRate(
+  taxableIncome: number,
+  household: HouseholdComposition = DEFAULT_HOUSEHOLD,
+  fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR
+): number {
+  if (taxableIncome <= 0) {
+    return 0;
+  }
+  const { brackets } = getFiscalParameters(fiscalYear).incomeTax;
+  const details = calculateIncomeTaxDetails(taxableIncome, household, fiscalYear);
+  const parts = details.quotientFamilialCapping > 0 ? getReferenceParts(household) : details.fiscalParts;
+  const incomePerPart = taxableIncome / parts;
+  const bracket = brackets.find((b) => incomePerPart <= b.limit) ?? brackets[brackets.length - 1];
+  return bracket.rate;
+}
+
+/**
+ * Applies the barème to an income shared into a number of parts, without plafonnement, décote nor réductions,
+ * as for the taux individualisé of the prélèvement à la source.
+ * @param taxableIncome The net taxable income.
+ * @param parts The number of parts.
+ * @param fiscalYear The year of the income, selecting the barème to apply.
+ * @returns The tax at the barème.
+ */
+export function calculateBaremeTax(taxableIncome: number, parts: number, fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR): number {
+  if (taxableIncome <= 0 || parts <= 0) {
+    return 0;
+  }
+  return roundAmount(applyBrackets(taxableIncome / parts, getFiscalParameters(fiscalYear).incomeTax.brackets) * parts);
+}
+
+/**
+ * Income of the foyer other than the simulated activity.
+ */
+export interface OtherHouseholdIncome {
+  taxpayerSalaries: number;    // Salaires nets imposables du déclarant, avant déduction de 10%
+  spouseSalaries: number;      // Idem pour le conjoint
+  pensions: number;            // Pensions et retraites, avant abattement de 10%
+  rentalIncome: number;        // Revenus fonciers nets imposables
+  otherBusinessIncome: number; // Bénéfice imposable d'une autre activité indépendante du foyer
+}
+
+export const NO_OTHER_INCOME: OtherHouseholdIncome = {
+  taxpayerSalaries: 0,
+  spouseSalaries: 0,
+  pensions: 0,
+  rentalIncome: 0,
+  otherBusinessIncome: 0,
+};
+
+function calculateFlatAllowance(amount: number, parameters: FlatAllowanceParameters): number {
+  if (amount <= 0) return 0;
+  return Math.min(amount, Math.min(parameters.max, Math.max(parameters.min, amount * parameters.rate)));
+}
+
+/**
+ * Calculates the net taxable income of the foyer outside the simulated activity.
+ * Salaries get the 10% deduction per person, pensions the 10% abattement per foyer.
+ * @param otherIncome The other income of the foyer.
+ * @param fiscalYear The year of the income, selecting the allowance limits.
+ * @returns The net taxable income from the other sources.
+ */
+export function calculateOtherTaxableIncome(otherIncome: OtherHouseholdIncome, fiscalYear: FiscalYear = DEFAULT_FISCAL_YEAR): number {
+  const { salaryAllowance, pensionAllowance } = getFiscalParameters(fiscalYear).incomeTax;
+  const taxpayerSalaries = Math.max(0, otherIncome.taxpayerSalaries);
+  const spouseSalaries = Math.max(0, otherIncome.spouseSalaries);
+  const pensions = Math.max(0, otherIncome.pensions);
+
+  const netSalaries = taxpayerSalaries - calculateFlatAllowance(taxpayerSalaries, salaryAllowance)
+    + spouseSalaries - calculateFlatAllowance(spouseSalaries, salaryAllowance);
+  const netPensions = pensions - calculateFlatAllowance(pensions, pensionAllowance);
+  const total = netSalaries + netPensions + Math.max(0, otherIncome.rentalIncome) + Math.max(0, otherIncome.otherBusinessIncome);
+
+  return parseFloat(total.toFixed(2));
+}
+
+/**
+ * Options shared by the regime calculators.
+ */
+export interface RegimeOptions {
+  household?: HouseholdComposition;
+  fiscalYear?: FiscalYear;
+  taxReductions?: number;
+  otherIncome?: OtherHouseholdIncome; // Revenus du foyer hors activité simulée
+  referenceIncomeN2?: number;   // Revenu fiscal de référence de l'avant-dernière année
+  creationDate?: string;        // Date de création de l'entreprise (YYYY-MM-DD)
+  acre?: boolean;               // Bénéfice de l'aide à la création ou à la reprise d'entreprise
+  pensionFund?: LiberalPensionFund;         // Caisse de retraite of a profession libérale réglementée
+  pensionClasses?: PensionFundClassChoices; // Classes de cotisation chosen, where the caisse allows it
+  deficitsCarriedForward?: CarriedForwardDeficit[]; // Déficits professionnels of previous years, for the réel
+  cfe?: CfeSettings;            // Commune of the business, for the cotisation foncière des entreprises
+}
+
+export interface ActivityIncomeTax {
+  otherTaxableIncome: number;
+  incomeTaxDetails: IncomeTaxDetails;    // Liquidation of the whole foyer, activity included
+  householdTaxWithoutActivity: number;
+  taxAmount: number;                     // Share of the foyer's tax attributable to the activity
+}
+
+/**
+ * Computes the income tax of the whole foyer with and without the activity,
+ * and attributes the difference to the activity.
+ */
+export function calculateActivityIncomeTax(activityTaxableIncome: number, options: RegimeOptions): ActivityIncomeTax {
+  const household = options.household ?? DEFAULT_HOUSEHOLD;
+  const fiscalYear = options.fiscalYear ?? DEFAULT_FISCAL_YEAR;
+  const otherTaxableIncome = calculateOtherTaxableIncome(options.otherIncome ?? NO_OTHER_INCOME, fiscalYear);
+
+  const incomeTaxDetails = calculateIncomeTaxDetails(otherTaxableIncome + activityTaxableIncome, household, fiscalYear, options.taxReductions);
+  const householdTaxWithoutActivity = calculateIncomeTax(otherTaxableIncome, household, fiscalYear, options.taxReductions);
+  const taxAmount = Math.max(0, incomeTaxDetails.totalTax - householdTaxWithoutActivity);
+
+  return {
+    otherTaxableIncome,
+    incomeTaxDetails,
+    householdTaxWithoutActivity,
+    taxAmount: parseFloat(taxAmount.toFixed(2)),
+  };
+}
+
+export interface MicroRevenueLineResult {
+  activityType: ActivityType;
+  revenue: number;
+  allowanceRate: number;
+  allowance: number;          // Share of the abattement, minimum included
+  urssafSocialContributionsRate: number;
+  urssafSocialContributions: number;
+  cfpRate: number;
+  cfpContribution: number;
+  acreReduction: number;
+  rentalSocialLevyRate: number; // Prélèvements sociaux rate, 0 outside the location meublée non professionnelle
+  rentalSocialLevies: number;   // Prélèvements sociaux on the revenue after abattement
 }
 
 export interface MicroRegimeResult {
+  fiscalYear: FiscalYear; // Year of the parameter set used
+  fiscalParts: number;
+  revenue: number;                      // Total of the revenue lines
+  lines: MicroRevenueLineResult[];      // Breakdown by activity type
   taxableIncome: number;
-  taxAmount: number;
+  taxAmount: number;                    // IR attributable to the activity
+  incomeTaxDetails: IncomeTaxDetails;   // Liquidation of the whole foyer
+  otherTaxableIncome: number;
+  householdTaxWithoutActivity: number;
   allowanceApplied: number;
-  allowanceRate: number;
+  allowanceRate: number;                // Overall rate, weighted by the revenue of each line
   urssafSocialContributionsRate: number;
   cfpRate: number;
   urssafSocialContributions: number;
   cfpContribution: number;
   totalUrssafContributions: number;
+  rentalSocialLevies: number; // Prélèvements sociaux of the location meublée non professionnelle
+  acreShareOfRevenue: number; // Share of the revenue earned during the ACRE period
+  acreReduction: number;      // Contributions saved thanks to the ACRE
+  cfe: CfeResult;             // Cotisation foncière des entreprises, not deductible in micro
   netIncomeAfterAll: number;
 }
 
@@ -55,113 +443,355 @@ interface MicroRates {
   allowanceRate: number;
   urssafSocialRate: number;
   cfpRate: number;
-  minAllowance: number;
-}
-
-function getMicroRates(activityType: ActivityType): MicroRates {
-  switch (activityType) {
-    case "VENTE_BIC": // Ventes de marchandises, denrées à emporter/sur place, fourniture logement
-      return { allowanceRate: 0.71, urssafSocialRate: 0.123, cfpRate: 0.001, minAllowance: 305 };
-    case "SERVICE_BIC": // Prestations de services commerciales et artisanales (BIC)
-      return { allowanceRate: 0.50, urssafSocialRate: 0.212, cfpRate: 0.001, minAllowance: 305 };
-    case "LIBERAL_BNC_AUTRE": // Autres prestations de services (BNC), non CIPAV
-      return { allowanceRate: 0.34, urssafSocialRate: 0.231, cfpRate: 0.002, minAllowance: 305 };
-    case "LIBERAL_BNC_CIPAV": // Professions libérales réglementées relevant de la Cipav
-      return { allowanceRate: 0.34, urssafSocialRate: 0.232, cfpRate: 0.002, minAllowance: 305 };
-    default: // Fallback
-      return { allowanceRate: 0.34, urssafSocialRate: 0.231, cfpRate: 0.002, minAllowance: 305 };
+  nonProfessionalRental?: boolean;
+}
+
+// VENTE_BIC: Ventes de marchandises, denrées à emporter/sur place, fourniture logement
+// SERVICE_BIC: Prestations de services commerciales et artisanales (BIC)
+// LIBERAL_BNC_AUTRE: Autres prestations de services (BNC), non CIPAV
+// LIBERAL_BNC_CIPAV: Professions libérales réglementées relevant de la Cipav
+// LIBERAL_BNC_REGLEMENTEE: Professions libérales réglementées relevant d'une autre caisse (CARMF, CARPIMKO, CAVEC…)
+// LOCATION_MEUBLEE: Location meublée de longue durée (LMNP)
+// MEUBLE_TOURISME_CLASSE / MEUBLE_TOURISME_NON_CLASSE: Meublés de tourisme, classés ou non (LMNP)
+// CHAMBRES_HOTES: Chambres d'hôtes, activité commerciale de micro-entrepreneur
+function getMicroRates(activityType: ActivityType, fiscalYear: FiscalYear): MicroRates {
+  return getFiscalParameters(fiscalYear).micro.activities[activityType];
+}
+
+interface MicroRevenue {
+  revenue: number;
+  lines: MicroRevenueLineResult[];
+  allowance: number;
+  urssafSocialContributions: number;
+  cfpContribution: number;
+  totalUrssafContributions: number;
+  rentalSocialLevies: number;
+  acreShareOfRevenue: number;
+  acreReduction: number;
+  // Overall rates, weighted by the revenue of each line
+  allowanceRate: number;
+  urssafSocialRate: number;
+  cfpRate: number;
+}
+
+function weightedRate(amount: number, revenue: number, fallbackRate: number): number {
+  return revenue > 0 ? parseFloat((amount / revenue).toFixed(4)) : fallbackRate;
+}
+
+/**
+ * Applies to each revenue line its abattement and its URSSAF rates, with the ACRE reduced rate on the revenue
+ * earned during the first four quarters of activity. The minimum abattement applies to the business as a whole.
+ * A location meublée non professionnelle pays no URSSAF contributions but the prélèvements sociaux on its revenue after abattement.
+ */
+function calculateMicroRevenue(revenueLines: RevenueLine[], options: RegimeOptions, fiscalYear: FiscalYear): MicroRevenue {
+  const { micro, social } = getFiscalParameters(fiscalYear);
+  const acreShareOfRevenue = options.acre ? getMicroAcreShareOfRevenue(options.creationDate, fiscalYear) : 0;
+
+  const lines = revenueLines.map((line) => {
+    const revenue = Math.max(0, line.annualRevenue);
+    const rates = getMicroRates(line.activityType, fiscalYear);
+    const acreReduction = revenue * rates.urssafSocialRate * social.acre.microReductionRate * acreShareOfRevenue;
+    return {
+      activityType: line.activityType,
+      revenue,
+      allowanceRate: rates.allowanceRate,
+      allowance: revenue * rates.allowanceRate,
+      urssafSocialContributionsRate: rates.urssafSocialRate,
+      urssafSocialContributions: revenue * rates.urssafSocialRate - acreReduction,
+      cfpRate: rates.cfpRate,
+      cfpContribution: revenue * rates.cfpRate,
+      acreReduction,
+      rentalSocialLevyRate: rates.nonProfessionalRental ? micro.rentalSocialLevyRate : 0,
+      rentalSocialLevies: 0,
+    };
+  });
+
+  const revenue = getTotalRevenue(revenueLines);
+  const sum = (pick: (line: MicroRevenueLineResult) => number) => lines.reduce((total, line) => total + pick(line), 0);
+  const percentageAllowance = sum((line) => line.allowance);
+  const allowance = Math.min(revenue, Math.max(percentageAllowance, micro.minAllowance));
+  // The minimum abattement is spread over the lines in proportion to their revenue
+  if (revenue > 0 && allowance !== percentageAllowance) {
+    lines.forEach((line) => { line.allowance = allowance * line.revenue / revenue; });
   }
+  lines.forEach((line) => { line.rentalSocialLevies = (line.revenue - line.allowance) * line.rentalSocialLevyRate; });
+  const urssafSocialContributions = sum((line) => line.urssafSocialContributions);
+  const cfpContribution = sum((line) => line.cfpContribution);
+  const acreReduction = sum((line) => line.acreReduction);
+  const rentalSocialLevies = sum((line) => line.rentalSocialLevies);
+  const mainRates = getMicroRates(getMainActivityType(revenueLines), fiscalYear);
+
+  return {
+    revenue,
+    lines: lines.map((line) => ({
+      ...line,
+      allowance: parseFloat(line.allowance.toFixed(2)),
+      urssafSocialContributions: parseFloat(line.urssafSocialContributions.toFixed(2)),
+      cfpContribution: parseFloat(line.cfpContribution.toFixed(2)),
+      acreReduction: parseFloat(line.acreReduction.toFixed(2)),
+      rentalSocialLevies: parseFloat(line.rentalSocialLevies.toFixed(2)),
+    })),
+    allowance,
+    urssafSocialContributions,
+    cfpContribution,
+    totalUrssafContributions: urssafSocialContributions + cfpContribution,
+    rentalSocialLevies,
+    acreShareOfRevenue,
+    acreReduction,
+    allowanceRate: weightedRate(percentageAllowance, revenue, mainRates.allowanceRate),
+    urssafSocialRate: weightedRate(urssafSocialContributions + acreReduction, revenue, mainRates.urssafSocialRate),
+    cfpRate: weightedRate(cfpContribution, revenue, mainRates.cfpRate),
+  };
 }
 
 /**
  * Calculates tax details for Régime Micro-Entreprise.
- * Takes into account activity type for allowances and URSSAF rates.
- * @param annualRevenue The annual revenue.
+ * Each revenue line gets the abattement and URSSAF rates of its activity type.
+ * The income tax is computed on the whole foyer; only the increase due to the activity is attributed to it.
+ * @param revenueLines The annual revenue of each activity type of the business.
  * @param annualExpenses The actual annual expenses incurred by the business.
- * @param activityType The type of activity.
+ * @param options The household composition, the fiscal year of the parameters to apply, the réductions d'impôt, the other income of the foyer, the ACRE and the commune of the CFE.
  * @returns An object containing detailed tax and contribution calculations.
  */
-export function calculateMicroRegimeTax(annualRevenue: number, annualExpenses: number, activityType: ActivityType): MicroRegimeResult {
-  const revenue = Math.max(0, annualRevenue);
+export function calculateMicroRegimeTax(revenueLines: RevenueLine[], annualExpenses: number, options: RegimeOptions = {}): MicroRegimeResult {
+  const fiscalYear = options.fiscalYear ?? DEFAULT_FISCAL_YEAR;
   const expenses = Math.max(0, annualExpenses); // Ensure expenses are not negative
-  const rates = getMicroRates(activityType);
+  const micro = calculateMicroRevenue(revenueLines, options, fiscalYear);
+  const { revenue } = micro;
 
-  const percentageAllowance = revenue * rates.allowanceRate;
-  const effectiveAllowance = Math.min(revenue, Math.max(percentageAllowance, rates.minAllowance));
-  let taxableIncomeForTax = revenue - effectiveAllowance;
+  let taxableIncomeForTax = revenue - micro.allowance;
   if (taxableIncomeForTax < 0) {
     taxableIncomeForTax = 0;
   }
-  const taxAmount = calculateIncomeTax(taxableIncomeForTax);
+  const { incomeTaxDetails, otherTaxableIncome, householdTaxWithoutActivity, taxAmount } = calculateActivityIncomeTax(taxableIncomeForTax, options);
 
-  const urssafSocialContributions = revenue * rates.urssafSocialRate;
-  const cfpContribution = revenue * rates.cfpRate;
-  const totalUrssafContributions = urssafSocialContributions + cfpContribution;
+  const cfe = calculateCfe(revenue, options.cfe ?? DEFAULT_CFE_SETTINGS, fiscalYear, options.creationDate);
 
-  // For realistic net income, deduct actual expenses, tax, and social contributions
-  const netIncomeAfterAll = revenue - expenses - taxAmount - totalUrssafContributions;
+  // For realistic net income, deduct actual expenses, tax, social contributions and the CFE
+  const netIncomeAfterAll = revenue - expenses - taxAmount - micro.totalUrssafContributions - micro.rentalSocialLevies - cfe.amount;
 
   return {
+    fiscalYear,
+    fiscalParts: incomeTaxDetails.fiscalParts,
+    revenue: parseFloat(revenue.toFixed(2)),
+    lines: micro.lines,
     taxableIncome: parseFloat(taxableIncomeForTax.toFixed(2)),
     taxAmount,
-    allowanceApplied: parseFloat(effectiveAllowance.toFixed(2)),
-    allowanceRate: rates.allowanceRate,
-    urssafSocialContributionsRate: rates.urssafSocialRate,
-    cfpRate: rates.cfpRate,
-    urssafSocialContributions: parseFloat(urssafSocialContributions.toFixed(2)),
-    cfpContribution: parseFloat(cfpContribution.toFixed(2)),
-    totalUrssafContributions: parseFloat(totalUrssafContributions.toFixed(2)),
+    incomeTaxDetails,
+    otherTaxableIncome,
+    householdTaxWithoutActivity,
+    allowanceApplied: parseFloat(micro.allowance.toFixed(2)),
+    allowanceRate: micro.allowanceRate,
+    urssafSocialContributionsRate: micro.urssafSocialRate,
+    cfpRate: micro.cfpRate,
+    urssafSocialContributions: parseFloat(micro.urssafSocialContributions.toFixed(2)),
+    cfpContribution: parseFloat(micro.cfpContribution.toFixed(2)),
+    totalUrssafContributions: parseFloat(micro.totalUrssafContributions.toFixed(2)),
+    rentalSocialLevies: parseFloat(micro.rentalSocialLevies.toFixed(2)),
+    acreShareOfRevenue: parseFloat(micro.acreShareOfRevenue.toFixed(4)),
+    acreReduction: parseFloat(micro.acreReduction.toFixed(2)),
+    cfe,
+    netIncomeAfterAll: parseFloat(netIncomeAfterAll.toFixed(2)),
+  };
+}
+
+export interface MicroLiberatoireRevenueLineResult extends MicroRevenueLineResult {
+  versementLiberatoireRate: number;
+  versementLiberatoire: number;
+}
+
+export interface MicroLiberatoireRegimeResult {
+  fiscalYear: FiscalYear; // Year of the parameter set used
+  fiscalParts: number;
+  revenue: number;
+  lines: MicroLiberatoireRevenueLineResult[];
+  eligible: boolean;              // RFR N-2 within the limit for the foyer, and no location meublée non professionnelle
+  nonProfessionalRental: boolean; // The option is closed to a location meublée non professionnelle
+  referenceIncomeN2: number;
+  referenceIncomeLimit: number;   // Plafond du RFR N-2 for the number of parts
+  versementLiberatoireRate: number; // Overall rate, weighted by the revenue of each line
+  versementLiberatoire: number;
+  effectiveRateIncome: number;    // CA après abattement, retained for the taux effectif
+  otherIncomeTaxWithoutActivity: number;
+  otherIncomeTaxWithActivity: number;
+  effectiveRateTaxIncrease: number; // Extra IR on the other income due to the taux effectif
+  taxAmount: number;              // Versement libératoire + effectiveRateTaxIncrease
+  urssafSocialContributionsRate: number;
+  cfpRate: number;
+  urssafSocialContributions: number;
+  cfpContribution: number;
+  totalUrssafContributions: number;
+  rentalSocialLevies: number;
+  acreShareOfRevenue: number;
+  acreReduction: number;
+  cfe: CfeResult;
+  netIncomeAfterAll: number;
+}
+
+/**
+ * Calculates tax details for Régime Micro-Entreprise with the versement libératoire option.
+ * The income tax on the activity is replaced by a flat rate on revenue, but the revenue after
+ * abattement is still retained to compute the rate applied to the other income of the foyer (taux effectif).
+ * @param revenueLines The annual revenue of each activity type of the business.
+ * @param annualExpenses The actual annual expenses incurred by the business.
+ * @param options The household composition, the fiscal year, the other income of the foyer, its RFR N-2, the ACRE and the commune of the CFE.
+ * @returns An object containing the versement libératoire, its eligibility and the contributions.
+ */
+export function calculateMicroLiberatoireRegimeTax(revenueLines: RevenueLine[], annualExpenses: number, options: RegimeOptions = {}): MicroLiberatoireRegimeResult {
+  const household = options.household ?? DEFAULT_HOUSEHOLD;
+  const fiscalYear = options.fiscalYear ?? DEFAULT_FISCAL_YEAR;
+  const { versementLiberatoire: vlParameters } = getFiscalParameters(fiscalYear).micro;
+  const expenses = Math.max(0, annualExpenses);
+  const otherTaxableIncome = calculateOtherTaxableIncome(options.otherIncome ?? NO_OTHER_INCOME, fiscalYear);
+  const referenceIncomeN2 = Math.max(0, options.referenceIncomeN2 ?? 0);
+  const micro = calculateMicroRevenue(revenueLines, options, fiscalYear);
+  const { revenue } = micro;
+  const fiscalParts = calculateFiscalParts(household);
+
+  const referenceIncomeLimit = vlParameters.referenceIncomeLimitPerPart * fiscalParts;
+  const nonProfessionalRental = micro.lines.some((line) => line.rentalSocialLevyRate > 0);
+  const eligible = referenceIncomeN2 <= referenceIncomeLimit && !nonProfessionalRental;
+
+  const lines = micro.lines.map((line) => {
+    const versementLiberatoireRate = vlParameters.rates[line.activityType];
+    return { ...line, versementLiberatoireRate, versementLiberatoire: parseFloat((line.revenue * versementLiberatoireRate).toFixed(2)) };
+  });
+  const versementLiberatoire = lines.reduce((sum, line) => sum + line.revenue * line.versementLiberatoireRate, 0);
+  const versementLiberatoireRate = weightedRate(versementLiberatoire, revenue, vlParameters.rates[getMainActivityType(revenueLines)]);
+
+  const effectiveRateIncome = revenue - micro.allowance;
+
+  // Taux effectif: tax on the whole income, prorated to the share of the other income.
+  // The réductions d'impôt are imputed after the proration, and the same way on the tax without the activity
+  const taxReductions = Math.max(0, options.taxReductions ?? 0);
+  const otherIncomeTaxWithoutActivity = Math.max(0, calculateIncomeTax(otherTaxableIncome, household, fiscalYear) - taxReductions);
+  let otherIncomeTaxWithActivity = 0;
+  if (otherTaxableIncome > 0) {
+    const totalIncome = otherTaxableIncome + effectiveRateIncome;
+    const taxOnTotalIncome = calculateIncomeTax(totalIncome, household, fiscalYear);
+    otherIncomeTaxWithActivity = Math.max(0, taxOnTotalIncome * (otherTaxableIncome / totalIncome) - taxReductions);
+  }
+  const effectiveRateTaxIncrease = Math.max(0, otherIncomeTaxWithActivity - otherIncomeTaxWithoutActivity);
+  const taxAmount = versementLiberatoire + effectiveRateTaxIncrease;
+
+  const cfe = calculateCfe(revenue, options.cfe ?? DEFAULT_CFE_SETTINGS, fiscalYear, options.creationDate);
+  const netIncomeAfterAll = revenue - expenses - taxAmount - micro.totalUrssafContributions - micro.rentalSocialLevies - cfe.amount;
+
+  return {
+    fiscalYear,
+    fiscalParts,
+    revenue: parseFloat(revenue.toFixed(2)),
+    lines,
+    eligible,
+    nonProfessionalRental,
+    referenceIncomeN2,
+    referenceIncomeLimit: parseFloat(referenceIncomeLimit.toFixed(2)),
+    versementLiberatoireRate,
+    versementLiberatoire: parseFloat(versementLiberatoire.toFixed(2)),
+    effectiveRateIncome: parseFloat(effectiveRateIncome.toFixed(2)),
+    otherIncomeTaxWithoutActivity: parseFloat(otherIncomeTaxWithoutActivity.toFixed(2)),
+    otherIncomeTaxWithActivity: parseFloat(otherIncomeTaxWithActivity.toFixed(2)),
+    effectiveRateTaxIncrease: parseFloat(effectiveRateTaxIncrease.toFixed(2)),
+    taxAmount: parseFloat(taxAmount.toFixed(2)),
+    urssafSocialContributionsRate: micro.urssafSocialRate,
+    cfpRate: micro.cfpRate,
+    urssafSocialContributions: parseFloat(micro.urssafSocialContributions.toFixed(2)),
+    cfpContribution: parseFloat(micro.cfpContribution.toFixed(2)),
+    totalUrssafContributions: parseFloat(micro.totalUrssafContributions.toFixed(2)),
+    rentalSocialLevies: parseFloat(micro.rentalSocialLevies.toFixed(2)),
+    acreShareOfRevenue: parseFloat(micro.acreShareOfRevenue.toFixed(4)),
+    acreReduction: parseFloat(micro.acreReduction.toFixed(2)),
+    cfe,
     netIncomeAfterAll: parseFloat(netIncomeAfterAll.toFixed(2)),
   };
 }
 
 export interface ReelRegimeResult {
-  taxableIncome: number; // Profit AFTER social contributions, base for IR
-  taxAmount: number;     // IR on taxableIncome
-  estimatedSocialContributionsRate: number; // e.g. 0.45 (rate on profit after SC)
-  estimatedSocialContributions: number;     // Calculated SC
-  netIncomeAfterAllContributions: number; // Final net: taxableIncome - taxAmount
+  fiscalYear: FiscalYear; // Year of the parameter set used
+  fiscalParts: number;
+  profitBeforeContributions: number; // Revenue - expenses - CFE, negative for a loss
+  professionalIncome: number; // Revenu professionnel: profit after the deductible contributions, negative for a deficit
+  taxableIncome: number; // Revenu professionnel + CSG non déductible and CRDS, base for IR, 0 for a deficit
+  taxAmount: number;     // IR attributable to the activity, negative when its deficit lowers the tax on the other income
+  deficits: DeficitImputationResult; // Deficit of the year and deficits carried forward
+  deficitTaxSaving: number; // IR saved thanks to the imputation of the deficits
+  cfe: CfeResult;            // Cotisation foncière des entreprises, deducted as an expense
+  incomeTaxDetails: IncomeTaxDetails; // Liquidation of the whole foyer
+  otherTaxableIncome: number;
+  householdTaxWithoutActivity: number;
+  socialContributions: SocialContributionLine[]; // Each contribution line, after the ACRE exemption
+  pensionFund?: LiberalPensionFund;         // Caisse de retraite, undefined when the pension is paid to the SSI
+  pensionClasses: PensionFundClassChoices;  // Classes applied by the caisse
+  minimumContributionsApplied: boolean;     // Cotisations minimales due on the assiettes minimales
+  retirementQuartersValidated: number;      // Trimestres de retraite de base validated
+  totalSocialContributions: number;
+  acreExemption: number;                    // Contributions exempted thanks to the ACRE
+  netIncomeAfterAllContributions: number; // Final net: profit - social contributions - taxAmount
 }
 
 /**
  * Calculates tax details for Régime Réel.
- * Taxable income is annual revenue minus annual expenses, AFTER deduction of estimated social contributions.
- * Social contributions are estimated based on profit after these same contributions are deducted.
+ * Social contributions are computed line by line on the revenu professionnel (profit after these same contributions),
+ * and the taxable income is the revenu professionnel plus the non-deductible CSG and CRDS.
+ * The CFE is deducted from the profit. With a loss or a low profit, the cotisations minimales remain due. A deficit is deducted from the other income
+ * of the foyer and the rest carried forward; the deficits of previous years are deducted from the revenu global.
+ * The income tax is computed on the whole foyer; only the increase due to the activity is attributed to it.
  * @param annualRevenue The annual revenue.
  * @param annualExpenses The annual expenses.
- * @returns An object containing taxable income, tax amount, and estimated social contributions.
+ * @param activityType The type of activity.
+ * @param options The household composition, the fiscal year of the parameters to apply, the réductions d'impôt, the other income of the foyer, the ACRE, the caisse de retraite, the deficits carried forward and the commune of the CFE.
+ * @returns An object containing taxable income, tax amount, each social contribution line and the deficits.
  */
-export function calculateReelRegimeTax(annualRevenue: number, annualExpenses: number): ReelRegimeResult {
+export function calculateReelRegimeTax(annualRevenue: number, annualExpenses: number, activityType: ActivityType, options: RegimeOptions = {}): ReelRegimeResult {
+  const fiscalYear = options.fiscalYear ?? DEFAULT_FISCAL_YEAR;
   const revenue = Math.max(0, annualRevenue);
   const expenses = Math.max(0, annualExpenses);
-  const socialContributionRateFactor = 0.45; // The 45% rate applied to (Profit - SC)
 
-  let profitBeforeSC = revenue - expenses;
-  if (profitBeforeSC < 0) {
-    profitBeforeSC = 0;
-  }
+  // The CFE is a deductible expense; a loss is kept: the cotisations minimales remain due and increase it
+  const cfe = calculateCfe(revenue, options.cfe ?? DEFAULT_CFE_SETTINGS, fiscalYear, options.creationDate);
+  const profitBeforeSC = revenue - expenses - cfe.amount;
 
-  // Social contributions (SC) are 'socialContributionRateFactor' of (profitBeforeSC - SC)
-  // So, SC = profitBeforeSC * socialContributionRateFactor / (1 + socialContributionRateFactor)
-  const estimatedSocialContributions = (profitBeforeSC > 0) 
-    ? (profitBeforeSC / (1 + socialContributionRateFactor)) * socialContributionRateFactor 
-    : 0;
+  const contributions = calculateTnsContributions(profitBeforeSC, activityType, {
+    fiscalYear,
+    creationDate: options.creationDate,
+    acre: options.acre,
+    pensionFund: options.pensionFund,
+    pensionClasses: options.pensionClasses,
+  });
 
-  // Taxable income for IR is profit after social contributions are deducted
-  let taxableIncomeForIR = profitBeforeSC - estimatedSocialContributions;
-  if (taxableIncomeForIR < 0) { 
-    taxableIncomeForIR = 0;
-  }
-  
-  const taxAmount = calculateIncomeTax(taxableIncomeForIR);
-  
-  const netIncomeAfterAll = taxableIncomeForIR - taxAmount;
+  // Taxable income for IR: the non-deductible CSG and CRDS are added back to the revenu professionnel
+  const activityResult = contributions.professionalIncome + contributions.nonDeductibleContributions;
+  const taxableIncomeForIR = Math.max(0, activityResult);
+
+  // Tax as if the deficits were lost, then with their imputation on the revenu global
+  const withoutDeficits = calculateActivityIncomeTax(taxableIncomeForIR, options);
+  const { otherTaxableIncome, householdTaxWithoutActivity } = withoutDeficits;
+  const deficits = imputeProfessionalDeficits(activityResult, otherTaxableIncome, options.deficitsCarriedForward, fiscalYear);
+  const { incomeTaxDetails } = calculateActivityIncomeTax(deficits.globalIncome - otherTaxableIncome, options);
+  const taxAmount = parseFloat((incomeTaxDetails.totalTax - householdTaxWithoutActivity).toFixed(2));
+
+  const netIncomeAfterAll = profitBeforeSC - contributions.totalContributions - taxAmount;
 
   return {
+    fiscalYear,
+    fiscalParts: incomeTaxDetails.fiscalParts,
+    profitBeforeContributions: parseFloat(profitBeforeSC.toFixed(2)),
+    professionalIncome: contributions.professionalIncome,
     taxableIncome: parseFloat(taxableIncomeForIR.toFixed(2)),
     taxAmount,
-    estimatedSocialContributionsRate: socialContributionRateFactor,
-    estimatedSocialContributions: parseFloat(estimatedSocialContributions.toFixed(2)),
+    deficits,
+    deficitTaxSaving: parseFloat(Math.max(0, withoutDeficits.taxAmount - taxAmount).toFixed(2)),
+    cfe,
+    incomeTaxDetails,
+    otherTaxableIncome,
+    householdTaxWithoutActivity,
+    socialContributions: contributions.lines,
+    pensionFund: contributions.pensionFund,
+    pensionClasses: contributions.pensionClasses,
+    minimumContributionsApplied: contributions.minimumContributionsApplied,
+    retirementQuartersValidated: contributions.retirementQuartersValidated,
+    totalSocialContributions: contributions.totalContributions,
+    acreExemption: contributions.acreExemption,
     netIncomeAfterAllContributions: parseFloat(netIncomeAfterAll.toFixed(2)),
   };
 }
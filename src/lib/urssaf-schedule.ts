@@ -0,0 +1,294 @@
+// src/lib/urssaf-schedule.ts
+
+import { parseIsoDate } from '@/lib/business-creation';
+import { DEFAULT_FISCAL_YEAR, type FiscalYear } from '@/lib/fiscal-parameters';
+import { getMonthlyShares, spreadOverMonths } from '@/lib/monthly-amounts';
+import { calculateStartupProvisionalContributions, calculateTnsContributions } from '@/lib/social-contributions';
+import type { ActivityType, MicroRegimeResult, RegimeOptions } from '@/lib/tax-calculator';
+
+// MONTHLY: micro declarations every month, réel cotisations provisionnelles on the 5th of each month;
+// QUARTERLY: micro declarations every quarter, réel échéances on 5 February, May, August and November
+export type UrssafPaymentFrequency = "MONTHLY" | "QUARTERLY";
+
+export interface UrssafScheduleSettings {
+  frequency: UrssafPaymentFrequency;
+}
+
+export const DEFAULT_URSSAF_SCHEDULE_SETTINGS: UrssafScheduleSettings = {
+  frequency: "MONTHLY",
+};
+
+// DECLARATION: micro contributions on the revenue cashed over the period; PROVISIONAL: cotisations provisionnelles of
+// the réel; REGULARISATION: solde of the réel once the income is declared; REFUND: excess of provisionnelles paid back
+export type UrssafPaymentKind = "DECLARATION" | "PROVISIONAL" | "REGULARISATION" | "REFUND";
+
+export interface UrssafPayment {
+  date: string;               // Due date (YYYY-MM-DD)
+  kind: UrssafPaymentKind;
+  periodStart: string | null; // First month declared (YYYY-MM), micro only
+  periodEnd: string | null;   // Last month declared (YYYY-MM)
+  revenue: number;            // Chiffre d'affaires declared, 0 for the réel
+  amount: number;             // Negative for a refund
+}
+
+/**
+ * Payments of the contributions of the year to the URSSAF for one regime.
+ */
+export interface UrssafSchedule {
+  totalContributions: number;      // Contributions of the year, once regularized
+  provisionalContributions: number; // Cotisations provisionnelles called during the year, equal to the total in micro
+  regularization: number;          // Solde paid the following year, negative for a refund
+  paidInYear: number;
+  paidNextYear: number;
+  payments: UrssafPayment[];       // Dated schedule, oldest first
+}
+
+/**
+ * Cash paid to the URSSAF in one month.
+ */
+export interface UrssafCashFlowMonth {
+  month: string;  // YYYY-MM
+  revenue: number; // Chiffre d'affaires cashed, 0 after the simulated year
+  micro: number;
+  reel: number | null;
+}
+
+export interface UrssafCashFlowResult {
+  settings: UrssafScheduleSettings;
+  monthlyRevenue: number[];      // Chiffre d'affaires of each month of the year, summing to the annual revenue
+  micro: UrssafSchedule;
+  reel: UrssafSchedule | null;   // Null for a location meublée non professionnelle, whose prélèvements sociaux go with the IR
+  startupProvisionalBase: boolean; // Cotisations provisionnelles of the réel on the assiette forfaitaire of the creation year
+  months: UrssafCashFlowMonth[]; // From January of the year to the last payment
+}
+
+/**
+ * Income of the réel, taken from its result.
+ */
+export interface UrssafReelIncome {
+  revenue: number;
+  profitBeforeContributions: number; // Profit before social contributions, base of the cotisations provisionnelles
+  totalContributions: number;
+  activityType: ActivityType;
+}
+
+export interface UrssafScheduleOptions extends RegimeOptions {
+  previousYearRevenue?: number; // Chiffre d'affaires of the last year declared, base of the cotisations provisionnelles
+  monthlyRevenue?: number[];    // Chiffre d'affaires of each month, spread evenly over the activity when missing
+}
+
+// Months are counted from year 0 so that periods can run over two years
+function toMonthIndex(year: number, month: number): number {
+  return year * 12 + month;
+}
+
+function formatMonth(monthIndex: number): string {
+  return `${Math.floor(monthIndex / 12)}-${String((monthIndex % 12) + 1).padStart(2, "0")}`;
+}
+
+function formatDay(monthIndex: number, day: number): string {
+  return `${formatMonth(monthIndex)}-${String(day).padStart(2, "0")}`;
+}
+
+function lastDayOf(monthIndex: number): string {
+  return formatDay(monthIndex, new Date(Date.UTC(Math.floor(monthIndex / 12), (monthIndex % 12) + 1, 0)).getUTCDate());
+}
+
+function quarterEndOf(monthIndex: number): number {
+  return monthIndex - (monthIndex % 3) + 2;
+}
+
+function sumAmounts(amounts: number[]): number {
+  return parseFloat(amounts.reduce((sum, amount) => sum + amount, 0).toFixed(2));
+}
+
+/**
+ * Spreads an annual amount over the due dates, the rounding difference going to the last one.
+ */
+function spreadAmount(amount: number, dates: string[], kind: UrssafPaymentKind): UrssafPayment[] {
+  const installment = parseFloat((amount / dates.length).toFixed(2));
+  return dates.map((date, index) => ({
+    date,
+    kind,
+    periodStart: null,
+    periodEnd: null,
+    revenue: 0,
+    amount: index === dates.length - 1 ? parseFloat((amount - installment * (dates.length - 1)).toFixed(2)) : installment,
+  }));
+}
+
+/**
+ * Micro: the contributions are declared and paid at the end of the month following each month or quarter, on the
+ * revenue cashed. The first declaration covers the creation up to the end of the third month (or of the quarter)
+ * following it. The reduced rate of the ACRE applies to the months of its four quarters.
+ */
+function calculateMicroSchedule(
+  micro: MicroRegimeResult,
+  monthlyRevenue: number[],
+  frequency: UrssafPaymentFrequency,
+  fiscalYear: FiscalYear,
+  creationDate: string | undefined
+): UrssafSchedule {
+  const creation = parseIsoDate(creationDate);
+  const creationMonth = creation === undefined ? undefined : toMonthIndex(new Date(creation).getUTCFullYear(), new Date(creation).getUTCMonth());
+  const firstMonth = Math.max(toMonthIndex(fiscalYear, 0), creationMonth ?? 0);
+  const lastMonth = toMonthIndex(fiscalYear, 11);
+
+  const fullRate = micro.revenue > 0 ? (micro.totalUrssafContributions + micro.acreReduction) / micro.revenue : 0;
+  const acreRevenue = micro.acreShareOfRevenue * micro.revenue;
+  const acreReductionRate = acreRevenue > 0 ? micro.acreReduction / acreRevenue : 0;
+  const acreEnd = creationMonth === undefined ? -1 : quarterEndOf(creationMonth) + 9;
+
+  const firstPeriodEnd = creationMonth === undefined
+    ? -1
+    : frequency === "MONTHLY" ? creationMonth + 3 : quarterEndOf(creationMonth) + 3;
+  const payments: UrssafPayment[] = [];
+  for (let month = firstMonth; month <= lastMonth; month++) {
+    const periodEnd = month <= firstPeriodEnd ? firstPeriodEnd : frequency === "MONTHLY" ? month : quarterEndOf(month);
+    const revenue = monthlyRevenue[month % 12] ?? 0;
+    const amount = revenue * (fullRate - (month <= acreEnd ? acreReductionRate : 0));
+    const date = lastDayOf(periodEnd + 1);
+    const payment = payments.find((candidate) => candidate.date === date);
+    if (payment) {
+      payment.periodEnd = formatMonth(month);
+      payment.revenue += revenue;
+      payment.amount += amount;
+    } else {
+      payments.push({ date, kind: "DECLARATION", periodStart: formatMonth(month), periodEnd: formatMonth(month), revenue, amount });
+    }
+  }
+  const roundedPayments = payments.map((payment) => ({
+    ...payment,
+    revenue: parseFloat(payment.revenue.toFixed(2)),
+    amount: parseFloat(payment.amount.toFixed(2)),
+  }));
+  const totalContributions = sumAmounts(roundedPayments.map((payment) => payment.amount));
+
+  return {
+    totalContributions,
+    provisionalContributions: totalContributions,
+    regularization: 0,
+    paidInYear: sumAmounts(roundedPayments.filter((payment) => payment.date < `${fiscalYear + 1}`).map((payment) => payment.amount)),
+    paidNextYear: sumAmounts(roundedPayments.filter((payment) => payment.date >= `${fiscalYear + 1}`).map((payment) => payment.amount)),
+    payments: roundedPayments,
+  };
+}
+
+/**
+ * Réel: the cotisations provisionnelles of the year are called on the revenu of the last year declared, or on the
+ * assiette forfaitaire in the year of creation from the fourth month of activity, then regularized on the income of
+ * the year once declared: paid over the échéances from September to December of the following year, or refunded.
+ */
+function calculateReelSchedule(
+  income: UrssafReelIncome,
+  frequency: UrssafPaymentFrequency,
+  options: UrssafScheduleOptions,
+  fiscalYear: FiscalYear,
+  startupProvisionalBase: boolean
+): UrssafSchedule {
+  const contributionOptions = {
+    fiscalYear,
+    creationDate: options.creationDate,
+    acre: options.acre,
+    pensionFund: options.pensionFund,
+    pensionClasses: options.pensionClasses,
+  };
+  const revenueRatio = options.previousYearRevenue !== undefined && income.revenue > 0
+    ? Math.max(0, options.previousYearRevenue) / income.revenue
+    : 1;
+  const provisional = startupProvisionalBase
+    ? calculateStartupProvisionalContributions(income.activityType, contributionOptions)
+    : revenueRatio === 1
+      ? income.totalContributions
+      : calculateTnsContributions(income.profitBeforeContributions * revenueRatio, income.activityType, contributionOptions).totalContributions;
+  const provisionalContributions = parseFloat(provisional.toFixed(2));
+  const regularization = parseFloat((income.totalContributions - provisionalContributions).toFixed(2));
+
+  const creation = parseIsoDate(options.creationDate);
+  const firstDueMonth = startupProvisionalBase && creation !== undefined
+    ? toMonthIndex(fiscalYear, new Date(creation).getUTCMonth() + 4)
+    : toMonthIndex(fiscalYear, 0);
+  const dueMonths = frequency === "MONTHLY" ? [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11] : [1, 4, 7, 10];
+  const provisionalDates = dueMonths
+    .map((month) => toMonthIndex(fiscalYear, month))
+    .filter((month) => month >= firstDueMonth)
+    .map((month) => formatDay(month, 5));
+  const regularizationDates = (frequency === "MONTHLY" ? [8, 9, 10, 11] : [7, 10]).map((month) => formatDay(toMonthIndex(fiscalYear + 1, month), 5));
+
+  const payments: UrssafPayment[] = [];
+  if (provisionalContributions > 0) {
+    // Created too late in the year for an échéance, the provisionnelles are called with the first one of the next year
+    payments.push(...spreadAmount(
+      provisionalContributions,
+      provisionalDates.length > 0 ? provisionalDates : [formatDay(toMonthIndex(fiscalYear + 1, dueMonths[0]), 5)],
+      "PROVISIONAL"
+    ));
+  }
+  if (regularization > 0) {
+    payments.push(...spreadAmount(regularization, regularizationDates, "REGULARISATION"));
+  } else if (regularization < 0) {
+    payments.push(...spreadAmount(regularization, regularizationDates.slice(0, 1), "REFUND"));
+  }
+
+  return {
+    totalContributions: income.totalContributions,
+    provisionalContributions,
+    regularization,
+    paidInYear: sumAmounts(payments.filter((payment) => payment.date < `${fiscalYear + 1}`).map((payment) => payment.amount)),
+    paidNextYear: sumAmounts(payments.filter((payment) => payment.date >= `${fiscalYear + 1}`).map((payment) => payment.amount)),
+    payments,
+  };
+}
+
+/**
+ * Builds the calendar of the payments to the URSSAF of the micro and of the réel for the contributions of the year.
+ * The monthly revenue entered sets how the revenue of the year is spread, its total being brought back to the
+ * chiffre d'affaires of the simulation; without it the revenue is spread evenly over the days of activity.
+ * @param micro The result of the micro.
+ * @param reel The income and contributions of the réel, null when it pays no contributions to the URSSAF.
+ * @param settings The frequency of the declarations and échéances.
+ * @param options The fiscal year, the creation date, the ACRE, the caisse de retraite, the previous year's chiffre d'affaires and the monthly revenue.
+ * @returns The payments of each regime and the amounts paid each month.
+ */
+export function calculateUrssafCashFlow(
+  micro: MicroRegimeResult,
+  reel: UrssafReelIncome | null,
+  settings: UrssafScheduleSettings = DEFAULT_URSSAF_SCHEDULE_SETTINGS,
+  options: UrssafScheduleOptions = {}
+): UrssafCashFlowResult {
+  const fiscalYear = options.fiscalYear ?? DEFAULT_FISCAL_YEAR;
+  const monthlyRevenue = spreadOverMonths(micro.revenue, getMonthlyShares(options.monthlyRevenue, options.creationDate, fiscalYear));
+
+  const creation = parseIsoDate(options.creationDate);
+  const startupProvisionalBase = creation !== undefined && new Date(creation).getUTCFullYear() >= fiscalYear;
+  const microSchedule = calculateMicroSchedule(micro, monthlyRevenue, settings.frequency, fiscalYear, options.creationDate);
+  const reelSchedule = reel && calculateReelSchedule(reel, settings.frequency, options, fiscalYear, startupProvisionalBase);
+
+  const lastPayment = [...microSchedule.payments, ...(reelSchedule?.payments ?? [])].reduce(
+    (last, payment) => (payment.date > last ? payment.date : last),
+    `${fiscalYear}-12-31`
+  );
+  const lastMonth = toMonthIndex(Number(lastPayment.slice(0, 4)), Number(lastPayment.slice(5, 7)) - 1);
+  const paidIn = (payments: UrssafPayment[], month: string) => sumAmounts(
+    payments.filter((payment) => payment.date.startsWith(month)).map((payment) => payment.amount)
+  );
+  const months: UrssafCashFlowMonth[] = [];
+  for (let monthIndex = toMonthIndex(fiscalYear, 0); monthIndex <= lastMonth; monthIndex++) {
+    const month = formatMonth(monthIndex);
+    months.push({
+      month,
+      revenue: monthIndex <= toMonthIndex(fiscalYear, 11) ? monthlyRevenue[monthIndex % 12] : 0,
+      micro: paidIn(microSchedule.payments, month),
+      reel: reelSchedule ? paidIn(reelSchedule.payments, month) : null,
+    });
+  }
+
+  return {
+    settings,
+    monthlyRevenue,
+    micro: microSchedule,
+    reel: reelSchedule,
+    startupProvisionalBase,
+    months,
+  };
+}
@@ -0,0 +1,38 @@
+// src/lib/vat.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { calculateVat, DEFAULT_VAT_SETTINGS } from '@/lib/vat';
+
+describe("calculateVat", () => {
+  // Services in 2024: seuil majoré of 39 100 €, crossed in August with 5 000 € a month (40 000 € cumulated)
+  it("loses the franchise en base from the month the seuil majoré is crossed", () => {
+    const result = calculateVat(
+      [{ activityType: "SERVICE_BIC", annualRevenue: 60000 }], 0, DEFAULT_VAT_SETTINGS,
+      { fiscalYear: 2024, monthlyRevenue: Array(12).fill(5000) }
+    );
+
+    expect(result.status).toBe("LOST_DURING_YEAR");
+    expect(result.franchiseExitMonth).toBe(8);
+    expect(result.liableShareOfYear).toBe(0.4167);
+  });
+
+  it("dates the crossing from an uneven monthly revenue", () => {
+    const result = calculateVat(
+      [{ activityType: "SERVICE_BIC", annualRevenue: 90000 }], 0, DEFAULT_VAT_SETTINGS,
+      { fiscalYear: 2024, monthlyRevenue: [0, 0, 0, 0, 0, 20000, 30000, 30000, 10000, 0, 0, 0] }
+    );
+
+    expect(result.franchiseExitMonth).toBe(7);
+    expect(result.liableShareOfYear).toBe(0.7778);
+  });
+
+  it("keeps the franchise below the seuil majoré", () => {
+    const result = calculateVat(
+      [{ activityType: "SERVICE_BIC", annualRevenue: 39000 }], 0, DEFAULT_VAT_SETTINGS,
+      { fiscalYear: 2024, monthlyRevenue: Array(12).fill(3250) }
+    );
+
+    expect(result.status).toBe("FRANCHISE");
+    expect(result.franchiseExitMonth).toBeNull();
+  });
+});
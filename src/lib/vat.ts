@@ -0,0 +1,253 @@
+// src/lib/vat.ts
+
+import { DEFAULT_FISCAL_YEAR, getFiscalParameters } from '@/lib/fiscal-parameters';
+import { checkMicroEligibility, type EligibilityWarning } from '@/lib/micro-eligibility';
+import { getMonthlyShares, MONTH_LABELS } from '@/lib/monthly-amounts';
+import {
+  calculateMicroRegimeTax,
+  getTotalRevenue,
+  type ActivityType,
+  type RegimeOptions,
+  type RevenueLine,
+} from '@/lib/tax-calculator';
+
+// How the amounts are entered: before TVA (HT) or as paid, TVA included (TTC). Both are equal in franchise en base.
+export type VatAmountBasis = "HT" | "TTC";
+
+// B2B: professional clients recover the TVA, the price HT is kept; B2C: individuals pay the price TTC, which is kept
+export type VatClientele = "B2B" | "B2C";
+
+// FRANCHISE: franchise en base all year; LOST_DURING_YEAR: TVA due from the month the seuil majoré is crossed;
+// LIABLE: TVA due all year (thresholds exceeded two years); OPTION: TVA chosen despite the franchise; EXEMPT: exonérée
+export type VatStatus = "FRANCHISE" | "LOST_DURING_YEAR" | "LIABLE" | "OPTION" | "EXEMPT";
+
+export interface VatSettings {
+  revenueBasis: VatAmountBasis;
+  expenseBasis: VatAmountBasis;
+  expensesSubjectToVatShare: number; // Share of the expenses bearing TVA (insurance, contributions and salaries do not)
+  clientele: VatClientele;
+  optionForVat: boolean;             // Option pour le paiement de la TVA despite the franchise en base
+  exemptActivity: boolean;           // Activity exonérée de TVA (santé, enseignement, formation…)
+}
+
+export const DEFAULT_VAT_SETTINGS: VatSettings = {
+  revenueBasis: "HT",
+  expenseBasis: "TTC",
+  expensesSubjectToVatShare: 1,
+  clientele: "B2C",
+  optionForVat: false,
+  exemptActivity: false,
+};
+
+export interface VatLineResult {
+  activityType: ActivityType;
+  rate: number;              // 0 for an exonérée activity
+  exempt: boolean;
+  enteredRevenue: number;
+  revenue: number;           // Chiffre d'affaires HT kept by the business, base of the taxes and contributions
+  vatCollected: number;
+}
+
+/**
+ * Amounts of the year under one VAT treatment, with the same prices for the clients.
+ */
+export interface VatScenario {
+  revenue: number;           // Chiffre d'affaires HT
+  clientPrice: number;       // What the clients pay, TVA included
+  clientCost: number;        // What it costs them: the price HT for professionals who recover the TVA
+  vatCollected: number;
+  expenses: number;          // Cost of the expenses, TVA not deducted included
+  vatDeductible: number;
+  vatPayable: number;        // TVA collectée - TVA déductible, negative for a crédit de TVA
+  microNetIncome: number;    // Net income in micro under this treatment
+}
+
+export interface VatResult {
+  settings: VatSettings;
+  status: VatStatus;
+  franchiseExitMonth: number | null; // Month (1-12) from which the TVA is due, when the franchise is lost during the year
+  liableShareOfYear: number;         // Share of the revenue of the year subject to TVA
+  deductionRatio: number;            // Share of the TVA on the expenses that can be deducted (exonérée activities excluded)
+  lines: VatLineResult[];
+  revenueLines: RevenueLine[];       // Revenue HT of each activity, fed to the regime calculators
+  revenue: number;
+  expenses: number;                  // Expenses fed to the regime calculators: HT when the TVA is deducted
+  actual: VatScenario;               // Treatment of the simulated year
+  alternative: VatScenario;          // Franchise en base all year if the TVA is due, TVA all year otherwise
+  netIncomeEffect: number;           // Micro net income of the actual treatment - of the alternative
+  warnings: EligibilityWarning[];
+}
+
+export interface VatOptions extends RegimeOptions {
+  previousYearRevenue?: number;
+  monthlyRevenue?: number[]; // Chiffre d'affaires of each month, to date the crossing of the seuil majoré
+}
+
+function formatAmount(value: number): string {
+  return value.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 });
+}
+
+/**
+ * Determines the TVA treatment of the year and its effect on the prices and on the income.
+ * The franchise en base follows the thresholds of the micro regime: it is lost from the month the seuil majoré is
+ * crossed, according to the monthly revenue or spread evenly over the activity, or from January when the seuil is exceeded
+ * two consecutive years. The amounts entered HT or TTC are converted to the chiffre d'affaires HT and the expenses
+ * net of the TVA deducted, which are the bases of the taxes and contributions of every regime.
+ * Comparing with the other treatment, a B2B business keeps its prices HT, a B2C business keeps its prices TTC.
+ * @param revenueLines The revenue of each activity, as entered.
+ * @param annualExpenses The annual expenses, as entered.
+ * @param settings How the amounts are entered, the clientele and the options.
+ * @param options The options of the regime calculators, with the revenue of the previous year and of each month.
+ * @returns The TVA collectée and déductible, the inputs of the regime calculators and the effect on the micro net income.
+ */
+export function calculateVat(
+  revenueLines: RevenueLine[],
+  annualExpenses: number,
+  settings: VatSettings,
+  options: VatOptions = {}
+): VatResult {
+  const fiscalYear = options.fiscalYear ?? DEFAULT_FISCAL_YEAR;
+  const { vat, micro } = getFiscalParameters(fiscalYear);
+  const enteredExpenses = Math.max(0, annualExpenses);
+
+  const rates = revenueLines.map((line) => {
+    const exempt = micro.activities[line.activityType].nonProfessionalRental === true || settings.exemptActivity;
+    return { exempt, rate: exempt ? 0 : vat.activityRates[line.activityType] };
+  });
+  const enteredRevenue = getTotalRevenue(revenueLines);
+  const taxableEnteredRevenue = getTotalRevenue(revenueLines.filter((_, index) => !rates[index].exempt));
+  const deductionRatio = enteredRevenue > 0 ? taxableEnteredRevenue / enteredRevenue : 0;
+
+  const warnings: EligibilityWarning[] = [];
+  const eligibility = checkMicroEligibility(revenueLines, {
+    fiscalYear,
+    previousYearRevenue: options.previousYearRevenue,
+    creationDate: options.creationDate,
+    monthlyRevenue: options.monthlyRevenue,
+  });
+  let status: VatStatus;
+  let franchiseExitMonth: number | null = null;
+  let liableShareOfYear = 1;
+  if (taxableEnteredRevenue === 0) {
+    status = "EXEMPT";
+    liableShareOfYear = 0;
+  } else if (settings.optionForVat) {
+    status = "OPTION";
+  } else if (eligibility.vatFranchiseApplies) {
+    status = "FRANCHISE";
+    liableShareOfYear = 0;
+  } else {
+    const crossingMonths = eligibility.thresholds
+      .filter((check) => check.id === "VAT_FRANCHISE_INCREASED")
+      .map((check) => check.crossingMonth)
+      .filter((month): month is number => month !== null);
+    if (crossingMonths.length > 0) {
+      status = "LOST_DURING_YEAR";
+      franchiseExitMonth = Math.min(...crossingMonths);
+      // The TVA is due on the revenue of the month of the crossing and of the following ones
+      liableShareOfYear = getMonthlyShares(options.monthlyRevenue, options.creationDate, fiscalYear)
+        .slice(franchiseExitMonth - 1)
+        .reduce((sum, share) => sum + share, 0);
+      warnings.push({
+        code: "VAT_FRANCHISE_LOST_DURING_YEAR",
+        level: "warning",
+        message: `Le seuil majoré de franchise en base de TVA est franchi en ${MONTH_LABELS[franchiseExitMonth - 1]} : la TVA est due sur les opérations réalisées à partir de ce mois. Les factures déjà émises ne peuvent pas être majorées de la TVA ; pensez à adapter vos prix dès maintenant.`,
+      });
+    } else {
+      status = "LIABLE";
+    }
+  }
+
+  // Prices of each line with and without TVA; the clientele decides which one is kept from one treatment to the other
+  const linePrices = revenueLines.map((line, index) => {
+    const entered = Math.max(0, line.annualRevenue);
+    const { rate } = rates[index];
+    const keepPriceHt = settings.clientele === "B2B";
+    let franchisePrice: number;
+    let priceHt: number;
+    if (status === "FRANCHISE" || status === "EXEMPT") {
+      franchisePrice = entered;
+      priceHt = keepPriceHt ? entered : entered / (1 + rate);
+    } else {
+      priceHt = settings.revenueBasis === "HT" ? entered : entered / (1 + rate);
+      if (status === "LOST_DURING_YEAR") {
+        franchisePrice = entered;
+      } else {
+        franchisePrice = keepPriceHt ? priceHt : priceHt * (1 + rate);
+      }
+    }
+    return { activityType: line.activityType, rate, entered, franchisePrice, priceHt };
+  });
+
+  const expenseVatRate = vat.expenseRate * Math.min(1, Math.max(0, settings.expensesSubjectToVatShare));
+  const expensesHt = settings.expenseBasis === "HT" ? enteredExpenses : enteredExpenses / (1 + expenseVatRate);
+  const vatOnExpenses = expensesHt * expenseVatRate;
+
+  const buildScenario = (liableShare: number): Omit<VatScenario, "microNetIncome"> & { revenueLines: RevenueLine[] } => {
+    const scenarioLines = linePrices.map((line) => ({
+      activityType: line.activityType,
+      annualRevenue: (1 - liableShare) * line.franchisePrice + liableShare * line.priceHt,
+    }));
+    const vatCollected = linePrices.reduce((sum, line) => sum + liableShare * line.priceHt * line.rate, 0);
+    const revenue = getTotalRevenue(scenarioLines);
+    const clientPrice = revenue + vatCollected;
+    const vatDeductible = vatOnExpenses * deductionRatio * liableShare;
+    const expenses = expensesHt + vatOnExpenses - vatDeductible;
+    return {
+      revenueLines: scenarioLines,
+      revenue: parseFloat(revenue.toFixed(2)),
+      clientPrice: parseFloat(clientPrice.toFixed(2)),
+      clientCost: parseFloat((settings.clientele === "B2B" ? revenue : clientPrice).toFixed(2)),
+      vatCollected: parseFloat(vatCollected.toFixed(2)),
+      expenses: parseFloat(expenses.toFixed(2)),
+      vatDeductible: parseFloat(vatDeductible.toFixed(2)),
+      vatPayable: parseFloat((vatCollected - vatDeductible).toFixed(2)),
+    };
+  };
+  const withMicroNetIncome = ({ revenueLines: lines, ...scenario }: ReturnType<typeof buildScenario>): VatScenario => ({
+    ...scenario,
+    microNetIncome: calculateMicroRegimeTax(lines, scenario.expenses, options).netIncomeAfterAll,
+  });
+
+  const actualScenario = buildScenario(liableShareOfYear);
+  const actual = withMicroNetIncome(actualScenario);
+  const alternative = withMicroNetIncome(buildScenario(status === "FRANCHISE" ? 1 : 0));
+
+  if (status === "FRANCHISE" && settings.clientele === "B2C" && alternative.microNetIncome < actual.microNetIncome) {
+    warnings.push({
+      code: "VAT_FRANCHISE_B2C",
+      level: "info",
+      message: `Avec une clientèle de particuliers, la franchise en base évite de facturer la TVA : à prix TTC inchangés, l'assujettissement réduirait votre revenu net de ${formatAmount(actual.microNetIncome - alternative.microNetIncome)} par an.`,
+    });
+  }
+  if (status !== "FRANCHISE" && status !== "EXEMPT" && actual.vatPayable < 0) {
+    warnings.push({
+      code: "VAT_CREDIT",
+      level: "info",
+      message: `La TVA déductible dépasse la TVA collectée : le crédit de TVA de ${formatAmount(-actual.vatPayable)} est remboursable ou imputable sur les déclarations suivantes.`,
+    });
+  }
+
+  return {
+    settings,
+    status,
+    franchiseExitMonth,
+    liableShareOfYear: parseFloat(liableShareOfYear.toFixed(4)),
+    deductionRatio: parseFloat(deductionRatio.toFixed(4)),
+    lines: linePrices.map((line, index) => ({
+      activityType: line.activityType,
+      rate: line.rate,
+      exempt: rates[index].exempt,
+      enteredRevenue: line.entered,
+      revenue: parseFloat(actualScenario.revenueLines[index].annualRevenue.toFixed(2)),
+      vatCollected: parseFloat((liableShareOfYear * line.priceHt * line.rate).toFixed(2)),
+    })),
+    revenueLines: actualScenario.revenueLines.map((line) => ({ ...line, annualRevenue: parseFloat(line.annualRevenue.toFixed(2)) })),
+    revenue: actual.revenue,
+    expenses: actual.expenses,
+    actual,
+    alternative,
+    netIncomeEffect: parseFloat((actual.microNetIncome - alternative.microNetIncome).toFixed(2)),
+    warnings,
+  };
+}
@@ -0,0 +1,31 @@
+// src/lib/withholding.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { calculateWithholdingSchedule, DEFAULT_WITHHOLDING_SETTINGS, type WithholdingIncome } from '@/lib/withholding';
+
+// No acompte is due in the year of creation: the whole tax of the activity is regularized in N+1
+const OPTIONS = { fiscalYear: 2024 as const, creationDate: "2024-01-01" };
+
+function incomeWithTax(totalTax: number): WithholdingIncome {
+  return { revenue: 30000, activityTaxableIncome: 20000, otherTaxableIncome: 0, globalIncome: 20000, totalTax };
+}
+
+describe("calculateWithholdingSchedule", () => {
+  it("collects a régularisation of 300 € at once in September", () => {
+    const schedule = calculateWithholdingSchedule(incomeWithTax(300), DEFAULT_WITHHOLDING_SETTINGS, OPTIONS);
+
+    expect(schedule.acomptes).toBe(0);
+    expect(schedule.entries).toEqual([{ date: "2025-09-25", kind: "REGULARISATION", amount: 300 }]);
+  });
+
+  it("spreads a régularisation above 300 € from September to December", () => {
+    const schedule = calculateWithholdingSchedule(incomeWithTax(301), DEFAULT_WITHHOLDING_SETTINGS, OPTIONS);
+
+    expect(schedule.entries).toEqual([
+      { date: "2025-09-25", kind: "REGULARISATION", amount: 75.25 },
+      { date: "2025-10-25", kind: "REGULARISATION", amount: 75.25 },
+      { date: "2025-11-25", kind: "REGULARISATION", amount: 75.25 },
+      { date: "2025-12-25", kind: "REGULARISATION", amount: 75.25 },
+    ]);
+  });
+});
@@ -0,0 +1,219 @@
+// src/lib/withholding.ts
+
+import { parseIsoDate } from '@/lib/business-creation';
+import { DEFAULT_FISCAL_YEAR, getFiscalParameters, type FiscalYear } from '@/lib/fiscal-parameters';
+import {
+  DEFAULT_HOUSEHOLD,
+  NO_OTHER_INCOME,
+  calculateBaremeTax,
+  calculateFiscalParts,
+  calculateOtherTaxableIncome,
+  type RegimeOptions,
+} from '@/lib/tax-calculator';
+
+// PERSONNALISE: taux du foyer; INDIVIDUALISE: taux propre à chaque membre d'un couple, the business being run by the
+// déclarant; NEUTRE: taux non personnalisé of the grille, the difference being paid as a versement complémentaire
+export type WithholdingRateOption = "PERSONNALISE" | "INDIVIDUALISE" | "NEUTRE";
+
+// MONTHLY: acomptes on the 15th of each month; QUARTERLY: on 15 February, May, August and November
+export type AcompteFrequency = "MONTHLY" | "QUARTERLY";
+
+export interface WithholdingSettings {
+  rateOption: WithholdingRateOption;
+  frequency: AcompteFrequency;
+}
+
+export const DEFAULT_WITHHOLDING_SETTINGS: WithholdingSettings = {
+  rateOption: "PERSONNALISE",
+  frequency: "MONTHLY",
+};
+
+// ACOMPTE: acompte contemporain on the BIC / BNC; COMPLEMENT: versement complémentaire with the taux neutre;
+// REGULARISATION: solde of the foyer in N+1; REFUND: restitution of the excess in N+1
+export type WithholdingEntryKind = "ACOMPTE" | "COMPLEMENT" | "REGULARISATION" | "REFUND";
+
+export interface WithholdingEntry {
+  date: string;              // Due date (YYYY-MM-DD)
+  kind: WithholdingEntryKind;
+  amount: number;            // Negative for a refund
+}
+
+/**
+ * Income of the year for one regime, taken from its result.
+ */
+export interface WithholdingIncome {
+  revenue: number;               // Chiffre d'affaires of the year, to scale the base on the previous year
+  activityTaxableIncome: number; // Bénéfice imposable of the activity, 0 for a deficit
+  otherTaxableIncome: number;
+  globalIncome: number;          // Revenu global of the foyer, deficits imputed
+  totalTax: number;              // IR of the foyer, activity included
+}
+
+export interface WithholdingOptions extends RegimeOptions {
+  previousYearRevenue?: number; // Chiffre d'affaires of the last year declared, base of the acomptes
+}
+
+/**
+ * Prélèvement à la source of a regime: the rates, the acomptes due during the year and the solde of N+1.
+ */
+export interface WithholdingSchedule {
+  personalizedRate: number;
+  individualizedRate: number | null; // Rate of the déclarant, null outside a couple
+  neutralRate: number;               // Rate of the grille for the monthly acompte base
+  appliedRate: number;
+  acompteBase: number;               // Bénéfice of the last year declared, 0 in the year of creation
+  acomptes: number;
+  complements: number;               // Versements complémentaires due with the taux neutre
+  otherIncomeWithholding: number;    // Withheld on the other income of the foyer
+  totalTax: number;
+  regularization: number;            // Solde due in N+1, negative for a refund
+  entries: WithholdingEntry[];       // Dated schedule, oldest first
+}
+
+/**
+ * Schedule of each regime taxed at the barème; the versement libératoire replaces the acomptes.
+ * The réel is the location meublée when it is simulated.
+ */
+export interface WithholdingResult {
+  settings: WithholdingSettings;
+  micro: WithholdingSchedule;
+  reel: WithholdingSchedule;
+}
+
+function roundRate(value: number): number {
+  return parseFloat(value.toFixed(3));
+}
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Rate of the grille du taux neutre for a monthly base.
+ */
+function getNeutralRate(monthlyBase: number, fiscalYear: FiscalYear): number {
+  const { neutralRates } = getFiscalParameters(fiscalYear).incomeTax.withholding;
+  return (neutralRates.find((bracket) => monthlyBase <= bracket.limit) ?? neutralRates[neutralRates.length - 1]).rate;
+}
+
+/**
+ * Taux individualisé of the déclarant: the lower earner is taxed at the barème on its own income with half the parts,
+ * never above the taux du foyer, the higher earner bears the rest of the foyer's tax. Common income is shared equally.
+ */
+function calculateIndividualizedRate(
+  income: WithholdingIncome,
+  personalizedRate: number,
+  options: WithholdingOptions,
+  fiscalYear: FiscalYear
+): number {
+  const otherIncome = options.otherIncome ?? NO_OTHER_INCOME;
+  const taxpayerSalaries = calculateOtherTaxableIncome({ ...NO_OTHER_INCOME, taxpayerSalaries: otherIncome.taxpayerSalaries }, fiscalYear);
+  const spouseSalaries = calculateOtherTaxableIncome({ ...NO_OTHER_INCOME, spouseSalaries: otherIncome.spouseSalaries }, fiscalYear);
+  const commonIncome = Math.max(0, income.globalIncome - income.activityTaxableIncome - taxpayerSalaries - spouseSalaries);
+  const taxpayerIncome = income.activityTaxableIncome + taxpayerSalaries + commonIncome / 2;
+  const spouseIncome = spouseSalaries + commonIncome / 2;
+
+  const lowerIncome = Math.min(taxpayerIncome, spouseIncome);
+  const higherIncome = Math.max(taxpayerIncome, spouseIncome);
+  const parts = calculateFiscalParts(options.household ?? DEFAULT_HOUSEHOLD);
+  const lowerRate = lowerIncome > 0 ? Math.min(personalizedRate, roundRate(calculateBaremeTax(lowerIncome, parts / 2, fiscalYear) / lowerIncome)) : 0;
+  const higherRate = higherIncome > 0 ? roundRate(Math.max(0, income.totalTax - lowerRate * lowerIncome) / higherIncome) : 0;
+
+  return taxpayerIncome <= spouseIncome ? lowerRate : higherRate;
+}
+
+/**
+ * Due dates of the acomptes of the year.
+ */
+function getAcompteDates(frequency: AcompteFrequency, year: number): string[] {
+  const months = frequency === "MONTHLY" ? [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12] : [2, 5, 8, 11];
+  return months.map((month) => formatDate(year, month, 15));
+}
+
+/**
+ * Spreads an annual amount over the due dates, the rounding difference going to the last one.
+ */
+function spreadAmount(amount: number, dates: string[], kind: WithholdingEntryKind): WithholdingEntry[] {
+  const installment = parseFloat((amount / dates.length).toFixed(2));
+  return dates.map((date, index) => ({
+    date,
+    kind,
+    amount: index === dates.length - 1 ? parseFloat((amount - installment * (dates.length - 1)).toFixed(2)) : installment,
+  }));
+}
+
+/**
+ * Builds the prélèvement à la source of a regime taxed at the barème.
+ * The taux personnalisé is the foyer's tax over its revenu global; the acomptes apply the chosen rate to the bénéfice of
+ * the last year declared, estimated from the income of the year scaled to the previous chiffre d'affaires, and nothing
+ * is due in the year of creation. The other income is assumed withheld at the taux personnalisé of the year, so the
+ * régularisation of N+1 is the tax of the foyer minus that withholding and the acomptes:
+ * paid in September up to 300 €, from September to December above, or refunded in July when negative.
+ * @param income The income and the tax of the foyer under the regime.
+ * @param settings The rate option and the frequency of the acomptes.
+ * @param options The household composition, the fiscal year, the other income of the foyer, the business creation date and the previous year's chiffre d'affaires.
+ * @returns The rates, the totals and the dated schedule.
+ */
+export function calculateWithholdingSchedule(
+  income: WithholdingIncome,
+  settings: WithholdingSettings = DEFAULT_WITHHOLDING_SETTINGS,
+  options: WithholdingOptions = {}
+): WithholdingSchedule {
+  const fiscalYear = options.fiscalYear ?? DEFAULT_FISCAL_YEAR;
+  const household = options.household ?? DEFAULT_HOUSEHOLD;
+  const { regularizationInstallmentThreshold } = getFiscalParameters(fiscalYear).incomeTax.withholding;
+  const activityIncome = Math.max(0, income.activityTaxableIncome);
+  const otherIncome = Math.max(0, income.globalIncome - activityIncome);
+
+  const personalizedRate = income.globalIncome > 0 ? roundRate(income.totalTax / income.globalIncome) : 0;
+  const individualizedRate = household.familySituation === "MARIE_PACSE"
+    ? calculateIndividualizedRate(income, personalizedRate, options, fiscalYear)
+    : null;
+
+  const creation = parseIsoDate(options.creationDate);
+  const createdThisYear = creation !== undefined && new Date(creation).getUTCFullYear() >= fiscalYear;
+  const acompteBase = createdThisYear
+    ? 0
+    : options.previousYearRevenue !== undefined && income.revenue > 0
+      ? activityIncome * Math.max(0, options.previousYearRevenue) / income.revenue
+      : activityIncome;
+  const neutralRate = getNeutralRate(acompteBase / 12, fiscalYear);
+  const appliedRate = settings.rateOption === "NEUTRE"
+    ? neutralRate
+    : settings.rateOption === "INDIVIDUALISE" ? individualizedRate ?? personalizedRate : personalizedRate;
+
+  const acomptes = parseFloat((acompteBase * appliedRate).toFixed(2));
+  const complements = settings.rateOption === "NEUTRE" ? parseFloat(Math.max(0, acompteBase * (personalizedRate - neutralRate)).toFixed(2)) : 0;
+  // With the taux individualisé the spouse's rate makes up the difference, so the foyer withholds its own rate overall
+  const activityWithholding = settings.rateOption === "INDIVIDUALISE" ? personalizedRate * acompteBase : acomptes + complements;
+  const withheld = personalizedRate * otherIncome + activityWithholding;
+  const otherIncomeWithholding = parseFloat(Math.max(0, withheld - acomptes - complements).toFixed(2));
+  const regularization = parseFloat((income.totalTax - withheld).toFixed(2));
+
+  const acompteDates = getAcompteDates(settings.frequency, fiscalYear);
+  const entries: WithholdingEntry[] = [];
+  if (acomptes > 0) entries.push(...spreadAmount(acomptes, acompteDates, "ACOMPTE"));
+  if (complements > 0) entries.push(...spreadAmount(complements, acompteDates, "COMPLEMENT"));
+  if (regularization < 0) {
+    entries.push({ date: formatDate(fiscalYear + 1, 7, 25), kind: "REFUND", amount: regularization });
+  } else if (regularization > regularizationInstallmentThreshold) {
+    entries.push(...spreadAmount(regularization, [9, 10, 11, 12].map((month) => formatDate(fiscalYear + 1, month, 25)), "REGULARISATION"));
+  } else if (regularization > 0) {
+    entries.push({ date: formatDate(fiscalYear + 1, 9, 25), kind: "REGULARISATION", amount: regularization });
+  }
+  entries.sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    personalizedRate,
+    individualizedRate,
+    neutralRate,
+    appliedRate,
+    acompteBase: parseFloat(acompteBase.toFixed(2)),
+    acomptes,
+    complements,
+    otherIncomeWithholding,
+    totalTax: income.totalTax,
+    regularization,
+    entries,
+  };
+}